@@ -1,20 +1,40 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
+import { PricingProvider } from './contexts/PricingContext';
+import { ProviderSettingsProvider } from './contexts/ProviderSettingsContext';
 import { StudentsProvider } from './contexts/StudentsContext';
+import { StudentFieldsProvider } from './contexts/StudentFieldsContext';
+import { ClassesProvider } from './contexts/ClassesContext';
+import { TopicsProvider } from './contexts/TopicsContext';
 import { MessagesProvider } from './contexts/MessagesContext';
+import { BudgetsProvider } from './contexts/BudgetsContext';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import Dashboard from './pages/Dashboard';
 import Students from './pages/Students';
+import Classes from './pages/Classes';
 import Profile from './pages/Profile';
+import StudentConversation from './pages/StudentConversation';
+import Inbox from './pages/Inbox';
+import Search from './pages/Search';
+import Topics from './pages/Topics';
+import Playground from './pages/Playground';
+import Prompts from './pages/Prompts';
+import Settings from './pages/Settings';
 import ProtectedRoute from './components/ProtectedRoute';
 
 const App: React.FC = () => {
   return (
     <AuthProvider>
+      <PricingProvider>
+      <ProviderSettingsProvider>
       <StudentsProvider>
+      <StudentFieldsProvider>
+      <ClassesProvider>
+        <TopicsProvider>
         <MessagesProvider>
+        <BudgetsProvider>
           <Router>
           <div className="App">
             <Routes>
@@ -36,6 +56,70 @@ const App: React.FC = () => {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/classes"
+                element={
+                  <ProtectedRoute>
+                    <Classes />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/students/:id/conversation"
+                element={
+                  <ProtectedRoute>
+                    <StudentConversation />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/inbox"
+                element={
+                  <ProtectedRoute>
+                    <Inbox />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/search"
+                element={
+                  <ProtectedRoute>
+                    <Search />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/topics"
+                element={
+                  <ProtectedRoute>
+                    <Topics />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/playground"
+                element={
+                  <ProtectedRoute>
+                    <Playground />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/prompts"
+                element={
+                  <ProtectedRoute>
+                    <Prompts />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/settings"
+                element={
+                  <ProtectedRoute>
+                    <Settings />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/profile"
                 element={
@@ -48,8 +132,14 @@ const App: React.FC = () => {
             </Routes>
           </div>
         </Router>
+        </BudgetsProvider>
         </MessagesProvider>
+        </TopicsProvider>
+      </ClassesProvider>
+      </StudentFieldsProvider>
       </StudentsProvider>
+      </ProviderSettingsProvider>
+      </PricingProvider>
     </AuthProvider>
   );
 };
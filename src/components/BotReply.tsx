@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { useMessages, Message, MessageRevision } from '../contexts/MessagesContext';
+import { usePricing } from '../contexts/PricingContext';
+import { formatCost } from '../services/pricingRegistry';
+
+interface BotReplyProps {
+  message: Message;
+  isMobile: boolean;
+}
+
+const BotReply: React.FC<BotReplyProps> = ({ message, isMobile }) => {
+  const { editBotReply, getMessageRevisions } = useMessages();
+  const { calculateCost } = usePricing();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [revisions, setRevisions] = useState<MessageRevision[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  const isTeacherReply = message.outputAuthor === 'teacher';
+
+  const handleStartEdit = () => {
+    setDraft(message.outputContent || '');
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!draft.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await editBotReply(message.id, draft.trim());
+      setIsEditing(false);
+      // Force the history to be reloaded next time it is opened
+      setRevisions(null);
+      setShowHistory(false);
+    } catch (error) {
+      alert('Failed to save reply: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleHistory = async () => {
+    if (showHistory) {
+      setShowHistory(false);
+      return;
+    }
+
+    setShowHistory(true);
+    setHistoryError(null);
+    if (revisions) return;
+
+    try {
+      setRevisions(await getMessageRevisions(message.id));
+    } catch (error) {
+      setHistoryError((error as Error).message || 'Failed to load history');
+    }
+  };
+
+  const linkButtonStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    color: '#4299e1',
+    fontSize: '0.75rem',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+      <div style={{
+        maxWidth: isMobile ? '90%' : '70%',
+        width: isEditing ? '100%' : 'auto',
+        padding: '0.75rem 1rem',
+        backgroundColor: message.outputContent ? (isTeacherReply ? '#f0fff4' : '#ebf8ff') : '#fffaf0',
+        color: '#2d3748',
+        border: `1px solid ${message.outputContent ? (isTeacherReply ? '#9ae6b4' : '#bee3f8') : '#feebc8'}`,
+        borderRadius: '12px 12px 2px 12px',
+        whiteSpace: 'pre-wrap',
+        wordBreak: 'break-word'
+      }}>
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          gap: '0.75rem',
+          fontSize: '0.75rem',
+          color: '#718096',
+          marginBottom: '0.25rem'
+        }}>
+          <span>
+            {isTeacherReply ? '🧑‍🏫 Corrected by teacher' : '🤖 Assistant'}
+            {message.outputEditedAt && ` • edited ${new Date(message.outputEditedAt).toLocaleString()}`}
+            {message.usage &&
+              ` • ${message.usage.totalTokens.toLocaleString()} tokens (${formatCost(calculateCost(message.usage, message.model, message.createdAt))})`}
+          </span>
+          {!isEditing && (
+            <span style={{ display: 'flex', gap: '0.5rem' }}>
+              <button onClick={handleStartEdit} style={linkButtonStyle}>
+                {message.outputContent ? 'Edit' : 'Add reply'}
+              </button>
+              {message.outputEditedAt && (
+                <button onClick={handleToggleHistory} style={linkButtonStyle}>
+                  {showHistory ? 'Hide history' : 'History'}
+                </button>
+              )}
+            </span>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={4}
+              style={{
+                width: '100%',
+                padding: '0.5rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                fontSize: '0.875rem',
+                fontFamily: 'inherit',
+                resize: 'vertical'
+              }}
+            />
+            <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', marginTop: '0.5rem' }}>
+              <button
+                onClick={() => setIsEditing(false)}
+                disabled={isSaving}
+                style={{
+                  padding: '0.25rem 0.75rem',
+                  backgroundColor: '#e2e8f0',
+                  color: '#4a5568',
+                  border: 'none',
+                  borderRadius: '4px',
+                  fontSize: '0.75rem',
+                  cursor: 'pointer'
+                }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !draft.trim()}
+                style={{
+                  padding: '0.25rem 0.75rem',
+                  backgroundColor: isSaving || !draft.trim() ? '#a0aec0' : '#38a169',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  fontSize: '0.75rem',
+                  cursor: isSaving || !draft.trim() ? 'not-allowed' : 'pointer'
+                }}
+              >
+                {isSaving ? 'Saving...' : 'Save reply'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          message.outputContent || (
+            <span style={{ color: '#c05621', fontStyle: 'italic' }}>No reply recorded</span>
+          )
+        )}
+
+        {showHistory && (
+          <div style={{
+            marginTop: '0.75rem',
+            paddingTop: '0.5rem',
+            borderTop: '1px dashed #cbd5e0',
+            fontSize: '0.75rem',
+            color: '#4a5568'
+          }}>
+            <strong>Revision history</strong>
+            {historyError && <div style={{ color: '#e53e3e' }}>{historyError}</div>}
+            {!revisions && !historyError && <div>Loading...</div>}
+            {revisions?.length === 0 && <div>No earlier versions</div>}
+            {revisions?.map(revision => (
+              <div key={revision.id} style={{ marginTop: '0.5rem' }}>
+                <div style={{ color: '#718096' }}>
+                  {new Date(revision.createdAt).toLocaleString()} — replaced {revision.previousAuthor === 'bot' ? 'assistant' : 'teacher'} reply:
+                </div>
+                <div style={{ textDecoration: 'line-through', color: '#a0aec0' }}>
+                  {revision.previousOutput || '(empty)'}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BotReply;
\ No newline at end of file
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useStudents } from '../contexts/StudentsContext';
+import { useBudgets, QuotaMeter, QuotaState, StudentQuotaStatus } from '../contexts/BudgetsContext';
+
+const STATE_COLORS: Record<QuotaState, string> = {
+  ok: '#48bb78',
+  warning: '#d69e2e',
+  exceeded: '#e53e3e'
+};
+
+const STATE_LABELS: Record<QuotaState, string> = {
+  ok: '',
+  warning: '⚠️ Nearly used up',
+  exceeded: '⛔ Limit reached — the bot stops answering'
+};
+
+interface BudgetOverviewProps {
+  isMobile: boolean;
+  // Organisation-wide spend reported by OpenAI this month, when the usage API is available
+  reportedMonthCost?: number | null;
+}
+
+const formatCost = (value: number) => `$${value.toFixed(2)}`;
+
+const ProgressBar: React.FC<{ meter: QuotaMeter; format?: (value: number) => string }> = ({
+  meter,
+  format = (value: number) => value.toLocaleString()
+}) => (
+  <div style={{ marginBottom: '0.5rem' }}>
+    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.75rem', color: '#4a5568', marginBottom: '0.25rem' }}>
+      <span>{meter.label}</span>
+      <span style={{ color: meter.state === 'ok' ? '#4a5568' : STATE_COLORS[meter.state], fontWeight: meter.state === 'ok' ? '400' : '600' }}>
+        {format(meter.used)} / {format(meter.limit)}
+      </span>
+    </div>
+    <div style={{ height: '8px', backgroundColor: '#edf2f7', borderRadius: '4px', overflow: 'hidden' }}>
+      <div style={{
+        width: `${Math.min(meter.ratio, 1) * 100}%`,
+        height: '100%',
+        backgroundColor: STATE_COLORS[meter.state]
+      }} />
+    </div>
+  </div>
+);
+
+const BudgetOverview: React.FC<BudgetOverviewProps> = ({ isMobile, reportedMonthCost }) => {
+  const { students } = useStudents();
+  const { quotas, saveMonthlyBudget, getBudgetStatus, getStudentQuotaStatus } = useBudgets();
+  const [isEditing, setIsEditing] = useState(false);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const budgetStatus = getBudgetStatus();
+
+  // Students closest to their limits first
+  const studentStatuses = quotas
+    .map(quota => getStudentQuotaStatus(quota.studentId))
+    .filter((status): status is StudentQuotaStatus => status !== null && status.meters.length > 0)
+    .sort((a, b) =>
+      Math.max(...b.meters.map(meter => meter.ratio)) - Math.max(...a.meters.map(meter => meter.ratio))
+    );
+
+  const handleStartEdit = () => {
+    setBudgetInput(budgetStatus ? String(budgetStatus.limit) : '');
+    setIsEditing(true);
+  };
+
+  const handleSaveBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = budgetInput.trim() === '' ? null : Number(budgetInput);
+    if (amount !== null && (!Number.isFinite(amount) || amount <= 0)) {
+      alert('Please enter a budget greater than zero, or leave it empty to remove the budget.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveMonthlyBudget(amount);
+      setIsEditing(false);
+    } catch (error) {
+      alert('Failed to save budget: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getStudentName = (studentId: string) => {
+    const student = students.find(s => s.id === studentId);
+    return student ? `${student.firstName} ${student.lastName}` : 'Unknown student';
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: '#e2e8f0',
+    color: '#4a5568',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.75rem',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: isMobile ? '1rem' : '1.5rem',
+      borderRadius: '10px',
+      boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+      marginBottom: '2rem'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+        <h3 style={{ color: '#333', margin: 0 }}>💰 Budget & Quotas</h3>
+        {!isEditing && (
+          <button onClick={handleStartEdit} style={smallButtonStyle}>
+            {budgetStatus ? 'Edit budget' : 'Set monthly budget'}
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <form onSubmit={handleSaveBudget} style={{
+          display: 'flex',
+          flexDirection: isMobile ? 'column' : 'row',
+          gap: '0.5rem',
+          marginBottom: '1rem'
+        }}>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={budgetInput}
+            onChange={(e) => setBudgetInput(e.target.value)}
+            placeholder="Monthly budget in USD, empty for none"
+            autoFocus
+            style={{ flex: 1, padding: '0.5rem', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '0.875rem' }}
+          />
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button type="submit" disabled={isSaving} style={{ ...smallButtonStyle, backgroundColor: '#667eea', color: 'white' }}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button type="button" onClick={() => setIsEditing(false)} style={smallButtonStyle}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {budgetStatus ? (
+        <div style={{ marginBottom: '1rem' }}>
+          <ProgressBar meter={budgetStatus} format={formatCost} />
+          {budgetStatus.state !== 'ok' && (
+            <div style={{ fontSize: '0.75rem', color: STATE_COLORS[budgetStatus.state], fontWeight: '500' }}>
+              {STATE_LABELS[budgetStatus.state]}
+            </div>
+          )}
+          {reportedMonthCost != null && (
+            <div style={{ fontSize: '0.75rem', color: '#718096', marginTop: '0.25rem' }}>
+              OpenAI reports {formatCost(reportedMonthCost)} for the whole organisation this month
+            </div>
+          )}
+        </div>
+      ) : (
+        <p style={{ color: '#718096', fontStyle: 'italic', marginTop: 0 }}>
+          No monthly budget set. Student conversations can keep spending without a cap.
+        </p>
+      )}
+
+      {studentStatuses.length === 0 ? (
+        <p style={{ color: '#718096', fontSize: '0.875rem', margin: 0 }}>
+          No student quotas yet. Set daily or monthly limits from the <Link to="/students" style={{ color: '#4299e1' }}>Students</Link> page.
+        </p>
+      ) : (
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(auto-fit, minmax(${isMobile ? '100%' : '260px'}, 1fr))`,
+          gap: '1rem'
+        }}>
+          {studentStatuses.map(status => (
+            <div key={status.quota.studentId} style={{
+              padding: '0.75rem',
+              border: `1px solid ${status.state === 'ok' ? '#e2e8f0' : STATE_COLORS[status.state]}`,
+              borderRadius: '8px'
+            }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem' }}>
+                <Link
+                  to={`/students/${status.quota.studentId}/conversation`}
+                  style={{ color: '#2d3748', fontWeight: '500', textDecoration: 'none' }}
+                >
+                  {getStudentName(status.quota.studentId)}
+                </Link>
+              </div>
+              {status.meters.map(meter => (
+                <ProgressBar key={meter.label} meter={meter} />
+              ))}
+              {status.state !== 'ok' && (
+                <div style={{ fontSize: '0.75rem', color: STATE_COLORS[status.state], fontWeight: '500' }}>
+                  {STATE_LABELS[status.state]}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetOverview;
\ No newline at end of file
@@ -0,0 +1,45 @@
+import React from 'react';
+import { useClasses } from '../contexts/ClassesContext';
+
+// Picks the class the Students page, Dashboard and exports are scoped to
+const ClassSelector: React.FC = () => {
+  const { classes, selectedClassId, setSelectedClassId } = useClasses();
+
+  if (classes.length === 0) {
+    return null;
+  }
+
+  return (
+    <label style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.25rem',
+      marginTop: '0.75rem',
+      fontSize: '0.75rem',
+      color: '#a0aec0'
+    }}>
+      Class
+      <select
+        value={selectedClassId ?? ''}
+        onChange={(e) => setSelectedClassId(e.target.value || null)}
+        style={{
+          padding: '0.5rem',
+          backgroundColor: '#4a5568',
+          color: '#e2e8f0',
+          border: '1px solid #718096',
+          borderRadius: '6px',
+          fontSize: '0.875rem'
+        }}
+      >
+        <option value="">All students</option>
+        {classes.map(studentClass => (
+          <option key={studentClass.id} value={studentClass.id}>
+            {studentClass.name} ({studentClass.studentIds.length})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default ClassSelector;
\ No newline at end of file
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Student } from '../contexts/StudentsContext';
+import { useMessages } from '../contexts/MessagesContext';
+import { exportConversation, ConversationExportFormat } from '../utils/conversationExport';
+
+interface ConversationExportModalProps {
+  student: Student;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: Array<{ value: ConversationExportFormat; label: string; description: string }> = [
+  { value: 'pdf', label: 'PDF', description: 'Printable transcript — choose "Save as PDF" in the print dialog' },
+  { value: 'html', label: 'HTML', description: 'Transcript page you can email or open in any browser' },
+  { value: 'json', label: 'JSON', description: 'Machine-readable record of every message' },
+  { value: 'csv', label: 'CSV', description: 'One row per message, for spreadsheets' }
+];
+
+const ConversationExportModal: React.FC<ConversationExportModalProps> = ({ student, onClose }) => {
+  const { fetchConversationRecord } = useMessages();
+  const [format, setFormat] = useState<ConversationExportFormat>('pdf');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (startDate && endDate && startDate > endDate) {
+      setError('Start date must be before end date');
+      return;
+    }
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      const record = await fetchConversationRecord(student.id, {
+        startDate: startDate || undefined,
+        endDate: endDate || undefined
+      });
+      exportConversation(format, {
+        student,
+        ...record,
+        startDate: startDate || undefined,
+        endDate: endDate || undefined
+      });
+      onClose();
+    } catch (error) {
+      setError((error as Error).message || 'Failed to export conversation');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem'
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        padding: '2rem',
+        borderRadius: '10px',
+        boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+        width: '90%',
+        maxWidth: '500px',
+        maxHeight: '90vh',
+        overflowY: 'auto'
+      }}>
+        <h3 style={{ marginBottom: '1.5rem', color: '#333', textAlign: 'center' }}>
+          Export conversation with {student.firstName} {student.lastName}
+        </h3>
+
+        <form onSubmit={handleExport}>
+          <div style={{ display: 'flex', gap: '1rem', marginBottom: '0.5rem' }}>
+            <div style={{ flex: 1 }}>
+              <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', color: '#4a5568' }}>
+                From
+              </label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} style={inputStyle} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', color: '#4a5568' }}>
+                To
+              </label>
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} style={inputStyle} />
+            </div>
+          </div>
+          <p style={{ margin: '0 0 1.5rem', fontSize: '0.75rem', color: '#718096' }}>
+            Leave both dates empty to export the full history.
+          </p>
+
+          <div style={{ marginBottom: '1.5rem' }}>
+            {FORMAT_OPTIONS.map(option => (
+              <label key={option.value} style={{
+                display: 'flex',
+                gap: '0.75rem',
+                alignItems: 'flex-start',
+                padding: '0.75rem',
+                marginBottom: '0.5rem',
+                border: `1px solid ${format === option.value ? '#667eea' : '#e2e8f0'}`,
+                backgroundColor: format === option.value ? '#f0f4ff' : 'white',
+                borderRadius: '6px',
+                cursor: 'pointer'
+              }}>
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={option.value}
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  style={{ marginTop: '0.2rem' }}
+                />
+                <span>
+                  <strong style={{ color: '#2d3748' }}>{option.label}</strong>
+                  <span style={{ display: 'block', fontSize: '0.75rem', color: '#718096' }}>{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {error && (
+            <div style={{
+              padding: '0.75rem',
+              marginBottom: '1rem',
+              backgroundColor: '#fed7d7',
+              color: '#c53030',
+              borderRadius: '4px',
+              fontSize: '0.875rem'
+            }}>
+              {error}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end' }}>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isExporting}
+              style={{
+                padding: '0.75rem 1.5rem',
+                backgroundColor: '#e2e8f0',
+                color: '#4a5568',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isExporting}
+              style={{
+                padding: '0.75rem 1.5rem',
+                backgroundColor: isExporting ? '#a0aec0' : '#667eea',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: isExporting ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {isExporting ? 'Exporting...' : '📤 Export'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationExportModal;
\ No newline at end of file
@@ -0,0 +1,54 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+  // When set, long text is trimmed to a window around the first match
+  maxLength?: number;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Turn a websearch-style query into the plain words worth highlighting
+export const getSearchTerms = (query: string): string[] => {
+  return Array.from(new Set(
+    (query.match(/"[^"]+"|\S+/g) || [])
+      .filter(token => !token.startsWith('-') && token.toLowerCase() !== 'or')
+      .map(token => token.replace(/^"|"$/g, '').trim())
+      .filter(token => token.length > 1)
+  ));
+};
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms, maxLength }) => {
+  const pattern = terms.length > 0
+    ? new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi')
+    : null;
+
+  let visibleText = text;
+  if (maxLength && text.length > maxLength) {
+    const firstMatch = pattern ? text.search(pattern) : -1;
+    const start = Math.max(0, (firstMatch === -1 ? 0 : firstMatch) - Math.floor(maxLength / 3));
+    const end = Math.min(text.length, start + maxLength);
+    visibleText = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  }
+
+  if (!pattern) {
+    return <>{visibleText}</>;
+  }
+
+  return (
+    <>
+      {visibleText.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} style={{ backgroundColor: '#fefcbf', color: 'inherit', padding: 0 }}>
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
\ No newline at end of file
@@ -0,0 +1,59 @@
+import React from 'react';
+import { useStudents } from '../contexts/StudentsContext';
+import { useMessages } from '../contexts/MessagesContext';
+import { RealtimeStatus } from '../hooks/useRealtimeTable';
+
+interface LiveIndicatorProps {
+  variant?: 'light' | 'dark';
+}
+
+const statusDisplay: Record<RealtimeStatus, { label: string; color: string }> = {
+  live: { label: 'Live', color: '#38a169' },
+  connecting: { label: 'Connecting...', color: '#d69e2e' },
+  reconnecting: { label: 'Reconnecting...', color: '#dd6b20' },
+  idle: { label: 'Offline', color: '#a0aec0' }
+};
+
+// Both feeds have to be live for the dashboard numbers to be trusted
+const combineStatus = (statuses: RealtimeStatus[]): RealtimeStatus => {
+  if (statuses.every(status => status === 'live')) return 'live';
+  if (statuses.includes('reconnecting')) return 'reconnecting';
+  if (statuses.includes('connecting')) return 'connecting';
+  return 'idle';
+};
+
+const LiveIndicator: React.FC<LiveIndicatorProps> = ({ variant = 'light' }) => {
+  const { realtimeStatus: studentsStatus } = useStudents();
+  const { realtimeStatus: messagesStatus } = useMessages();
+  const status = combineStatus([studentsStatus, messagesStatus]);
+  const { label, color } = statusDisplay[status];
+
+  return (
+    <span
+      title={`Students: ${studentsStatus} • Messages: ${messagesStatus}`}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: '0.375rem',
+        padding: '0.125rem 0.625rem',
+        borderRadius: '12px',
+        fontSize: '0.75rem',
+        fontWeight: '500',
+        backgroundColor: variant === 'dark' ? 'rgba(255, 255, 255, 0.08)' : '#f7fafc',
+        border: `1px solid ${variant === 'dark' ? '#4a5568' : '#e2e8f0'}`,
+        color: variant === 'dark' ? '#e2e8f0' : '#4a5568'
+      }}
+    >
+      <span style={{
+        width: '8px',
+        height: '8px',
+        borderRadius: '50%',
+        backgroundColor: color,
+        boxShadow: status === 'live' ? `0 0 0 3px ${color}33` : 'none'
+      }}></span>
+      {label}
+    </span>
+  );
+};
+
+export default LiveIndicator;
\ No newline at end of file
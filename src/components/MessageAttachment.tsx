@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { Message } from '../contexts/MessagesContext';
+import attachmentService from '../services/attachmentService';
+
+interface MessageAttachmentProps {
+  message: Message;
+}
+
+type LoadState = 'loading' | 'ready' | 'missing';
+
+const unavailableStyle: React.CSSProperties = {
+  display: 'inline-block',
+  padding: '0.5rem 0.75rem',
+  backgroundColor: '#fff5f5',
+  color: '#c53030',
+  border: '1px dashed #feb2b2',
+  borderRadius: '6px',
+  fontSize: '0.75rem',
+  fontStyle: 'italic'
+};
+
+const MessageAttachment: React.FC<MessageAttachmentProps> = ({ message }) => {
+  const { attachment } = message;
+  const isImage = attachment ? attachmentService.isImage(attachment.mimeType) : message.messageType === 'image';
+
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const [state, setState] = useState<LoadState>('loading');
+  const [hasRetried, setHasRetried] = useState(false);
+  const [lightboxUrl, setLightboxUrl] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const resolveThumbnail = async () => {
+    if (!attachment) return;
+
+    const url = await attachmentService.getSignedUrl(attachment.path, { thumbnail: true });
+    setThumbnailUrl(url);
+    setState(url ? 'ready' : 'missing');
+  };
+
+  useEffect(() => {
+    setState('loading');
+    setHasRetried(false);
+    if (attachment && isImage) {
+      resolveThumbnail();
+    }
+  }, [attachment?.path]);
+
+  useEffect(() => {
+    if (!lightboxUrl) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setLightboxUrl(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [lightboxUrl]);
+
+  // A signed URL can expire while the page is open; re-sign once before giving up
+  const handleImageError = () => {
+    if (!attachment) return;
+
+    attachmentService.invalidate(attachment.path);
+    if (hasRetried) {
+      setState('missing');
+      return;
+    }
+    setHasRetried(true);
+    resolveThumbnail();
+  };
+
+  const handleOpenLightbox = async () => {
+    if (!attachment) return;
+
+    const url = await attachmentService.getSignedUrl(attachment.path);
+    if (url) {
+      setLightboxUrl(url);
+    } else {
+      setState('missing');
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!attachment) return;
+
+    setIsDownloading(true);
+    try {
+      const url = await attachmentService.getSignedUrl(attachment.path, { download: attachment.fileName });
+      if (url) {
+        window.location.href = url;
+      } else {
+        setState('missing');
+      }
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (!attachment || state === 'missing') {
+    return (
+      <div style={unavailableStyle}>
+        {isImage ? '🖼️ Image' : '📎 File'} no longer available
+        {attachment && ` (${attachment.fileName})`}
+      </div>
+    );
+  }
+
+  if (!isImage) {
+    return (
+      <button
+        onClick={handleDownload}
+        disabled={isDownloading}
+        style={{
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          maxWidth: '100%',
+          padding: '0.5rem 0.75rem',
+          backgroundColor: 'white',
+          color: '#2b6cb0',
+          border: '1px solid #cbd5e0',
+          borderRadius: '6px',
+          fontSize: '0.875rem',
+          cursor: isDownloading ? 'wait' : 'pointer',
+          textAlign: 'left'
+        }}
+      >
+        <span>📎</span>
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {attachment.fileName}
+        </span>
+        {attachment.size > 0 && (
+          <span style={{ color: '#718096', fontSize: '0.75rem', flexShrink: 0 }}>
+            {attachmentService.formatSize(attachment.size)}
+          </span>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <>
+      {state === 'loading' || !thumbnailUrl ? (
+        <div style={{
+          width: '160px',
+          height: '120px',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          backgroundColor: '#e2e8f0',
+          color: '#718096',
+          borderRadius: '6px',
+          fontSize: '0.75rem'
+        }}>
+          Loading image...
+        </div>
+      ) : (
+        <img
+          src={thumbnailUrl}
+          alt={attachment.fileName}
+          onClick={handleOpenLightbox}
+          onError={handleImageError}
+          style={{
+            display: 'block',
+            maxWidth: '100%',
+            maxHeight: '240px',
+            borderRadius: '6px',
+            cursor: 'zoom-in'
+          }}
+        />
+      )}
+
+      {lightboxUrl && (
+        <div
+          onClick={() => setLightboxUrl(null)}
+          style={{
+            position: 'fixed',
+            inset: 0,
+            backgroundColor: 'rgba(0, 0, 0, 0.85)',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: '1rem',
+            zIndex: 1000,
+            cursor: 'zoom-out'
+          }}
+        >
+          <img
+            src={lightboxUrl}
+            alt={attachment.fileName}
+            onError={() => {
+              attachmentService.invalidate(attachment.path);
+              setLightboxUrl(null);
+              setState('missing');
+            }}
+            style={{ maxWidth: '100%', maxHeight: 'calc(100% - 3rem)', objectFit: 'contain' }}
+          />
+          <div style={{ marginTop: '0.75rem', color: 'white', fontSize: '0.875rem' }}>
+            {attachment.fileName} • Click anywhere or press Esc to close
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MessageAttachment;
\ No newline at end of file
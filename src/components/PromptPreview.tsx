@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { useStudents } from '../contexts/StudentsContext';
+import { usePricing } from '../contexts/PricingContext';
+import { formatCost } from '../services/pricingRegistry';
+import { openAIService, ChatCompletionResponse, CHAT_MODELS } from '../services/openaiService';
+import {
+  PromptVariable,
+  STUDENT_VARIABLES,
+  getCustomVariableNames,
+  getStudentValues,
+  renderTemplate
+} from '../services/promptTemplateService';
+
+interface PromptPreviewProps {
+  content: string;
+  variables: PromptVariable[];
+}
+
+const PromptPreview: React.FC<PromptPreviewProps> = ({ content, variables }) => {
+  const { students } = useStudents();
+  const { calculateCost } = usePricing();
+  const [studentId, setStudentId] = useState('');
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  const [sampleMessage, setSampleMessage] = useState('Can you help me with my homework?');
+  const [model, setModel] = useState(CHAT_MODELS[0]);
+  const [reply, setReply] = useState<ChatCompletionResponse | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!studentId && students.length > 0) {
+      setStudentId(students[0].id);
+    }
+  }, [students, studentId]);
+
+  const student = students.find(s => s.id === studentId);
+  const customNames = getCustomVariableNames(content);
+  const values: Record<string, string> = {
+    ...(student ? getStudentValues(student) : {}),
+    ...Object.fromEntries(customNames.map(name => [
+      name,
+      overrides[name] ?? variables.find(variable => variable.name === name)?.defaultValue ?? ''
+    ]))
+  };
+  const rendered = renderTemplate(content, values);
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setError(null);
+    setReply(null);
+    try {
+      setReply(await openAIService.createChatCompletion(
+        [
+          { role: 'system', content: rendered },
+          { role: 'user', content: sampleMessage }
+        ],
+        model
+      ));
+    } catch (error) {
+      setError((error as Error).message || 'Failed to get a reply');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    minWidth: 0
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+    fontSize: '0.75rem',
+    color: '#4a5568'
+  };
+
+  const canSend = !isSending && !!student && rendered.trim() !== '' && sampleMessage.trim() !== '';
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <label style={{ ...labelStyle, flex: '1 1 200px' }}>
+          Student
+          <select value={studentId} onChange={(e) => setStudentId(e.target.value)} style={inputStyle}>
+            {students.length === 0 && <option value="">No students yet</option>}
+            {students.map(s => (
+              <option key={s.id} value={s.id}>{s.firstName} {s.lastName}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ ...labelStyle, flex: '1 1 160px' }}>
+          Model
+          <select value={model} onChange={(e) => setModel(e.target.value)} style={inputStyle}>
+            {CHAT_MODELS.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {customNames.length > 0 && (
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+          {customNames.map(name => (
+            <label key={name} style={{ ...labelStyle, flex: '1 1 140px' }}>
+              {name}
+              <input
+                type="text"
+                value={values[name]}
+                onChange={(e) => setOverrides(prev => ({ ...prev, [name]: e.target.value }))}
+                style={inputStyle}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <div style={{ fontSize: '0.75rem', color: '#4a5568', marginBottom: '0.25rem' }}>Rendered prompt</div>
+        <pre style={{
+          margin: 0,
+          padding: '0.75rem',
+          backgroundColor: '#f7fafc',
+          border: '1px solid #e2e8f0',
+          borderRadius: '4px',
+          fontSize: '0.8rem',
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-word',
+          fontFamily: 'inherit',
+          color: '#2d3748'
+        }}>
+          {rendered || 'The prompt is empty.'}
+        </pre>
+        <p style={{ margin: '0.25rem 0 0 0', color: '#a0aec0', fontSize: '0.7rem' }}>
+          From the student: {Object.keys(STUDENT_VARIABLES).map(name => `{{${name}}}`).join(', ')}
+        </p>
+      </div>
+
+      <label style={labelStyle}>
+        Sample student message
+        <textarea
+          value={sampleMessage}
+          onChange={(e) => setSampleMessage(e.target.value)}
+          rows={2}
+          style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+        />
+      </label>
+
+      <div>
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={!canSend}
+          style={{
+            padding: '0.5rem 1rem',
+            backgroundColor: canSend ? '#667eea' : '#a0aec0',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: canSend ? 'pointer' : 'not-allowed',
+            fontWeight: '500'
+          }}
+        >
+          {isSending ? 'Sending...' : 'Send test message'}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '0.75rem',
+          backgroundColor: '#fed7d7',
+          color: '#c53030',
+          borderRadius: '4px',
+          fontSize: '0.875rem'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {reply && (
+        <div style={{
+          padding: '0.75rem',
+          backgroundColor: '#f0fff4',
+          border: '1px solid #c6f6d5',
+          borderRadius: '4px'
+        }}>
+          <div style={{ whiteSpace: 'pre-wrap', color: '#2d3748', fontSize: '0.875rem' }}>{reply.content}</div>
+          <div style={{ marginTop: '0.5rem', color: '#718096', fontSize: '0.75rem' }}>
+            {reply.usage.totalTokens.toLocaleString()} tokens ({formatCost(calculateCost(reply.usage, model))})
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptPreview;
\ No newline at end of file
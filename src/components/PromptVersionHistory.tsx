@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { PromptTemplateVersion } from '../services/promptTemplateService';
+import { diffLines } from '../utils/textDiff';
+
+interface PromptVersionHistoryProps {
+  versions: PromptTemplateVersion[];
+  currentVersion: number;
+  onRollback: (version: PromptTemplateVersion) => Promise<void>;
+}
+
+const DIFF_COLORS = {
+  same: { backgroundColor: 'transparent', color: '#4a5568', marker: ' ' },
+  added: { backgroundColor: '#f0fff4', color: '#276749', marker: '+' },
+  removed: { backgroundColor: '#fff5f5', color: '#c53030', marker: '-' }
+};
+
+const PromptVersionHistory: React.FC<PromptVersionHistoryProps> = ({ versions, currentVersion, onRollback }) => {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  const current = versions.find(version => version.version === currentVersion);
+  const selected = versions.find(version => version.version === selectedVersion);
+
+  const handleRollback = async (version: PromptTemplateVersion) => {
+    if (!window.confirm(`Make version ${version.version} the current prompt again? It is saved as a new version, so nothing is lost.`)) return;
+
+    setIsRollingBack(true);
+    try {
+      await onRollback(version);
+      setSelectedVersion(null);
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: '#e2e8f0',
+    color: '#4a5568',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.75rem',
+    cursor: 'pointer'
+  };
+
+  if (versions.length === 0) {
+    return <p style={{ margin: 0, color: '#718096', fontSize: '0.875rem' }}>No versions saved yet.</p>;
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      {versions.map(version => {
+        const isCurrent = version.version === currentVersion;
+        const isSelected = version.version === selectedVersion;
+
+        return (
+          <div key={version.id} style={{ border: '1px solid #e2e8f0', borderRadius: '6px', overflow: 'hidden' }}>
+            <div style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '0.5rem',
+              padding: '0.5rem 0.75rem',
+              backgroundColor: isSelected ? '#ebf4ff' : '#f7fafc',
+              flexWrap: 'wrap'
+            }}>
+              <strong style={{ color: '#2d3748', fontSize: '0.875rem' }}>v{version.version}</strong>
+              {isCurrent && (
+                <span style={{
+                  padding: '0.125rem 0.5rem',
+                  backgroundColor: '#c6f6d5',
+                  color: '#276749',
+                  borderRadius: '9999px',
+                  fontSize: '0.7rem'
+                }}>
+                  Current
+                </span>
+              )}
+              <span style={{ color: '#718096', fontSize: '0.75rem' }}>
+                {new Date(version.createdAt).toLocaleString()}
+              </span>
+              {version.note && (
+                <span style={{ color: '#4a5568', fontSize: '0.75rem', fontStyle: 'italic' }}>{version.note}</span>
+              )}
+              <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.25rem' }}>
+                {!isCurrent && (
+                  <button
+                    type="button"
+                    onClick={() => setSelectedVersion(isSelected ? null : version.version)}
+                    style={smallButtonStyle}
+                  >
+                    {isSelected ? 'Hide changes' : 'Compare'}
+                  </button>
+                )}
+                {!isCurrent && (
+                  <button
+                    type="button"
+                    onClick={() => handleRollback(version)}
+                    disabled={isRollingBack}
+                    style={{ ...smallButtonStyle, cursor: isRollingBack ? 'not-allowed' : 'pointer' }}
+                  >
+                    Roll back
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {isSelected && selected && current && (
+              <div style={{ padding: '0.5rem 0.75rem', borderTop: '1px solid #e2e8f0' }}>
+                <p style={{ margin: '0 0 0.5rem 0', color: '#718096', fontSize: '0.75rem' }}>
+                  Changes from v{selected.version} to the current v{current.version}
+                </p>
+                <pre style={{
+                  margin: 0,
+                  fontSize: '0.8rem',
+                  whiteSpace: 'pre-wrap',
+                  wordBreak: 'break-word',
+                  fontFamily: 'monospace'
+                }}>
+                  {diffLines(selected.content, current.content).map((line, index) => (
+                    <div key={index} style={{
+                      backgroundColor: DIFF_COLORS[line.type].backgroundColor,
+                      color: DIFF_COLORS[line.type].color
+                    }}>
+                      {DIFF_COLORS[line.type].marker} {line.text}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PromptVersionHistory;
\ No newline at end of file
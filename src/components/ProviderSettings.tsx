@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { useProviderSettings } from '../contexts/ProviderSettingsContext';
+import { LLMProviderConfig, LLMProviderName, LLM_PROVIDER_LABELS } from '../services/llmProviders';
+
+interface ProviderSettingsProps {
+  isMobile: boolean;
+}
+
+const PROVIDER_HINTS: Record<LLMProviderName, string> = {
+  openai: 'Requests go to OpenAI through the app\'s proxy, which holds the API key.',
+  azure: 'Requests go to your Azure OpenAI deployment through the proxy, which holds the Azure endpoint and key. Safety checks use the built-in keyword rules.',
+  compatible: 'Requests go straight from this browser to the server, e.g. llama.cpp or Ollama on your own machine. The server must allow requests from this site. Safety checks use the built-in keyword rules.'
+};
+
+type TestState = 'idle' | 'testing' | 'ok' | 'failed';
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ isMobile }) => {
+  const { providerConfig, loading, error, saveProviderConfig, testProviderConfig } = useProviderSettings();
+  const [form, setForm] = useState<LLMProviderConfig>(providerConfig);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testState, setTestState] = useState<TestState>('idle');
+
+  // Follow the saved settings once they load or after saving
+  useEffect(() => {
+    setForm(providerConfig);
+  }, [providerConfig]);
+
+  const updateForm = (changes: Partial<LLMProviderConfig>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setTestState('idle');
+  };
+
+  const isValid =
+    form.provider === 'openai' ||
+    (form.provider === 'azure' && !!form.azureDeployment?.trim()) ||
+    (form.provider === 'compatible' && /^https?:\/\//.test(form.baseUrl ?? ''));
+
+  const handleTest = async () => {
+    setTestState('testing');
+    setTestState(await testProviderConfig(form) ? 'ok' : 'failed');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      await saveProviderConfig({
+        ...form,
+        azureDeployment: form.azureDeployment?.trim() || null,
+        baseUrl: form.baseUrl?.trim() || null,
+        apiKey: form.apiKey?.trim() || null,
+        model: form.model?.trim() || null
+      });
+    } catch (error) {
+      alert('Failed to save provider settings: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    minWidth: 0
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+    fontSize: '0.75rem',
+    color: '#4a5568'
+  };
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: isMobile ? '1rem' : '1.5rem',
+      borderRadius: '10px',
+      boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+      marginBottom: '1.5rem'
+    }}>
+      <h2 style={{ margin: '0 0 0.5rem 0', color: '#2d3748', fontSize: '1.25rem' }}>AI provider</h2>
+      <p style={{ margin: '0 0 1rem 0', color: '#718096', fontSize: '0.875rem' }}>
+        Where summaries, topic tagging and the playground send their requests.
+      </p>
+
+      {error && (
+        <div style={{
+          padding: '0.75rem',
+          marginBottom: '1rem',
+          backgroundColor: '#fed7d7',
+          color: '#c53030',
+          borderRadius: '4px',
+          fontSize: '0.875rem'
+        }}>
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        <label style={labelStyle}>
+          Provider
+          <select
+            value={form.provider}
+            onChange={(e) => updateForm({ provider: e.target.value as LLMProviderName })}
+            disabled={loading}
+            style={{ ...inputStyle, maxWidth: isMobile ? 'none' : '320px' }}
+          >
+            {(Object.keys(LLM_PROVIDER_LABELS) as LLMProviderName[]).map(name => (
+              <option key={name} value={name}>{LLM_PROVIDER_LABELS[name]}</option>
+            ))}
+          </select>
+        </label>
+        <p style={{ margin: 0, color: '#718096', fontSize: '0.8rem' }}>{PROVIDER_HINTS[form.provider]}</p>
+
+        {form.provider === 'azure' && (
+          <label style={{ ...labelStyle, maxWidth: isMobile ? 'none' : '320px' }}>
+            Deployment name
+            <input
+              type="text"
+              value={form.azureDeployment ?? ''}
+              onChange={(e) => updateForm({ azureDeployment: e.target.value })}
+              placeholder="e.g. gpt-4o-mini-eu"
+              style={inputStyle}
+            />
+          </label>
+        )}
+
+        {form.provider === 'compatible' && (
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: isMobile ? '1fr' : '2fr 1fr 1fr',
+            gap: '0.5rem'
+          }}>
+            <label style={labelStyle}>
+              Base URL
+              <input
+                type="url"
+                value={form.baseUrl ?? ''}
+                onChange={(e) => updateForm({ baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                style={inputStyle}
+              />
+            </label>
+            <label style={labelStyle}>
+              Model
+              <input
+                type="text"
+                value={form.model ?? ''}
+                onChange={(e) => updateForm({ model: e.target.value })}
+                placeholder="e.g. llama3.1"
+                style={inputStyle}
+              />
+            </label>
+            <label style={labelStyle}>
+              API key
+              <input
+                type="password"
+                value={form.apiKey ?? ''}
+                onChange={(e) => updateForm({ apiKey: e.target.value })}
+                placeholder="Optional"
+                autoComplete="off"
+                style={inputStyle}
+              />
+            </label>
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          <button
+            type="submit"
+            disabled={isSaving || !isValid}
+            style={{
+              padding: '0.5rem 1rem',
+              backgroundColor: isSaving || !isValid ? '#a0aec0' : '#667eea',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: isSaving || !isValid ? 'not-allowed' : 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            type="button"
+            onClick={handleTest}
+            disabled={testState === 'testing' || !isValid}
+            style={{
+              padding: '0.5rem 1rem',
+              backgroundColor: '#e2e8f0',
+              color: '#4a5568',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: testState === 'testing' || !isValid ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {testState === 'testing' ? 'Testing...' : 'Test connection'}
+          </button>
+          {testState === 'ok' && <span style={{ color: '#276749', fontSize: '0.875rem' }}>✅ Connected</span>}
+          {testState === 'failed' && (
+            <span style={{ color: '#c53030', fontSize: '0.875rem' }}>
+              ❌ No reply. Check the settings; the browser console has the details.
+            </span>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProviderSettings;
\ No newline at end of file
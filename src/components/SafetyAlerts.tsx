@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useStudents } from '../contexts/StudentsContext';
+import { useMessages, Message } from '../contexts/MessagesContext';
+import { SAFETY_CATEGORY_LABELS, SafetySeverity, compareSeverity } from '../services/safetyClassifier';
+
+const SEVERITY_COLORS: Record<SafetySeverity, { background: string; color: string }> = {
+  high: { background: '#e53e3e', color: 'white' },
+  medium: { background: '#dd6b20', color: 'white' },
+  low: { background: '#ecc94b', color: '#744210' }
+};
+
+// Highest severity first, newest first within a severity
+const byPriority = (a: Message, b: Message) =>
+  compareSeverity(b.safetySeverity ?? 'low', a.safetySeverity ?? 'low') ||
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+interface SafetyAlertsProps {
+  isMobile: boolean;
+}
+
+const SafetyAlerts: React.FC<SafetyAlertsProps> = ({ isMobile }) => {
+  const { getStudent } = useStudents();
+  const { safetyAlerts, acknowledgeSafetyAlert } = useMessages();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (safetyAlerts.length === 0) return null;
+
+  const handleAcknowledge = async (messageId: string) => {
+    setBusyId(messageId);
+    try {
+      await acknowledgeSafetyAlert(messageId);
+    } catch (error) {
+      alert('Failed to acknowledge alert: ' + (error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div style={{
+      marginBottom: '2rem',
+      backgroundColor: 'white',
+      border: '2px solid #feb2b2',
+      borderRadius: '10px',
+      boxShadow: '0 2px 10px rgba(229, 62, 62, 0.15)',
+      overflow: 'hidden'
+    }}>
+      <div style={{
+        padding: '1rem 1.5rem',
+        backgroundColor: '#fff5f5',
+        borderBottom: '1px solid #feb2b2'
+      }}>
+        <h3 style={{ margin: 0, color: '#c53030' }}>
+          ⚠️ Safety alerts ({safetyAlerts.length})
+        </h3>
+        <p style={{ margin: '0.25rem 0 0', color: '#742a2a', fontSize: '0.875rem' }}>
+          These messages were flagged automatically. Review each one and acknowledge it once handled.
+        </p>
+      </div>
+
+      {[...safetyAlerts].sort(byPriority).map((message, index) => {
+        const student = getStudent(message.studentId);
+        const severity = message.safetySeverity ?? 'low';
+
+        return (
+          <div key={message.id} style={{
+            display: 'flex',
+            flexDirection: isMobile ? 'column' : 'row',
+            justifyContent: 'space-between',
+            alignItems: isMobile ? 'stretch' : 'center',
+            gap: '0.75rem',
+            padding: '1rem 1.5rem',
+            borderBottom: index < safetyAlerts.length - 1 ? '1px solid #fed7d7' : 'none'
+          }}>
+            <div style={{ minWidth: 0, flex: 1 }}>
+              <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
+                <span style={{
+                  backgroundColor: SEVERITY_COLORS[severity].background,
+                  color: SEVERITY_COLORS[severity].color,
+                  borderRadius: '12px',
+                  padding: '0.125rem 0.5rem',
+                  fontSize: '0.75rem',
+                  fontWeight: '600',
+                  textTransform: 'uppercase'
+                }}>
+                  {severity}
+                </span>
+                <strong style={{ color: '#2d3748' }}>
+                  {student ? `${student.firstName} ${student.lastName}` : 'Unknown student'}
+                </strong>
+                <span style={{ color: '#718096', fontSize: '0.75rem' }}>
+                  {message.safetyFlags.map(flag => SAFETY_CATEGORY_LABELS[flag.category]).join(', ')}
+                </span>
+              </div>
+              <div style={{
+                color: '#4a5568',
+                fontSize: '0.875rem',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap'
+              }}>
+                {message.inputContent}
+              </div>
+              <div style={{ color: '#a0aec0', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                {new Date(message.createdAt).toLocaleString()}
+              </div>
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+              <Link
+                to={`/students/${message.studentId}/conversation?message=${message.id}&at=${encodeURIComponent(message.createdAt)}`}
+                style={{
+                  padding: '0.5rem 1rem',
+                  backgroundColor: '#4299e1',
+                  color: 'white',
+                  borderRadius: '4px',
+                  fontSize: '0.875rem',
+                  textDecoration: 'none'
+                }}
+              >
+                View
+              </Link>
+              <button
+                onClick={() => handleAcknowledge(message.id)}
+                disabled={busyId === message.id}
+                style={{
+                  padding: '0.5rem 1rem',
+                  backgroundColor: busyId === message.id ? '#a0aec0' : '#e53e3e',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  fontSize: '0.875rem',
+                  cursor: busyId === message.id ? 'not-allowed' : 'pointer'
+                }}
+              >
+                {busyId === message.id ? 'Saving...' : 'Acknowledge'}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SafetyAlerts;
\ No newline at end of file
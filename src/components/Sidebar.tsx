@@ -1,6 +1,9 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useMessages } from '../contexts/MessagesContext';
+import LiveIndicator from './LiveIndicator';
+import ClassSelector from './ClassSelector';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -11,10 +14,19 @@ interface SidebarProps {
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, isMobile }) => {
   const location = useLocation();
   const { user, signOut } = useAuth();
+  const { getUnreadCount } = useMessages();
+  const unreadCount = getUnreadCount();
 
   const menuItems = [
     { path: '/dashboard', label: 'Dashboard', icon: '🏠' },
+    { path: '/inbox', label: 'Inbox', icon: '📥', badge: unreadCount },
     { path: '/students', label: 'Students', icon: '👥' },
+    { path: '/classes', label: 'Classes', icon: '🏫' },
+    { path: '/search', label: 'Search', icon: '🔍' },
+    { path: '/topics', label: 'Topics', icon: '🏷️' },
+    { path: '/playground', label: 'Playground', icon: '🧪' },
+    { path: '/prompts', label: 'Prompts', icon: '📝' },
+    { path: '/settings', label: 'Settings', icon: '⚙️' },
     { path: '/profile', label: 'Profile', icon: '👤' },
   ];
 
@@ -81,6 +93,10 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, isMobile }) => {
         }}>
           Welcome, {user?.user_metadata?.first_name || user?.email}
         </p>
+        <div style={{ marginTop: '0.75rem' }}>
+          <LiveIndicator variant="dark" />
+        </div>
+        <ClassSelector />
       </div>
 
       {/* Navigation Menu */}
@@ -118,6 +134,21 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, isMobile }) => {
               {item.icon}
             </span>
             {item.label}
+            {!!item.badge && (
+              <span style={{
+                marginLeft: 'auto',
+                minWidth: '1.25rem',
+                padding: '0.125rem 0.5rem',
+                borderRadius: '12px',
+                backgroundColor: '#e53e3e',
+                color: 'white',
+                fontSize: '0.75rem',
+                fontWeight: '600',
+                textAlign: 'center'
+              }}>
+                {item.badge > 99 ? '99+' : item.badge}
+              </span>
+            )}
           </Link>
         ))}
       </nav>
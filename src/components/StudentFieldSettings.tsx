@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import {
+  useStudentFields,
+  StudentField,
+  StudentFieldType,
+  STUDENT_FIELD_TYPE_LABELS
+} from '../contexts/StudentFieldsContext';
+
+interface StudentFieldSettingsProps {
+  isMobile: boolean;
+}
+
+interface FieldFormState {
+  name: string;
+  type: StudentFieldType;
+  options: string;
+}
+
+const emptyForm: FieldFormState = { name: '', type: 'text', options: '' };
+
+const parseOptions = (value: string) =>
+  Array.from(new Set(value.split(',').map(option => option.trim()).filter(Boolean)));
+
+const StudentFieldSettings: React.FC<StudentFieldSettingsProps> = ({ isMobile }) => {
+  const { fields, error, addField, updateField, deleteField } = useStudentFields();
+  const [form, setForm] = useState<FieldFormState>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const options = parseOptions(form.options);
+  const isValid = form.name.trim() !== '' && (form.type !== 'select' || options.length > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    const fieldData = { name: form.name.trim(), type: form.type, options: form.type === 'select' ? options : [] };
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await updateField(editingId, fieldData);
+      } else {
+        await addField(fieldData);
+      }
+      setEditingId(null);
+      setForm(emptyForm);
+    } catch (error) {
+      alert('Failed to save student field: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: StudentField) => {
+    if (!window.confirm(`Delete the "${field.name}" field? Values already entered for it will no longer be shown.`)) return;
+
+    try {
+      await deleteField(field.id);
+      if (editingId === field.id) {
+        setEditingId(null);
+        setForm(emptyForm);
+      }
+    } catch (error) {
+      alert('Failed to delete student field: ' + (error as Error).message);
+    }
+  };
+
+  const startEditing = (field: StudentField) => {
+    setEditingId(field.id);
+    setForm({ name: field.name, type: field.type, options: field.options.join(', ') });
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    minWidth: 0
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: '#e2e8f0',
+    color: '#4a5568',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.75rem',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: isMobile ? '1rem' : '1.5rem',
+      borderRadius: '10px',
+      boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+      marginBottom: '1.5rem'
+    }}>
+      <h2 style={{ margin: '0 0 0.5rem 0', color: '#2d3748', fontSize: '1.25rem' }}>Student fields</h2>
+      <p style={{ margin: '0 0 1rem 0', color: '#718096', fontSize: '0.875rem' }}>
+        Extra details to keep for each student. They appear in the add and edit forms, as CSV columns
+        under the field's name, and as filters on the Students page.
+      </p>
+
+      {error && (
+        <div style={{
+          padding: '0.75rem',
+          marginBottom: '1rem',
+          backgroundColor: '#fed7d7',
+          color: '#c53030',
+          borderRadius: '4px',
+          fontSize: '0.875rem'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {fields.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginBottom: '1rem' }}>
+          {fields.map(field => (
+            <div key={field.id} style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '0.5rem',
+              padding: '0.5rem 0.75rem',
+              backgroundColor: field.id === editingId ? '#ebf4ff' : '#f7fafc',
+              borderRadius: '6px',
+              flexWrap: 'wrap'
+            }}>
+              <strong style={{ color: '#2d3748', fontSize: '0.875rem' }}>{field.name}</strong>
+              <span style={{ color: '#718096', fontSize: '0.75rem' }}>
+                {STUDENT_FIELD_TYPE_LABELS[field.type]}
+                {field.type === 'select' && `: ${field.options.join(', ')}`}
+              </span>
+              <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.5rem' }}>
+                <button onClick={() => startEditing(field)} style={smallButtonStyle}>Edit</button>
+                <button onClick={() => handleDelete(field)} style={{ ...smallButtonStyle, backgroundColor: '#fed7d7', color: '#c53030' }}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr' : '1fr 160px 2fr auto',
+        gap: '0.5rem',
+        alignItems: 'center'
+      }}>
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Field name, e.g. Learning plan"
+          style={inputStyle}
+        />
+        <select
+          value={form.type}
+          onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as StudentFieldType }))}
+          style={inputStyle}
+        >
+          {(Object.keys(STUDENT_FIELD_TYPE_LABELS) as StudentFieldType[]).map(type => (
+            <option key={type} value={type}>{STUDENT_FIELD_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={form.options}
+          onChange={(e) => setForm(prev => ({ ...prev, options: e.target.value }))}
+          placeholder={form.type === 'select' ? 'Choices, separated by commas' : 'Choices only apply to choice lists'}
+          disabled={form.type !== 'select'}
+          style={inputStyle}
+        />
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button
+            type="submit"
+            disabled={isSaving || !isValid}
+            style={{
+              padding: '0.5rem 1rem',
+              backgroundColor: isSaving || !isValid ? '#a0aec0' : '#667eea',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: isSaving || !isValid ? 'not-allowed' : 'pointer',
+              fontWeight: '500',
+              whiteSpace: 'nowrap'
+            }}
+          >
+            {editingId ? 'Save field' : '+ Add field'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={() => {
+                setEditingId(null);
+                setForm(emptyForm);
+              }}
+              style={smallButtonStyle}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default StudentFieldSettings;
\ No newline at end of file
@@ -0,0 +1,205 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { CreateStudentData, GuardianContact } from '../contexts/StudentsContext';
+import { useStudentFields, StudentField, parseFieldValue } from '../contexts/StudentFieldsContext';
+
+interface StudentProfileFieldsProps {
+  studentData: CreateStudentData;
+  onChange: (studentData: CreateStudentData) => void;
+  isSmallMobile: boolean;
+}
+
+const emptyGuardian: GuardianContact = { name: '', relationship: '', phone: '', email: '' };
+
+// The optional profile details and the teacher's own fields, shared by the add and edit modals
+const StudentProfileFields: React.FC<StudentProfileFieldsProps> = ({ studentData, onChange, isSmallMobile }) => {
+  const { fields } = useStudentFields();
+  const guardians = studentData.guardians ?? [];
+  const customFields = studentData.customFields ?? {};
+
+  const update = (changes: Partial<CreateStudentData>) => onChange({ ...studentData, ...changes });
+
+  const updateGuardian = (index: number, changes: Partial<GuardianContact>) => {
+    update({ guardians: guardians.map((guardian, i) => (i === index ? { ...guardian, ...changes } : guardian)) });
+  };
+
+  const updateCustomField = (field: StudentField, raw: string) => {
+    const value = parseFieldValue(field, raw);
+    if (value === undefined) return;
+
+    const next = { ...customFields };
+    if (value === null) {
+      delete next[field.id];
+    } else {
+      next[field.id] = value;
+    }
+    update({ customFields: next });
+  };
+
+  const labelStyle: React.CSSProperties = { display: 'block', marginBottom: '0.5rem', fontWeight: '500' };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #ddd',
+    borderRadius: '5px'
+  };
+
+  const gridStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: isSmallMobile ? '1fr' : '1fr 1fr',
+    gap: '1rem',
+    marginBottom: '1rem'
+  };
+
+  return (
+    <>
+      <div style={gridStyle}>
+        <div>
+          <label style={labelStyle}>Email</label>
+          <input
+            type="email"
+            value={studentData.email ?? ''}
+            onChange={(e) => update({ email: e.target.value })}
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>Grade Level</label>
+          <input
+            type="text"
+            value={studentData.gradeLevel ?? ''}
+            onChange={(e) => update({ gradeLevel: e.target.value })}
+            style={inputStyle}
+            placeholder="e.g., 7th grade"
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>Date of Birth</label>
+          <input
+            type="date"
+            value={studentData.dateOfBirth ?? ''}
+            onChange={(e) => update({ dateOfBirth: e.target.value })}
+            style={inputStyle}
+          />
+        </div>
+        {fields.map(field => (
+          <div key={field.id}>
+            <label style={labelStyle}>{field.name}</label>
+            {field.type === 'select' ? (
+              <select
+                value={String(customFields[field.id] ?? '')}
+                onChange={(e) => updateCustomField(field, e.target.value)}
+                style={inputStyle}
+              >
+                <option value="">—</option>
+                {field.options.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type={field.type}
+                value={customFields[field.id] ?? ''}
+                onChange={(e) => updateCustomField(field, e.target.value)}
+                style={inputStyle}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ marginBottom: '1rem' }}>
+        <label style={labelStyle}>Guardians</label>
+        {guardians.map((guardian, index) => (
+          <div key={index} style={{
+            display: 'grid',
+            gridTemplateColumns: isSmallMobile ? '1fr' : '1fr 1fr',
+            gap: '0.5rem',
+            padding: '0.75rem',
+            marginBottom: '0.5rem',
+            backgroundColor: '#f7fafc',
+            borderRadius: '6px'
+          }}>
+            <input
+              type="text"
+              value={guardian.name}
+              onChange={(e) => updateGuardian(index, { name: e.target.value })}
+              placeholder="Name"
+              style={inputStyle}
+            />
+            <input
+              type="text"
+              value={guardian.relationship}
+              onChange={(e) => updateGuardian(index, { relationship: e.target.value })}
+              placeholder="Relationship, e.g. Mother"
+              style={inputStyle}
+            />
+            <input
+              type="tel"
+              value={guardian.phone}
+              onChange={(e) => updateGuardian(index, { phone: e.target.value })}
+              placeholder="Phone"
+              style={inputStyle}
+            />
+            <input
+              type="email"
+              value={guardian.email}
+              onChange={(e) => updateGuardian(index, { email: e.target.value })}
+              placeholder="Email"
+              style={inputStyle}
+            />
+            <button
+              type="button"
+              onClick={() => update({ guardians: guardians.filter((_, i) => i !== index) })}
+              style={{
+                justifySelf: 'start',
+                padding: '0.25rem 0.5rem',
+                fontSize: '0.75rem',
+                backgroundColor: '#fed7d7',
+                color: '#c53030',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => update({ guardians: [...guardians, emptyGuardian] })}
+          style={{
+            padding: '0.25rem 0.5rem',
+            fontSize: '0.75rem',
+            backgroundColor: '#e2e8f0',
+            color: '#4a5568',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+        >
+          + Add guardian
+        </button>
+      </div>
+
+      <div style={{ marginBottom: '1.5rem' }}>
+        <label style={labelStyle}>Notes</label>
+        <textarea
+          value={studentData.notes ?? ''}
+          onChange={(e) => update({ notes: e.target.value })}
+          rows={3}
+          style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+        />
+        {fields.length === 0 && (
+          <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.75rem', color: '#718096' }}>
+            Need more? Add your own student fields in <Link to="/settings" style={{ color: '#4299e1' }}>Settings</Link>.
+          </p>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default StudentProfileFields;
\ No newline at end of file
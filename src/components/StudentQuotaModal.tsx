@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Student } from '../contexts/StudentsContext';
+import { useBudgets, QuotaLimits } from '../contexts/BudgetsContext';
+
+interface StudentQuotaModalProps {
+  student: Student;
+  onClose: () => void;
+}
+
+type QuotaForm = Record<keyof QuotaLimits, string>;
+
+const FIELDS: Array<{ key: keyof QuotaLimits; label: string }> = [
+  { key: 'dailyMessageLimit', label: 'Messages per day' },
+  { key: 'monthlyMessageLimit', label: 'Messages per month' },
+  { key: 'dailyTokenLimit', label: 'Tokens per day' },
+  { key: 'monthlyTokenLimit', label: 'Tokens per month' }
+];
+
+const toFormValue = (limit: number | null | undefined) => (limit == null ? '' : String(limit));
+
+const StudentQuotaModal: React.FC<StudentQuotaModalProps> = ({ student, onClose }) => {
+  const { getStudentQuota, saveStudentQuota, removeStudentQuota } = useBudgets();
+  const existing = getStudentQuota(student.id);
+  const [form, setForm] = useState<QuotaForm>({
+    dailyMessageLimit: toFormValue(existing?.dailyMessageLimit),
+    monthlyMessageLimit: toFormValue(existing?.monthlyMessageLimit),
+    dailyTokenLimit: toFormValue(existing?.dailyTokenLimit),
+    monthlyTokenLimit: toFormValue(existing?.monthlyTokenLimit)
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const limits = {} as QuotaLimits;
+    for (const { key, label } of FIELDS) {
+      const value = form[key].trim();
+      const limit = value === '' ? null : Number(value);
+      if (limit !== null && (!Number.isInteger(limit) || limit <= 0)) {
+        setError(`${label} must be a whole number greater than zero`);
+        return;
+      }
+      limits[key] = limit;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (Object.values(limits).every(limit => limit === null)) {
+        if (existing) await removeStudentQuota(student.id);
+      } else {
+        await saveStudentQuota(student.id, limits);
+      }
+      onClose();
+    } catch (error) {
+      setError((error as Error).message || 'Failed to save quota');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        padding: '2rem',
+        borderRadius: '10px',
+        boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+        width: '90%',
+        maxWidth: '500px',
+        maxHeight: '90vh',
+        overflowY: 'auto'
+      }}>
+        <h3 style={{ marginBottom: '0.5rem', color: '#333', textAlign: 'center' }}>
+          Usage quota for {student.firstName} {student.lastName}
+        </h3>
+        <p style={{ margin: '0 0 1.5rem', fontSize: '0.75rem', color: '#718096', textAlign: 'center' }}>
+          Leave a field empty for no limit. Days and months follow UTC. The bot stops answering once any limit is reached.
+        </p>
+
+        <form onSubmit={handleSave}>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem', marginBottom: '1.5rem' }}>
+            {FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', color: '#4a5568' }}>
+                  {label}
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={form[key]}
+                  onChange={(e) => setForm(prev => ({ ...prev, [key]: e.target.value }))}
+                  placeholder="No limit"
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: '0.875rem'
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+
+          {error && (
+            <div style={{
+              padding: '0.75rem',
+              marginBottom: '1rem',
+              backgroundColor: '#fed7d7',
+              color: '#c53030',
+              borderRadius: '4px',
+              fontSize: '0.875rem'
+            }}>
+              {error}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end' }}>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              style={{
+                padding: '0.75rem 1.5rem',
+                backgroundColor: '#e2e8f0',
+                color: '#4a5568',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              style={{
+                padding: '0.75rem 1.5rem',
+                backgroundColor: isSaving ? '#a0aec0' : '#667eea',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: isSaving ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {isSaving ? 'Saving...' : 'Save quota'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StudentQuotaModal;
\ No newline at end of file
@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useMessages } from '../contexts/MessagesContext';
+import { Student } from '../contexts/StudentsContext';
+import { openAIService } from '../services/openaiService';
+import summaryService, { StudentSummary } from '../services/summaryService';
+import { formatCost } from '../services/pricingRegistry';
+
+interface StudentSummaryCardProps {
+  student: Student;
+  isMobile: boolean;
+}
+
+type SummaryPeriod = 'week' | 'month';
+
+const PERIOD_DAYS: Record<SummaryPeriod, number> = { week: 7, month: 30 };
+
+const toLocalDateKey = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Rolling window ending today, so the cached summary changes once per day at most
+const getPeriodRange = (period: SummaryPeriod) => {
+  const end = new Date();
+  const start = new Date();
+  start.setDate(start.getDate() - (PERIOD_DAYS[period] - 1));
+  return { periodStart: toLocalDateKey(start), periodEnd: toLocalDateKey(end) };
+};
+
+const StudentSummaryCard: React.FC<StudentSummaryCardProps> = ({ student, isMobile }) => {
+  const { user } = useAuth();
+  const { fetchConversationRecord } = useMessages();
+  const [period, setPeriod] = useState<SummaryPeriod>('week');
+  const [summary, setSummary] = useState<StudentSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { periodStart, periodEnd } = getPeriodRange(period);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    summaryService.getLatestSummary(user.id, student.id, periodStart, periodEnd)
+      .then(result => {
+        if (!cancelled) setSummary(result);
+      })
+      .catch(error => {
+        if (!cancelled) setError(error.message || 'Failed to load summary');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, student.id, periodStart, periodEnd]);
+
+  const handleGenerate = async () => {
+    if (!user) return;
+
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const { messages } = await fetchConversationRecord(student.id, { startDate: periodStart, endDate: periodEnd });
+      setSummary(await summaryService.generateSummary({
+        userId: user.id,
+        student,
+        messages,
+        periodStart,
+        periodEnd
+      }));
+    } catch (error) {
+      setError((error as Error).message || 'Failed to generate summary');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const renderList = (title: string, items: string[]) => (
+    <div>
+      <h4 style={{ margin: '0 0 0.5rem', color: '#2d3748', fontSize: '0.875rem' }}>{title}</h4>
+      {items.length === 0 ? (
+        <p style={{ margin: 0, color: '#a0aec0', fontSize: '0.875rem', fontStyle: 'italic' }}>Nothing noted</p>
+      ) : (
+        <ul style={{ margin: 0, paddingLeft: '1.25rem', color: '#4a5568', fontSize: '0.875rem' }}>
+          {items.map((item, index) => <li key={index} style={{ marginBottom: '0.25rem' }}>{item}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+
+  const isConfigured = openAIService.isConfigured();
+
+  return (
+    <div style={{
+      marginBottom: '1.5rem',
+      backgroundColor: 'white',
+      padding: isMobile ? '1rem' : '1.5rem',
+      borderRadius: '10px',
+      boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+    }}>
+      <div style={{
+        display: 'flex',
+        flexDirection: isMobile ? 'column' : 'row',
+        justifyContent: 'space-between',
+        alignItems: isMobile ? 'stretch' : 'center',
+        gap: '0.75rem',
+        marginBottom: '1rem'
+      }}>
+        <div>
+          <h3 style={{ margin: 0, color: '#333' }}>📝 Learning summary</h3>
+          <p style={{ margin: '0.25rem 0 0', color: '#718096', fontSize: '0.75rem' }}>
+            {new Date(`${periodStart}T00:00:00`).toLocaleDateString()} – {new Date(`${periodEnd}T00:00:00`).toLocaleDateString()}
+          </p>
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as SummaryPeriod)}
+            disabled={isGenerating}
+            style={{
+              padding: '0.5rem',
+              border: '1px solid #d1d5db',
+              borderRadius: '4px',
+              fontSize: '0.875rem'
+            }}
+          >
+            <option value="week">Last 7 days</option>
+            <option value="month">Last 30 days</option>
+          </select>
+          <button
+            onClick={handleGenerate}
+            disabled={!isConfigured || isGenerating || loading}
+            title={isConfigured ? undefined : 'OpenAI is not configured'}
+            style={{
+              padding: '0.5rem 1rem',
+              backgroundColor: !isConfigured || isGenerating || loading ? '#a0aec0' : '#667eea',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '0.875rem',
+              cursor: !isConfigured || isGenerating || loading ? 'not-allowed' : 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            {isGenerating ? 'Generating...' : summary ? '🔄 Regenerate' : '✨ Generate'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '0.75rem',
+          marginBottom: '1rem',
+          backgroundColor: '#fed7d7',
+          color: '#c53030',
+          borderRadius: '4px',
+          fontSize: '0.875rem'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p style={{ margin: 0, color: '#718096', fontStyle: 'italic' }}>Loading summary...</p>
+      ) : !summary ? (
+        <p style={{ margin: 0, color: '#718096', fontStyle: 'italic' }}>
+          No summary for this period yet.
+        </p>
+      ) : (
+        <>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: isMobile ? '1fr' : 'repeat(3, 1fr)',
+            gap: '1rem',
+            marginBottom: '1rem'
+          }}>
+            {renderList('Topics covered', summary.topics)}
+            {renderList('Recurring difficulties', summary.difficulties)}
+            {renderList('Suggested follow-ups', summary.followUps)}
+          </div>
+          {summary.engagementNote && (
+            <p style={{
+              margin: '0 0 0.75rem',
+              padding: '0.75rem 1rem',
+              backgroundColor: '#f7fafc',
+              borderLeft: '3px solid #667eea',
+              color: '#4a5568',
+              fontSize: '0.875rem'
+            }}>
+              {summary.engagementNote}
+            </p>
+          )}
+          <p style={{ margin: 0, color: '#a0aec0', fontSize: '0.75rem' }}>
+            Generated {new Date(summary.createdAt).toLocaleString()} from {summary.messageCount} messages •{' '}
+            {summary.usage.totalTokens.toLocaleString()} tokens • {formatCost(summary.cost)}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StudentSummaryCard;
\ No newline at end of file
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useTopics } from '../contexts/TopicsContext';
+
+interface TopicBreakdownProps {
+  // Inclusive YYYY-MM-DD bounds; topic_insights rows are keyed by UTC day
+  startDate: string;
+  endDate: string;
+  // Only count these students' messages; null counts everyone
+  studentIds?: Set<string> | null;
+  isMobile: boolean;
+}
+
+const MAX_SUBTOPICS_SHOWN = 3;
+
+const TopicBreakdown: React.FC<TopicBreakdownProps> = ({ startDate, endDate, studentIds = null, isMobile }) => {
+  const { topics, topicInsights, getDescendantIds } = useTopics();
+
+  const countsByTopic = new Map<string, number>();
+  topicInsights
+    .filter(insight =>
+      insight.messageDate >= startDate &&
+      insight.messageDate <= endDate &&
+      (!studentIds || studentIds.has(insight.studentId))
+    )
+    .forEach(insight => {
+      countsByTopic.set(insight.topicId, (countsByTopic.get(insight.topicId) ?? 0) + insight.messageCount);
+    });
+
+  // Roll each subject up over all of its subtopics
+  const countWithDescendants = (topicId: string) =>
+    getDescendantIds(topicId).reduce((sum, id) => sum + (countsByTopic.get(id) ?? 0), 0);
+
+  const subjects = topics
+    .filter(topic => !topic.parentId)
+    .map(topic => ({
+      topic,
+      count: countWithDescendants(topic.id),
+      subtopics: topics
+        .filter(child => child.parentId === topic.id)
+        .map(child => ({ topic: child, count: countWithDescendants(child.id) }))
+        .filter(child => child.count > 0)
+        .sort((a, b) => b.count - a.count)
+        .slice(0, MAX_SUBTOPICS_SHOWN)
+    }))
+    .filter(subject => subject.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  const maxCount = subjects[0]?.count ?? 0;
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: isMobile ? '1rem' : '1.5rem',
+      borderRadius: '10px',
+      boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+    }}>
+      <h3 style={{ color: '#333', marginBottom: '1rem', display: 'flex', alignItems: 'center' }}>
+        🏷️ Topics This Period
+      </h3>
+      {topics.length === 0 ? (
+        <p style={{ color: '#718096', fontStyle: 'italic' }}>
+          No topics set up yet. <Link to="/topics" style={{ color: '#4299e1' }}>Create a taxonomy</Link> to start tagging messages.
+        </p>
+      ) : subjects.length === 0 ? (
+        <p style={{ color: '#718096', fontStyle: 'italic' }}>No tagged messages in this period</p>
+      ) : (
+        subjects.map(({ topic, count, subtopics }, index) => (
+          <div key={topic.id} style={{
+            padding: '0.75rem 0',
+            borderBottom: index < subjects.length - 1 ? '1px solid #e2e8f0' : 'none'
+          }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.375rem' }}>
+              <span style={{ color: '#333', fontWeight: '500' }}>{topic.name}</span>
+              <span style={{ color: '#4a5568', fontSize: '0.875rem' }}>{count} messages</span>
+            </div>
+            <div style={{ height: '8px', backgroundColor: '#edf2f7', borderRadius: '4px', overflow: 'hidden' }}>
+              <div style={{
+                width: `${maxCount > 0 ? (count / maxCount) * 100 : 0}%`,
+                height: '100%',
+                backgroundColor: '#805ad5'
+              }} />
+            </div>
+            {subtopics.length > 0 && (
+              <div style={{ marginTop: '0.375rem', fontSize: '0.75rem', color: '#718096' }}>
+                {subtopics.map(child => `${child.topic.name} (${child.count})`).join(' • ')}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default TopicBreakdown;
\ No newline at end of file
@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import { User, Session, AuthError } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
 import { authService } from '../lib/auth'
+import { usageCache } from '../services/usageCache'
 
 interface AuthContextType {
   user: User | null
@@ -42,6 +43,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       async (event, session) => {
         console.log('Auth state changed:', event, session)
+        // Cached organisation usage stays with the teacher who fetched it
+        if (event === 'SIGNED_OUT') {
+          usageCache.clear().catch(error => console.warn('Error clearing usage cache:', error))
+        }
         setSession(session)
         setUser(session?.user ?? null)
         setLoading(false)
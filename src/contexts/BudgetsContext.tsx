@@ -0,0 +1,379 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { useMessages } from './MessagesContext';
+import { usePricing } from './PricingContext';
+
+// Spend and the exceeded state come from the teacher_budget_status view, the same numbers the bot goes by
+export interface TeacherBudget {
+  monthlyBudget: number;
+  spentThisMonth: number;
+  budgetExceeded: boolean;
+  updatedAt: string;
+}
+
+export interface QuotaLimits {
+  dailyMessageLimit: number | null;
+  monthlyMessageLimit: number | null;
+  dailyTokenLimit: number | null;
+  monthlyTokenLimit: number | null;
+}
+
+// Usage so far this UTC day and month, as counted by the student_quota_status view
+export interface StudentQuotaUsage {
+  messagesToday: number;
+  messagesThisMonth: number;
+  tokensToday: number;
+  tokensThisMonth: number;
+}
+
+export interface StudentQuota extends QuotaLimits {
+  studentId: string;
+  usage: StudentQuotaUsage;
+  quotaExceeded: boolean;
+  updatedAt: string;
+}
+
+export type QuotaState = 'ok' | 'warning' | 'exceeded';
+
+export interface QuotaMeter {
+  label: string;
+  used: number;
+  limit: number;
+  ratio: number;
+  state: QuotaState;
+}
+
+export interface BudgetStatus extends QuotaMeter {
+  budget: TeacherBudget;
+}
+
+export interface StudentQuotaStatus {
+  quota: StudentQuota;
+  meters: QuotaMeter[];
+  state: QuotaState;
+}
+
+type TeacherBudgetRow = Database['public']['Views']['teacher_budget_status']['Row'];
+type StudentQuotaRow = Database['public']['Views']['student_quota_status']['Row'];
+
+export const QUOTA_WARNING_RATIO = 0.8;
+
+// The status views add up a month of usage, so a burst of messages is re-read once it settles
+const STATUS_REFRESH_DELAY_MS = 15000;
+
+const toTeacherBudget = (budget: TeacherBudgetRow): TeacherBudget => ({
+  monthlyBudget: Number(budget.monthly_budget),
+  spentThisMonth: Number(budget.spent_this_month),
+  budgetExceeded: budget.budget_exceeded,
+  updatedAt: budget.updated_at
+});
+
+const toStudentQuota = (quota: StudentQuotaRow): StudentQuota => ({
+  studentId: quota.student_id,
+  dailyMessageLimit: quota.daily_message_limit,
+  monthlyMessageLimit: quota.monthly_message_limit,
+  dailyTokenLimit: quota.daily_token_limit,
+  monthlyTokenLimit: quota.monthly_token_limit,
+  usage: {
+    messagesToday: Number(quota.messages_today),
+    messagesThisMonth: Number(quota.messages_this_month),
+    tokensToday: Number(quota.tokens_today),
+    tokensThisMonth: Number(quota.tokens_this_month)
+  },
+  quotaExceeded: quota.quota_exceeded,
+  updatedAt: quota.updated_at
+});
+
+const toQuotaState = (ratio: number): QuotaState =>
+  ratio >= 1 ? 'exceeded' : ratio >= QUOTA_WARNING_RATIO ? 'warning' : 'ok';
+
+const toMeter = (label: string, used: number, limit: number): QuotaMeter => {
+  const ratio = limit > 0 ? used / limit : 1;
+  return { label, used, limit, ratio, state: toQuotaState(ratio) };
+};
+
+const worstState = (states: QuotaState[]): QuotaState =>
+  states.includes('exceeded') ? 'exceeded' : states.includes('warning') ? 'warning' : 'ok';
+
+interface BudgetsContextType {
+  budget: TeacherBudget | null;
+  quotas: StudentQuota[];
+  loading: boolean;
+  error: string | null;
+  fetchBudgets: () => Promise<void>;
+  saveMonthlyBudget: (monthlyBudget: number | null) => Promise<void>;
+  saveStudentQuota: (studentId: string, limits: QuotaLimits) => Promise<void>;
+  removeStudentQuota: (studentId: string) => Promise<void>;
+  getStudentQuota: (studentId: string) => StudentQuota | undefined;
+  getBudgetStatus: () => BudgetStatus | null;
+  getStudentQuotaStatus: (studentId: string) => StudentQuotaStatus | null;
+}
+
+const BudgetsContext = createContext<BudgetsContextType | undefined>(undefined);
+
+export const BudgetsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [budget, setBudget] = useState<TeacherBudget | null>(null);
+  const [quotas, setQuotas] = useState<StudentQuota[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  // New messages and price changes move the numbers the status views work out, so they trigger a re-read
+  const { insights, tokenUsage } = useMessages();
+  const { prices } = usePricing();
+  const refreshTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const fetchBudgets = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [budgetResult, quotasResult] = await Promise.all([
+        supabase
+          .from('teacher_budget_status')
+          .select('*')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        supabase
+          .from('student_quota_status')
+          .select('*')
+          .eq('user_id', user.id)
+      ]);
+
+      if (budgetResult.error) {
+        throw budgetResult.error;
+      }
+      if (quotasResult.error) {
+        throw quotasResult.error;
+      }
+
+      setBudget(budgetResult.data ? toTeacherBudget(budgetResult.data) : null);
+      setQuotas(quotasResult.data.map(toStudentQuota));
+    } catch (error: any) {
+      console.error('Error fetching budgets:', error);
+      setError(error.message || 'Failed to fetch budgets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Passing null removes the budget, which also lifts the stop for the bot
+  const saveMonthlyBudget = async (monthlyBudget: number | null) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      if (monthlyBudget === null) {
+        const { error } = await supabase
+          .from('teacher_budgets')
+          .delete()
+          .eq('user_id', user.id);
+
+        if (error) {
+          throw error;
+        }
+
+        setBudget(null);
+        return;
+      }
+
+      const { error } = await supabase
+        .from('teacher_budgets')
+        .upsert({
+          user_id: user.id,
+          monthly_budget: monthlyBudget,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id' });
+
+      if (error) {
+        throw error;
+      }
+
+      const { data, error: statusError } = await supabase
+        .from('teacher_budget_status')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (statusError) {
+        throw statusError;
+      }
+
+      setBudget(toTeacherBudget(data));
+    } catch (error: any) {
+      console.error('Error saving budget:', error);
+      setError(error.message || 'Failed to save budget');
+      throw error;
+    }
+  };
+
+  const saveStudentQuota = async (studentId: string, limits: QuotaLimits) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { error } = await supabase
+        .from('student_quotas')
+        .upsert({
+          student_id: studentId,
+          user_id: user.id,
+          daily_message_limit: limits.dailyMessageLimit,
+          monthly_message_limit: limits.monthlyMessageLimit,
+          daily_token_limit: limits.dailyTokenLimit,
+          monthly_token_limit: limits.monthlyTokenLimit,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'student_id' });
+
+      if (error) {
+        throw error;
+      }
+
+      const { data, error: statusError } = await supabase
+        .from('student_quota_status')
+        .select('*')
+        .eq('student_id', studentId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (statusError) {
+        throw statusError;
+      }
+
+      const savedQuota = toStudentQuota(data);
+      setQuotas(prev => [...prev.filter(quota => quota.studentId !== studentId), savedQuota]);
+    } catch (error: any) {
+      console.error('Error saving student quota:', error);
+      setError(error.message || 'Failed to save student quota');
+      throw error;
+    }
+  };
+
+  const removeStudentQuota = async (studentId: string) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { error } = await supabase
+        .from('student_quotas')
+        .delete()
+        .eq('student_id', studentId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        throw error;
+      }
+
+      setQuotas(prev => prev.filter(quota => quota.studentId !== studentId));
+    } catch (error: any) {
+      console.error('Error removing student quota:', error);
+      setError(error.message || 'Failed to remove student quota');
+      throw error;
+    }
+  };
+
+  const getStudentQuota = (studentId: string) => {
+    return quotas.find(quota => quota.studentId === studentId);
+  };
+
+  // Spend is what Postgres prices the month's bot replies and proxied dashboard calls at
+  const getBudgetStatus = (): BudgetStatus | null => {
+    if (!budget) return null;
+
+    return { ...toMeter('Spend this month', budget.spentThisMonth, budget.monthlyBudget), budget };
+  };
+
+  const getStudentQuotaStatus = (studentId: string): StudentQuotaStatus | null => {
+    const quota = getStudentQuota(studentId);
+    if (!quota) return null;
+
+    const { usage } = quota;
+    const meters: QuotaMeter[] = [];
+    if (quota.dailyMessageLimit !== null) {
+      meters.push(toMeter('Messages today', usage.messagesToday, quota.dailyMessageLimit));
+    }
+    if (quota.monthlyMessageLimit !== null) {
+      meters.push(toMeter('Messages this month', usage.messagesThisMonth, quota.monthlyMessageLimit));
+    }
+    if (quota.dailyTokenLimit !== null) {
+      meters.push(toMeter('Tokens today', usage.tokensToday, quota.dailyTokenLimit));
+    }
+    if (quota.monthlyTokenLimit !== null) {
+      meters.push(toMeter('Tokens this month', usage.tokensThisMonth, quota.monthlyTokenLimit));
+    }
+
+    return { quota, meters, state: worstState(meters.map(meter => meter.state)) };
+  };
+
+  useEffect(() => {
+    // A refresh queued for the previous user must not land after a sign-out
+    if (refreshTimeoutRef.current) {
+      clearTimeout(refreshTimeoutRef.current);
+    }
+    if (user) {
+      fetchBudgets();
+    } else {
+      setBudget(null);
+      setQuotas([]);
+    }
+  }, [user]);
+
+  // Re-read the status views as usage comes in; nothing here writes the exceeded state
+  useEffect(() => {
+    if (!user) return;
+
+    if (refreshTimeoutRef.current) {
+      clearTimeout(refreshTimeoutRef.current);
+    }
+    refreshTimeoutRef.current = setTimeout(fetchBudgets, STATUS_REFRESH_DELAY_MS);
+  }, [insights, tokenUsage, prices]);
+
+  useEffect(() => {
+    return () => {
+      if (refreshTimeoutRef.current) {
+        clearTimeout(refreshTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const value = {
+    budget,
+    quotas,
+    loading,
+    error,
+    fetchBudgets,
+    saveMonthlyBudget,
+    saveStudentQuota,
+    removeStudentQuota,
+    getStudentQuota,
+    getBudgetStatus,
+    getStudentQuotaStatus
+  };
+
+  return (
+    <BudgetsContext.Provider value={value}>
+      {children}
+    </BudgetsContext.Provider>
+  );
+};
+
+export const useBudgets = () => {
+  const context = useContext(BudgetsContext);
+  if (context === undefined) {
+    throw new Error('useBudgets must be used within a BudgetsProvider');
+  }
+  return context;
+};
\ No newline at end of file
@@ -0,0 +1,374 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { BulkActionResult } from './StudentsContext';
+
+export interface StudentClass {
+  id: string;
+  name: string;
+  description: string;
+  studentIds: string[];
+  createdAt: string;
+}
+
+export interface ClassData {
+  name: string;
+  description?: string;
+}
+
+type ClassRow = Database['public']['Tables']['classes']['Row'];
+type ClassMembershipRow = Database['public']['Tables']['class_memberships']['Row'];
+
+const MEMBERSHIPS_PAGE_SIZE = 1000; // PostgREST's default max rows per request
+
+const toStudentClass = (studentClass: ClassRow, memberships: ClassMembershipRow[]): StudentClass => ({
+  id: studentClass.id,
+  name: studentClass.name,
+  description: studentClass.description,
+  studentIds: memberships
+    .filter(membership => membership.class_id === studentClass.id)
+    .map(membership => membership.student_id),
+  createdAt: studentClass.created_at
+});
+
+const byName = (a: StudentClass, b: StudentClass) => a.name.localeCompare(b.name);
+
+interface ClassesContextType {
+  classes: StudentClass[];
+  loading: boolean;
+  error: string | null;
+  // The class every view is scoped to; null shows all students
+  selectedClassId: string | null;
+  selectedClass: StudentClass | undefined;
+  // Members of the selected class, or null when no class is selected
+  selectedStudentIds: Set<string> | null;
+  setSelectedClassId: (id: string | null) => void;
+  isInSelectedClass: (studentId: string) => boolean;
+  getClassesForStudent: (studentId: string) => StudentClass[];
+  fetchClasses: () => Promise<void>;
+  addClass: (classData: ClassData) => Promise<StudentClass | undefined>;
+  updateClass: (id: string, classData: Partial<ClassData>) => Promise<void>;
+  deleteClass: (id: string) => Promise<void>;
+  setClassStudents: (id: string, studentIds: string[]) => Promise<void>;
+  // Adds without touching the existing members; students already in the class count as added
+  addStudentsToClass: (id: string, studentIds: string[]) => Promise<BulkActionResult>;
+}
+
+const ClassesContext = createContext<ClassesContextType | undefined>(undefined);
+
+// The selected class survives reloads, per teacher so a shared browser does not mix them up
+const selectedClassStorageKey = (userId: string) => `selectedClassId:${userId}`;
+
+export const ClassesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [classes, setClasses] = useState<StudentClass[]>([]);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  const selectClass = (id: string | null) => {
+    setSelectedClassId(id);
+    if (!user) return;
+    if (id) {
+      localStorage.setItem(selectedClassStorageKey(user.id), id);
+    } else {
+      localStorage.removeItem(selectedClassStorageKey(user.id));
+    }
+  };
+
+  // Paged like fetchStudents, so every class keeps its full roster past the per-request row cap
+  const fetchMemberships = async (userId: string) => {
+    const memberships: ClassMembershipRow[] = [];
+    for (let from = 0; ; from += MEMBERSHIPS_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('class_memberships')
+        .select('*')
+        .eq('user_id', userId)
+        .order('class_id', { ascending: true })
+        .order('student_id', { ascending: true })
+        .range(from, from + MEMBERSHIPS_PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      memberships.push(...data);
+      if (data.length < MEMBERSHIPS_PAGE_SIZE) break;
+    }
+    return memberships;
+  };
+
+  const fetchClasses = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [{ data: classRows, error }, memberships] = await Promise.all([
+        supabase
+          .from('classes')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('name', { ascending: true }),
+        fetchMemberships(user.id)
+      ]);
+
+      if (error) {
+        throw error;
+      }
+
+      setClasses(classRows.map(studentClass => toStudentClass(studentClass, memberships)));
+    } catch (error: any) {
+      console.error('Error fetching classes:', error);
+      setError(error.message || 'Failed to fetch classes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addClass = async (classData: ClassData) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('classes')
+        .insert({
+          user_id: user.id,
+          name: classData.name,
+          description: classData.description ?? ''
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const newClass = toStudentClass(data, []);
+      setClasses(prev => [...prev, newClass].sort(byName));
+      return newClass;
+    } catch (error: any) {
+      console.error('Error adding class:', error);
+      setError(error.message || 'Failed to add class');
+      throw error;
+    }
+  };
+
+  const updateClass = async (id: string, classData: Partial<ClassData>) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('classes')
+        .update({ ...classData, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setClasses(prev =>
+        prev
+          .map(studentClass => (studentClass.id === id
+            ? { ...studentClass, name: data.name, description: data.description }
+            : studentClass))
+          .sort(byName)
+      );
+    } catch (error: any) {
+      console.error('Error updating class:', error);
+      setError(error.message || 'Failed to update class');
+      throw error;
+    }
+  };
+
+  const deleteClass = async (id: string) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      // Memberships go with the class; the students themselves are kept
+      const { error } = await supabase
+        .from('classes')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        throw error;
+      }
+
+      setClasses(prev => prev.filter(studentClass => studentClass.id !== id));
+      if (selectedClassId === id) {
+        selectClass(null);
+      }
+    } catch (error: any) {
+      console.error('Error deleting class:', error);
+      setError(error.message || 'Failed to delete class');
+      throw error;
+    }
+  };
+
+  // Make studentIds the class's exact membership, touching only the rows that change
+  const setClassStudents = async (id: string, studentIds: string[]) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    const current = classes.find(studentClass => studentClass.id === id)?.studentIds ?? [];
+    const added = studentIds.filter(studentId => !current.includes(studentId));
+    const removed = current.filter(studentId => !studentIds.includes(studentId));
+
+    try {
+      setError(null);
+
+      if (added.length > 0) {
+        const { error } = await supabase
+          .from('class_memberships')
+          .insert(added.map(studentId => ({ class_id: id, student_id: studentId, user_id: user.id })));
+
+        if (error) {
+          throw error;
+        }
+      }
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('class_memberships')
+          .delete()
+          .eq('class_id', id)
+          .eq('user_id', user.id)
+          .in('student_id', removed);
+
+        if (error) {
+          throw error;
+        }
+      }
+
+      setClasses(prev =>
+        prev.map(studentClass => (studentClass.id === id ? { ...studentClass, studentIds } : studentClass))
+      );
+    } catch (error: any) {
+      console.error('Error updating class members:', error);
+      setError(error.message || 'Failed to update class members');
+      // Part of the change may have been saved
+      await fetchClasses();
+      throw error;
+    }
+  };
+
+  const addStudentsToClass = async (id: string, studentIds: string[]) => {
+    if (!user) {
+      setError('User not authenticated');
+      return { success: 0, failed: studentIds.length, errors: ['User not authenticated'] };
+    }
+
+    try {
+      setError(null);
+
+      // Existing members come back from the upsert too, so every returned row is a student now in the class
+      const { data, error } = await supabase
+        .from('class_memberships')
+        .upsert(
+          studentIds.map(studentId => ({ class_id: id, student_id: studentId, user_id: user.id })),
+          { onConflict: 'class_id,student_id' }
+        )
+        .select('student_id');
+
+      if (error) {
+        throw error;
+      }
+
+      const added = new Set<string>(data.map((row: { student_id: string }) => row.student_id));
+      const missing = studentIds.filter(studentId => !added.has(studentId));
+
+      setClasses(prev =>
+        prev.map(studentClass =>
+          studentClass.id === id
+            ? { ...studentClass, studentIds: Array.from(new Set([...studentClass.studentIds, ...added])) }
+            : studentClass
+        )
+      );
+      return {
+        success: studentIds.length - missing.length,
+        failed: missing.length,
+        errors: missing.length > 0 ? [`${missing.length} students could not be added`] : []
+      };
+    } catch (error: any) {
+      console.error('Error adding students to class:', error);
+      setError(error.message || 'Failed to add students to class');
+      throw error;
+    }
+  };
+
+  const selectedClass = classes.find(studentClass => studentClass.id === selectedClassId);
+  const selectedStudentIds = selectedClass ? new Set(selectedClass.studentIds) : null;
+
+  const isInSelectedClass = (studentId: string) => {
+    return !selectedStudentIds || selectedStudentIds.has(studentId);
+  };
+
+  const getClassesForStudent = (studentId: string) => {
+    return classes.filter(studentClass => studentClass.studentIds.includes(studentId));
+  };
+
+  useEffect(() => {
+    if (user) {
+      setSelectedClassId(localStorage.getItem(selectedClassStorageKey(user.id)));
+      fetchClasses();
+    } else {
+      setClasses([]);
+      setSelectedClassId(null);
+    }
+  }, [user]);
+
+  const value = {
+    classes,
+    loading,
+    error,
+    selectedClassId: selectedClass ? selectedClassId : null,
+    selectedClass,
+    selectedStudentIds,
+    setSelectedClassId: selectClass,
+    isInSelectedClass,
+    getClassesForStudent,
+    fetchClasses,
+    addClass,
+    updateClass,
+    deleteClass,
+    setClassStudents,
+    addStudentsToClass
+  };
+
+  return (
+    <ClassesContext.Provider value={value}>
+      {children}
+    </ClassesContext.Provider>
+  );
+};
+
+export const useClasses = () => {
+  const context = useContext(ClassesContext);
+  if (context === undefined) {
+    throw new Error('useClasses must be used within a ClassesProvider');
+  }
+  return context;
+};
\ No newline at end of file
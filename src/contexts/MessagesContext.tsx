@@ -1,6 +1,11 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { supabase } from '../lib/supabase';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, Database, AttachmentMetadata, SafetyFlag, SafetySeverity } from '../lib/supabase';
 import { useAuth } from './AuthContext';
+import { useRealtimeTable, RealtimeStatus } from '../hooks/useRealtimeTable';
+import { useTopics } from './TopicsContext';
+import { usePricing } from './PricingContext';
+import openAIService, { TokenUsage } from '../services/openaiService';
 
 export interface Message {
   id: string;
@@ -10,10 +15,161 @@ export interface Message {
   outputContent: string | null;
   messageType: 'text' | 'image' | 'file';
   isRead: boolean;
+  outputAuthor: 'bot' | 'teacher';
+  outputEditedAt: string | null;
+  attachment: MessageAttachment | null;
+  safetyFlags: SafetyFlag[];
+  safetySeverity: SafetySeverity | null;
+  safetyCheckedAt: string | null;
+  safetyAcknowledgedAt: string | null;
+  topicIds: string[];
+  topicsTaggedAt: string | null;
+  model: string | null;
+  usage: TokenUsage | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface MessageAttachment {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+}
+
+export interface MessageRevision {
+  id: string;
+  messageId: string;
+  previousOutput: string | null;
+  previousAuthor: 'bot' | 'teacher';
+  revisedOutput: string;
+  createdAt: string;
+}
+
+export interface OutboundMessage {
+  id: string;
+  studentId: string;
+  replyToMessageId: string | null;
+  content: string;
+  authorType: 'bot' | 'teacher';
+  status: 'pending' | 'sent' | 'failed';
+  errorMessage: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+// search_vector is the generated tsvector column backing full-text search; it is never selected.
+// Topic tags are embedded from message_topics, but realtime payloads arrive without them.
+type MessageRow = Omit<Database['public']['Tables']['messages']['Row'], 'search_vector'> & {
+  message_topics?: Array<{ topic_id: string }>;
+};
+
+const MESSAGE_FIELDS = 'id, student_id, user_id, input_content, output_content, message_type, is_read, output_author, output_edited_at, attachment_path, attachment_metadata, safety_flags, safety_severity, safety_checked_at, safety_acknowledged_at, topics_tagged_at, model, prompt_tokens, completion_tokens, created_at, updated_at';
+const MESSAGE_COLUMNS = `${MESSAGE_FIELDS}, message_topics(topic_id)`;
+
+const SEARCH_PAGE_SIZE = 25;
+const SAFETY_ALERTS_LIMIT = 50;
+const EXPORT_PAGE_SIZE = 1000; // PostgREST's default max rows per request
+// Unchecked messages moderated/tagged per load, so a backlog never floods the classifiers
+const MODERATION_BATCH_SIZE = 20;
+const TAGGING_BATCH_SIZE = 20;
+
+const toAttachment = (path: string | null, metadata: AttachmentMetadata | null): MessageAttachment | null => {
+  if (!path) return null;
+
+  return {
+    path,
+    // Older uploads may not have metadata, so fall back to what the path tells us
+    fileName: metadata?.file_name || path.split('/').pop() || path,
+    mimeType: metadata?.mime_type || 'application/octet-stream',
+    size: metadata?.size ?? 0,
+    width: metadata?.width,
+    height: metadata?.height
+  };
+};
+
+const toUsage = (promptTokens: number | null, completionTokens: number | null): TokenUsage | null => {
+  if (promptTokens === null && completionTokens === null) return null;
+
+  return {
+    promptTokens: promptTokens ?? 0,
+    completionTokens: completionTokens ?? 0,
+    totalTokens: (promptTokens ?? 0) + (completionTokens ?? 0)
+  };
+};
+
+const toMessage = (message: MessageRow): Message => {
+  const usage = toUsage(message.prompt_tokens ?? null, message.completion_tokens ?? null);
+
+  return {
+    id: message.id,
+    studentId: message.student_id,
+    userId: message.user_id,
+    inputContent: message.input_content,
+    outputContent: message.output_content,
+    messageType: message.message_type,
+    isRead: message.is_read,
+    outputAuthor: message.output_author ?? 'bot',
+    outputEditedAt: message.output_edited_at ?? null,
+    attachment: toAttachment(message.attachment_path ?? null, message.attachment_metadata ?? null),
+    safetyFlags: message.safety_flags ?? [],
+    safetySeverity: message.safety_severity ?? null,
+    safetyCheckedAt: message.safety_checked_at ?? null,
+    safetyAcknowledgedAt: message.safety_acknowledged_at ?? null,
+    topicIds: message.message_topics?.map(tag => tag.topic_id) ?? [],
+    topicsTaggedAt: message.topics_tagged_at ?? null,
+    model: message.model ?? null,
+    usage,
+    createdAt: message.created_at,
+    updatedAt: message.updated_at
+  };
+};
+
+type OutboundMessageRow = Database['public']['Tables']['outbound_messages']['Row'];
+
+const toOutboundMessage = (outbound: OutboundMessageRow): OutboundMessage => ({
+  id: outbound.id,
+  studentId: outbound.student_id,
+  replyToMessageId: outbound.reply_to_message_id,
+  content: outbound.content,
+  authorType: outbound.author_type,
+  status: outbound.status,
+  errorMessage: outbound.error_message,
+  sentAt: outbound.sent_at,
+  createdAt: outbound.created_at
+});
+
+const byCreatedAt = (a: Message, b: Message) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+const isOpenSafetyAlert = (message: Message) =>
+  message.safetySeverity !== null && !message.safetyAcknowledgedAt;
+
+export interface MessageSearchParams {
+  query: string;
+  studentId?: string;
+  startDate?: string;
+  endDate?: string;
+  messageType?: Message['messageType'];
+  // Matches messages tagged with any of these topics
+  topicIds?: string[];
+  // The last result from the previous page
+  cursor?: MessageSearchCursor;
+}
+
+// created_at alone is not unique, so the id breaks ties between messages saved in the same instant
+export interface MessageSearchCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface MessageSearchResult {
+  results: Message[];
+  nextCursor: MessageSearchCursor | null;
+}
+
 export interface CreateMessageData {
   studentId: string;
   inputContent: string;
@@ -21,6 +177,16 @@ export interface CreateMessageData {
   messageType?: 'text' | 'image' | 'file';
 }
 
+export interface ConversationExportRange {
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ConversationRecord {
+  messages: Message[];
+  outboundMessages: OutboundMessage[];
+}
+
 export interface MessageInsight {
   userId: string;
   studentId: string;
@@ -30,171 +196,1285 @@ export interface MessageInsight {
   totalTokens: number;
 }
 
-interface MessagesContextType {
+export interface TokenUsageInsight {
+  studentId: string;
+  messageDate: string;
+  model: string;
+  messageCount: number;
+  usage: TokenUsage;
+}
+
+export interface StudentUsageStats {
+  totalMessages: number;
+  messagesThisWeek: number;
+  lastMessageDate: string | null;
+  averageMessagesPerDay: number;
+  totalTokens: number;
+  // Costs leave out unpricedTokens, which no rate in Settings covers
+  totalCost: number;
+  costThisWeek: number;
+  unpricedTokens: number;
+}
+
+export interface TokenUsageTotals {
+  totalTokens: number;
+  // Leaves out unpricedTokens, which no rate in Settings covers
+  cost: number;
+  unpricedTokens: number;
+}
+
+export interface TokenUsageFilter {
+  studentId?: string;
+  // Only these students, e.g. the members of the selected class
+  studentIds?: Set<string> | null;
+  // Inclusive YYYY-MM-DD bounds (UTC days, like message_insights)
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ConversationState {
+  loaded: boolean;
+  loading: boolean;
+  hasMore: boolean;
+}
+
+interface ConversationPage {
   messages: Message[];
+  hasMore: boolean;
+  loading: boolean;
+}
+
+type MessageInsightRow = Database['public']['Views']['message_insights']['Row'];
+
+const toInsight = (insight: MessageInsightRow): MessageInsight => ({
+  userId: insight.user_id,
+  studentId: insight.student_id,
+  messageDate: insight.message_date,
+  messageCount: insight.message_count,
+  unreadCount: insight.unread_count,
+  totalTokens: insight.total_tokens ?? 0
+});
+
+type TokenUsageInsightRow = Database['public']['Views']['token_usage_insights']['Row'];
+
+const toTokenUsageInsight = (row: TokenUsageInsightRow): TokenUsageInsight => {
+  return {
+    studentId: row.student_id,
+    messageDate: row.message_date,
+    model: row.model,
+    messageCount: row.message_count,
+    usage: {
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      totalTokens: row.prompt_tokens + row.completion_tokens
+    }
+  };
+};
+
+const CONVERSATION_PAGE_SIZE = 50;
+const INSIGHTS_PAGE_SIZE = 1000; // PostgREST's default max rows per request
+const RECENT_UNREAD_LIMIT = 100;
+
+// message_insights buckets by UTC day, so compare against UTC day keys
+const toInsightDate = (isoDate: string) => new Date(isoDate).toISOString().split('T')[0];
+
+const daysAgoInsightDate = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toInsightDate(date.toISOString());
+};
+
+interface MessagesContextType {
+  insights: MessageInsight[];
+  tokenUsage: TokenUsageInsight[];
+  recentUnread: Message[];
+  outboundMessages: OutboundMessage[];
+  safetyAlerts: Message[];
   loading: boolean;
   error: string | null;
+  realtimeStatus: RealtimeStatus;
   getMessagesForStudent: (studentId: string) => Message[];
+  getConversationState: (studentId: string) => ConversationState;
+  loadConversation: (studentId: string) => Promise<void>;
+  loadOlderMessages: (studentId: string, untilDate?: string) => Promise<void>;
   getUnreadCount: (studentId?: string) => number;
   fetchMessages: () => Promise<void>;
-  getStudentUsageStats: (studentId: string) => {
-    totalMessages: number;
-    messagesThisWeek: number;
-    lastMessageDate: string | null;
-    averageMessagesPerDay: number;
-  };
+  markAsRead: (messageIds: string | string[]) => Promise<void>;
+  markAllReadForStudent: (studentId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  acknowledgeSafetyAlert: (messageId: string) => Promise<void>;
+  editBotReply: (messageId: string, newContent: string) => Promise<void>;
+  getMessageRevisions: (messageId: string) => Promise<MessageRevision[]>;
+  sendManualReply: (studentId: string, content: string, replyToMessageId?: string) => Promise<void>;
+  getOutboundMessagesForStudent: (studentId: string) => OutboundMessage[];
+  searchMessages: (params: MessageSearchParams) => Promise<MessageSearchResult>;
+  fetchConversationRecord: (studentId: string, range?: ConversationExportRange) => Promise<ConversationRecord>;
+  getTokenUsageTotals: (filter?: TokenUsageFilter) => TokenUsageTotals;
+  getStudentUsageStats: (studentId: string) => StudentUsageStats;
+  // Every student's stats in one pass over the insights, for sorting long lists
+  getUsageStatsByStudent: () => Map<string, StudentUsageStats>;
   getOverallStats: () => {
     totalMessages: number;
     activeStudents: number;
     messagesThisWeek: number;
     activeStudentsThisWeek: number;
     tokensUsedThisWeek: number;
+    costThisWeek: number;
   };
 }
 
 const MessagesContext = createContext<MessagesContextType | undefined>(undefined);
 
 export const MessagesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Only the conversations a teacher has opened are held in memory, one page at a time.
+  // Counts and unread totals come from the server-side message_insights view instead.
+  const [conversations, setConversations] = useState<Record<string, ConversationPage>>({});
+  const [insights, setInsights] = useState<MessageInsight[]>([]);
+  const [tokenUsage, setTokenUsage] = useState<TokenUsageInsight[]>([]);
+  const [recentUnread, setRecentUnread] = useState<Message[]>([]);
+  const [outboundMessages, setOutboundMessages] = useState<OutboundMessage[]>([]);
+  const [safetyAlerts, setSafetyAlerts] = useState<Message[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
+  const conversationsRef = useRef(conversations);
+  const insightsRefreshTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const moderatingIdsRef = useRef(new Set<string>());
+  const taggingIdsRef = useRef(new Set<string>());
+  const { topics, getTopicOptions, scheduleTopicInsightsRefresh } = useTopics();
+  const { prices, calculateCost } = usePricing();
 
-  const fetchMessages = async () => {
+  conversationsRef.current = conversations;
+
+  const fetchInsights = async () => {
     if (!user) return;
 
-    try {
-      setLoading(true);
-      setError(null);
+    const rows: MessageInsight[] = [];
+    for (let from = 0; ; from += INSIGHTS_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('message_insights')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('message_date', { ascending: true })
+        .order('student_id', { ascending: true })
+        .range(from, from + INSIGHTS_PAGE_SIZE - 1);
 
+      if (error) {
+        throw error;
+      }
+
+      rows.push(...data.map(toInsight));
+      if (data.length < INSIGHTS_PAGE_SIZE) break;
+    }
+
+    setInsights(rows);
+  };
+
+  const fetchTokenUsage = async () => {
+    if (!user) return;
+
+    const rows: TokenUsageInsight[] = [];
+    for (let from = 0; ; from += INSIGHTS_PAGE_SIZE) {
       const { data, error } = await supabase
-        .from('messages')
+        .from('token_usage_insights')
         .select('*')
         .eq('user_id', user.id)
-        .order('created_at', { ascending: true });
+        .order('message_date', { ascending: true })
+        .order('student_id', { ascending: true })
+        .order('model', { ascending: true })
+        .range(from, from + INSIGHTS_PAGE_SIZE - 1);
 
       if (error) {
         throw error;
       }
 
-      const formattedMessages: Message[] = data.map(message => ({
-        id: message.id,
-        studentId: message.student_id,
-        userId: message.user_id,
-        inputContent: message.input_content,
-        outputContent: message.output_content,
-        messageType: message.message_type,
-        isRead: message.is_read,
-        createdAt: message.created_at,
-        updatedAt: message.updated_at
+      rows.push(...data.map(toTokenUsageInsight));
+      if (data.length < INSIGHTS_PAGE_SIZE) break;
+    }
+
+    setTokenUsage(rows);
+  };
+
+  const fetchRecentUnread = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('user_id', user.id)
+      .eq('is_read', false)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_UNREAD_LIMIT);
+
+    if (error) {
+      throw error;
+    }
+
+    setRecentUnread(data.map(toMessage));
+  };
+
+  const fetchSafetyAlerts = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('user_id', user.id)
+      .not('safety_severity', 'is', null)
+      .is('safety_acknowledged_at', null)
+      .order('created_at', { ascending: false })
+      .limit(SAFETY_ALERTS_LIMIT);
+
+    if (error) {
+      throw error;
+    }
+
+    setSafetyAlerts(data.map(toMessage));
+  };
+
+  // Run the safety classifier over messages nobody has checked yet and store the result.
+  // The safety_checked_at guard keeps two open tabs from overwriting each other.
+  const moderateMessages = async (messages: Message[]) => {
+    if (!user) return;
+
+    const pending = messages.filter(message =>
+      !message.safetyCheckedAt && message.inputContent.trim() && !moderatingIdsRef.current.has(message.id)
+    );
+
+    for (const message of pending) {
+      moderatingIdsRef.current.add(message.id);
+      try {
+        const result = await openAIService.moderateMessage(message.inputContent);
+
+        const { data, error } = await supabase
+          .from('messages')
+          .update({
+            safety_flags: result.flags,
+            safety_severity: result.severity,
+            safety_checked_at: new Date().toISOString()
+          })
+          .eq('id', message.id)
+          .eq('user_id', user.id)
+          .is('safety_checked_at', null)
+          .select(MESSAGE_COLUMNS);
+
+        if (error) {
+          throw error;
+        }
+
+        const moderated = data[0] ? toMessage(data[0]) : null;
+        if (moderated) {
+          updateLoadedMessages(msg => (msg.id === moderated.id ? moderated : msg));
+          if (isOpenSafetyAlert(moderated)) {
+            setSafetyAlerts(prev => [moderated, ...prev.filter(alert => alert.id !== moderated.id)]);
+          }
+        }
+      } catch (error) {
+        console.error('Error moderating message:', error);
+      } finally {
+        moderatingIdsRef.current.delete(message.id);
+      }
+    }
+  };
+
+  const moderateUncheckedMessages = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('user_id', user.id)
+      .is('safety_checked_at', null)
+      .order('created_at', { ascending: false })
+      .limit(MODERATION_BATCH_SIZE);
+
+    if (error) {
+      console.error('Error fetching unmoderated messages:', error);
+      return;
+    }
+
+    await moderateMessages(data.map(toMessage));
+  };
+
+  // Tag messages with topics from the teacher's taxonomy. Messages stay untagged while the
+  // taxonomy is empty so they are picked up once the teacher adds topics.
+  const tagMessages = async (messages: Message[]) => {
+    if (!user) return;
+
+    const topicOptions = getTopicOptions();
+    if (topicOptions.length === 0) return;
+
+    const pending = messages.filter(message =>
+      !message.topicsTaggedAt && message.inputContent.trim() && !taggingIdsRef.current.has(message.id)
+    );
+
+    for (const message of pending) {
+      taggingIdsRef.current.add(message.id);
+      try {
+        const matches = await openAIService.classifyTopics(message.inputContent, topicOptions);
+
+        if (matches.length > 0) {
+          const { error: tagError } = await supabase
+            .from('message_topics')
+            .upsert(matches.map(match => ({
+              message_id: message.id,
+              topic_id: match.topicId,
+              user_id: user.id,
+              student_id: message.studentId,
+              confidence: match.confidence,
+              source: match.source
+            })), { onConflict: 'message_id,topic_id', ignoreDuplicates: true });
+
+          if (tagError) {
+            throw tagError;
+          }
+        }
+
+        const taggedAt = new Date().toISOString();
+        const { error } = await supabase
+          .from('messages')
+          .update({ topics_tagged_at: taggedAt })
+          .eq('id', message.id)
+          .eq('user_id', user.id)
+          .is('topics_tagged_at', null);
+
+        if (error) {
+          throw error;
+        }
+
+        const topicIds = matches.map(match => match.topicId);
+        updateLoadedMessages(msg => (msg.id === message.id
+          ? { ...msg, topicsTaggedAt: taggedAt, topicIds: Array.from(new Set([...msg.topicIds, ...topicIds])) }
+          : msg
+        ));
+        if (topicIds.length > 0) {
+          scheduleTopicInsightsRefresh();
+        }
+      } catch (error) {
+        console.error('Error tagging message topics:', error);
+      } finally {
+        taggingIdsRef.current.delete(message.id);
+      }
+    }
+  };
+
+  const tagUntaggedMessages = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('user_id', user.id)
+      .is('topics_tagged_at', null)
+      .order('created_at', { ascending: false })
+      .limit(TAGGING_BATCH_SIZE);
+
+    if (error) {
+      console.error('Error fetching untagged messages:', error);
+      return;
+    }
+
+    await tagMessages(data.map(toMessage));
+  };
+
+  // Re-read the window of every open conversation so edits made while disconnected show up
+  const refreshLoadedConversations = async () => {
+    if (!user) return;
+
+    const openConversations = Object.entries(conversationsRef.current)
+      .filter(([, conversation]) => !conversation.loading);
+
+    await Promise.all(openConversations.map(async ([studentId, conversation]) => {
+      const oldest = conversation.messages[0];
+      let query = supabase
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('user_id', user.id)
+        .eq('student_id', studentId);
+
+      query = oldest
+        ? query.gte('created_at', oldest.createdAt)
+        : query.limit(CONVERSATION_PAGE_SIZE);
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      setConversations(prev => ({
+        ...prev,
+        [studentId]: {
+          ...prev[studentId],
+          messages: data.map(toMessage).sort(byCreatedAt)
+        }
       }));
+    }));
+  };
 
-      setMessages(formattedMessages);
+  // Refresh aggregates and any open conversations
+  const fetchMessages = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      await Promise.all([
+        fetchInsights(),
+        fetchTokenUsage(),
+        fetchRecentUnread(),
+        fetchSafetyAlerts(),
+        refreshLoadedConversations()
+      ]);
     } catch (error: any) {
       console.error('Error fetching messages:', error);
       setError(error.message || 'Failed to fetch messages');
     } finally {
       setLoading(false);
     }
+
+    moderateUncheckedMessages();
   };
 
+  const scheduleInsightsRefresh = () => {
+    if (insightsRefreshTimeoutRef.current) {
+      clearTimeout(insightsRefreshTimeoutRef.current);
+    }
+
+    insightsRefreshTimeoutRef.current = setTimeout(() => {
+      Promise.all([fetchInsights(), fetchTokenUsage()])
+        .catch(error => console.error('Error refreshing message insights:', error));
+    }, 1000);
+  };
 
-  const getStudentUsageStats = (studentId: string) => {
-    const studentMessages = messages.filter(msg => msg.studentId === studentId);
-    const totalMessages = studentMessages.length;
+  const loadConversation = async (studentId: string) => {
+    if (!user) return;
+
+    const existing = conversationsRef.current[studentId];
+    if (existing && (existing.loading || existing.messages.length > 0 || !existing.hasMore)) return;
+
+    setConversations(prev => ({
+      ...prev,
+      [studentId]: { messages: [], hasMore: true, loading: true }
+    }));
+
+    try {
+      setError(null);
+
+      // Ask for one extra row to know whether older messages exist
+      const [messagesResult, outboundResult] = await Promise.all([
+        supabase
+          .from('messages')
+          .select(MESSAGE_COLUMNS)
+          .eq('user_id', user.id)
+          .eq('student_id', studentId)
+          .order('created_at', { ascending: false })
+          .limit(CONVERSATION_PAGE_SIZE + 1),
+        supabase
+          .from('outbound_messages')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('student_id', studentId)
+          .order('created_at', { ascending: true })
+      ]);
+
+      if (messagesResult.error) {
+        throw messagesResult.error;
+      }
+      if (outboundResult.error) {
+        throw outboundResult.error;
+      }
+
+      const rows = messagesResult.data.map(toMessage);
+
+      setConversations(prev => ({
+        ...prev,
+        [studentId]: {
+          messages: rows.slice(0, CONVERSATION_PAGE_SIZE).sort(byCreatedAt),
+          hasMore: rows.length > CONVERSATION_PAGE_SIZE,
+          loading: false
+        }
+      }));
+      setOutboundMessages(prev => [
+        ...prev.filter(outbound => outbound.studentId !== studentId),
+        ...outboundResult.data.map(toOutboundMessage)
+      ]);
+    } catch (error: any) {
+      console.error('Error loading conversation:', error);
+      setError(error.message || 'Failed to load conversation');
+      setConversations(prev => {
+        const { [studentId]: _failed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  // Load the page before the oldest loaded message (keyset pagination on created_at).
+  // With untilDate, keep going back until that local calendar day is covered.
+  const loadOlderMessages = async (studentId: string, untilDate?: string) => {
+    if (!user) return;
+
+    const conversation = conversationsRef.current[studentId];
+    if (!conversation || conversation.loading || !conversation.hasMore) return;
+
+    const oldest = conversation.messages[0];
+    if (!oldest) return;
+
+    const untilTimestamp = untilDate ? new Date(`${untilDate}T00:00:00`).toISOString() : null;
+    if (untilTimestamp && oldest.createdAt <= untilTimestamp) return;
+
+    setConversations(prev => ({ ...prev, [studentId]: { ...prev[studentId], loading: true } }));
+
+    try {
+      setError(null);
+
+      let query = supabase
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('user_id', user.id)
+        .eq('student_id', studentId)
+        .lt('created_at', oldest.createdAt)
+        .order('created_at', { ascending: false });
+
+      query = untilTimestamp
+        ? query.gte('created_at', untilTimestamp)
+        : query.limit(CONVERSATION_PAGE_SIZE + 1);
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      const rows = data.map(toMessage);
+      const page = untilTimestamp ? rows : rows.slice(0, CONVERSATION_PAGE_SIZE);
+
+      setConversations(prev => ({
+        ...prev,
+        [studentId]: {
+          messages: [...page, ...prev[studentId].messages].sort(byCreatedAt),
+          hasMore: untilTimestamp ? prev[studentId].hasMore : rows.length > CONVERSATION_PAGE_SIZE,
+          loading: false
+        }
+      }));
+    } catch (error: any) {
+      console.error('Error loading older messages:', error);
+      setError(error.message || 'Failed to load older messages');
+      setConversations(prev => ({ ...prev, [studentId]: { ...prev[studentId], loading: false } }));
+    }
+  };
+
+  const getConversationState = (studentId: string): ConversationState => {
+    const conversation = conversations[studentId];
+    return {
+      loaded: !!conversation && !conversation.loading,
+      loading: conversation?.loading ?? false,
+      hasMore: conversation?.hasMore ?? true
+    };
+  };
+
+  const getLoadedMessages = () => {
+    const byId = new Map<string, Message>();
+    recentUnread.forEach(message => byId.set(message.id, message));
+    Object.values(conversations).forEach(conversation =>
+      conversation.messages.forEach(message => byId.set(message.id, message))
+    );
+    return Array.from(byId.values());
+  };
+
+  const updateLoadedMessages = (update: (message: Message) => Message) => {
+    setConversations(prev => {
+      const next: Record<string, ConversationPage> = {};
+      Object.entries(prev).forEach(([studentId, conversation]) => {
+        next[studentId] = { ...conversation, messages: conversation.messages.map(update) };
+      });
+      return next;
+    });
+    setRecentUnread(prev => prev.map(update).filter(message => !message.isRead));
+  };
+
+  // Persist is_read = true for the matching messages and mirror it in local state.
+  // Filters are applied server-side so "mark all" never has to send every id.
+  const persistRead = async (
+    filter: { messageIds?: string[]; studentId?: string },
+    isAffected: (message: Message) => boolean
+  ) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      let query = supabase
+        .from('messages')
+        .update({ is_read: true })
+        .eq('user_id', user.id)
+        .eq('is_read', false);
+
+      if (filter.messageIds) {
+        query = query.in('id', filter.messageIds);
+      }
+      if (filter.studentId) {
+        query = query.eq('student_id', filter.studentId);
+      }
+
+      const { error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      // Unread totals live in the insight rows: clear whole students, or decrement per message day
+      const affectedUnread = getLoadedMessages().filter(message => !message.isRead && isAffected(message));
+      setInsights(prev => prev.map(insight => {
+        if (filter.messageIds) {
+          const readOnDay = affectedUnread.filter(message =>
+            message.studentId === insight.studentId && toInsightDate(message.createdAt) === insight.messageDate
+          ).length;
+          return readOnDay > 0
+            ? { ...insight, unreadCount: Math.max(0, insight.unreadCount - readOnDay) }
+            : insight;
+        }
+        return !filter.studentId || insight.studentId === filter.studentId
+          ? { ...insight, unreadCount: 0 }
+          : insight;
+      }));
+
+      updateLoadedMessages(message =>
+        !message.isRead && isAffected(message) ? { ...message, isRead: true } : message
+      );
+    } catch (error: any) {
+      console.error('Error marking messages as read:', error);
+      setError(error.message || 'Failed to mark messages as read');
+      throw error;
+    }
+  };
+
+  const markAsRead = async (messageIds: string | string[]) => {
+    const ids = Array.isArray(messageIds) ? messageIds : [messageIds];
+    if (ids.length === 0) return;
+
+    const idSet = new Set(ids);
+    await persistRead({ messageIds: ids }, message => idSet.has(message.id));
+  };
+
+  const markAllReadForStudent = async (studentId: string) => {
+    await persistRead({ studentId }, message => message.studentId === studentId);
+  };
+
+  const markAllRead = async () => {
+    await persistRead({}, () => true);
+  };
+
+  const acknowledgeSafetyAlert = async (messageId: string) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('messages')
+        .update({ safety_acknowledged_at: new Date().toISOString() })
+        .eq('id', messageId)
+        .eq('user_id', user.id)
+        .select(MESSAGE_COLUMNS)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const acknowledged = toMessage(data);
+      setSafetyAlerts(prev => prev.filter(alert => alert.id !== messageId));
+      updateLoadedMessages(msg => (msg.id === messageId ? acknowledged : msg));
+    } catch (error: any) {
+      console.error('Error acknowledging safety alert:', error);
+      setError(error.message || 'Failed to acknowledge alert');
+      throw error;
+    }
+  };
+
+  // Replace the stored bot reply, keeping what it said before in message_revisions
+  const editBotReply = async (messageId: string, newContent: string) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      // The revision and the new reply are written in one transaction by the edit_bot_reply function
+      const { data, error } = await supabase
+        .rpc('edit_bot_reply', { p_message_id: messageId, p_content: newContent })
+        .select(MESSAGE_COLUMNS)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const updatedMessage = toMessage(data);
+      updateLoadedMessages(msg => (msg.id === messageId ? updatedMessage : msg));
+    } catch (error: any) {
+      console.error('Error editing bot reply:', error);
+      setError(error.message || 'Failed to edit reply');
+      throw error;
+    }
+  };
+
+  const getMessageRevisions = async (messageId: string): Promise<MessageRevision[]> => {
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('message_revisions')
+      .select('*')
+      .eq('message_id', messageId)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching message revisions:', error);
+      throw error;
+    }
+
+    return data.map(revision => ({
+      id: revision.id,
+      messageId: revision.message_id,
+      previousOutput: revision.previous_output,
+      previousAuthor: revision.previous_author,
+      revisedOutput: revision.revised_output,
+      createdAt: revision.created_at
+    }));
+  };
+
+  // Queue a teacher-written reply; the delivery side picks up pending outbound_messages
+  const sendManualReply = async (studentId: string, content: string, replyToMessageId?: string) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('outbound_messages')
+        .insert({
+          student_id: studentId,
+          user_id: user.id,
+          reply_to_message_id: replyToMessageId ?? null,
+          content,
+          author_type: 'teacher',
+          status: 'pending'
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const outbound = toOutboundMessage(data);
+      setOutboundMessages(prev =>
+        prev.some(msg => msg.id === outbound.id) ? prev : [...prev, outbound]
+      );
+    } catch (error: any) {
+      console.error('Error sending manual reply:', error);
+      setError(error.message || 'Failed to send reply');
+      throw error;
+    }
+  };
+
+  const getOutboundMessagesForStudent = (studentId: string) => {
+    return outboundMessages.filter(outbound => outbound.studentId === studentId);
+  };
+
+  // Full-text search runs in Postgres against the GIN-indexed search_vector column (see the
+  // message_search migration), paging by (created_at, id) so deep pages stay as cheap as the first one
+  const searchMessages = async (params: MessageSearchParams): Promise<MessageSearchResult> => {
+    if (!user || !params.query.trim()) {
+      return { results: [], nextCursor: null };
+    }
+
+    // The aliased inner join filters by topic while message_topics still lists every tag
+    const hasTopicFilter = !!params.topicIds && params.topicIds.length > 0;
+    const columns: string = hasTopicFilter
+      ? `${MESSAGE_COLUMNS}, topic_filter:message_topics!inner(topic_id)`
+      : MESSAGE_COLUMNS;
+    let query = supabase
+      .from('messages')
+      .select(columns)
+      .eq('user_id', user.id)
+      .textSearch('search_vector', params.query.trim(), { type: 'websearch', config: 'english' });
+
+    if (params.studentId) {
+      query = query.eq('student_id', params.studentId);
+    }
+    if (params.messageType) {
+      query = query.eq('message_type', params.messageType);
+    }
+    if (hasTopicFilter) {
+      query = query.in('topic_filter.topic_id', params.topicIds!);
+    }
+    if (params.startDate) {
+      query = query.gte('created_at', new Date(params.startDate).toISOString());
+    }
+    if (params.endDate) {
+      const endDate = new Date(params.endDate);
+      endDate.setHours(23, 59, 59, 999); // Include the entire end date
+      query = query.lte('created_at', endDate.toISOString());
+    }
+    if (params.cursor) {
+      const { createdAt, id } = params.cursor;
+      query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`);
+    }
+
+    // Ask for one extra row to know whether another page exists
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(SEARCH_PAGE_SIZE + 1)
+      .overrideTypes<MessageRow[], { merge: false }>();
+
+    if (error) {
+      console.error('Error searching messages:', error);
+      throw error;
+    }
+
+    const rows = data.map(toMessage);
+    const results = rows.slice(0, SEARCH_PAGE_SIZE);
+
+    return {
+      results,
+      nextCursor: rows.length > SEARCH_PAGE_SIZE
+        ? { createdAt: results[results.length - 1].createdAt, id: results[results.length - 1].id }
+        : null
+    };
+  };
+
+  // Everything in a student's history (optionally within a date range), independent of the
+  // paged window the conversation view holds. Used for exports.
+  const fetchConversationRecord = async (
+    studentId: string,
+    range: ConversationExportRange = {}
+  ): Promise<ConversationRecord> => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const startTimestamp = range.startDate ? new Date(`${range.startDate}T00:00:00`).toISOString() : null;
+    const endTimestamp = range.endDate ? new Date(`${range.endDate}T23:59:59.999`).toISOString() : null;
+
+    try {
+      const messages: Message[] = [];
+      for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+        let query = supabase
+          .from('messages')
+          .select(MESSAGE_COLUMNS)
+          .eq('user_id', user.id)
+          .eq('student_id', studentId);
+
+        if (startTimestamp) {
+          query = query.gte('created_at', startTimestamp);
+        }
+        if (endTimestamp) {
+          query = query.lte('created_at', endTimestamp);
+        }
+
+        const { data, error } = await query
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        messages.push(...data.map(toMessage));
+        if (data.length < EXPORT_PAGE_SIZE) break;
+      }
+
+      let outboundQuery = supabase
+        .from('outbound_messages')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('student_id', studentId)
+        .eq('status', 'sent');
+
+      if (startTimestamp) {
+        outboundQuery = outboundQuery.gte('created_at', startTimestamp);
+      }
+      if (endTimestamp) {
+        outboundQuery = outboundQuery.lte('created_at', endTimestamp);
+      }
+
+      const { data: outboundData, error: outboundError } = await outboundQuery
+        .order('created_at', { ascending: true });
+
+      if (outboundError) {
+        throw outboundError;
+      }
+
+      return {
+        messages,
+        outboundMessages: outboundData.map(toOutboundMessage)
+      };
+    } catch (error: any) {
+      console.error('Error fetching conversation record:', error);
+      throw error;
+    }
+  };
+
+  const getTokenUsageTotals = (filter: TokenUsageFilter = {}): TokenUsageTotals => {
+    return tokenUsage
+      .filter(row =>
+        (!filter.studentId || row.studentId === filter.studentId) &&
+        (!filter.studentIds || filter.studentIds.has(row.studentId)) &&
+        (!filter.startDate || row.messageDate >= filter.startDate) &&
+        (!filter.endDate || row.messageDate <= filter.endDate)
+      )
+      .reduce((totals, row) => {
+        // Priced at the rate in force on the day, so later price changes leave past costs alone
+        const cost = calculateCost(row.usage, row.model, row.messageDate);
+        return {
+          totalTokens: totals.totalTokens + row.usage.totalTokens,
+          cost: totals.cost + (cost ?? 0),
+          unpricedTokens: totals.unpricedTokens + (cost === undefined ? row.usage.totalTokens : 0)
+        };
+      }, { totalTokens: 0, cost: 0, unpricedTokens: 0 });
+  };
+
+  // Stats from one student's insight and token usage rows
+  const summarizeStudentUsage = (studentInsights: MessageInsight[], studentTokenUsage: TokenUsageInsight[]): StudentUsageStats => {
+    const sumMessages = (rows: MessageInsight[]) =>
+      rows.reduce((sum, insight) => sum + insight.messageCount, 0);
+
+    const totalMessages = sumMessages(studentInsights);
 
     // Calculate messages this week
-    const oneWeekAgo = new Date();
-    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-    const messagesThisWeek = studentMessages.filter(
-      msg => new Date(msg.createdAt) >= oneWeekAgo
-    ).length;
+    const oneWeekAgo = daysAgoInsightDate(7);
+    const messagesThisWeek = sumMessages(
+      studentInsights.filter(insight => insight.messageDate >= oneWeekAgo)
+    );
 
-    // Get last message date
-    const lastMessage = studentMessages
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
-    const lastMessageDate = lastMessage ? lastMessage.createdAt : null;
+    // Get last message date (day granularity, YYYY-MM-DD)
+    const lastMessageDate = studentInsights.reduce<string | null>(
+      (latest, insight) => (!latest || insight.messageDate > latest ? insight.messageDate : latest),
+      null
+    );
 
     // Calculate average messages per day (last 30 days)
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    const messagesLast30Days = studentMessages.filter(
-      msg => new Date(msg.createdAt) >= thirtyDaysAgo
-    ).length;
+    const thirtyDaysAgo = daysAgoInsightDate(30);
+    const messagesLast30Days = sumMessages(
+      studentInsights.filter(insight => insight.messageDate >= thirtyDaysAgo)
+    );
     const averageMessagesPerDay = messagesLast30Days / 30;
 
+    // Priced at the rate in force on the day, like getTokenUsageTotals
+    const rowCost = (row: TokenUsageInsight) => calculateCost(row.usage, row.model, row.messageDate) ?? 0;
+    const isUnpriced = (row: TokenUsageInsight) => calculateCost(row.usage, row.model, row.messageDate) === undefined;
+
     return {
       totalMessages,
       messagesThisWeek,
       lastMessageDate,
-      averageMessagesPerDay: Math.round(averageMessagesPerDay * 100) / 100
+      averageMessagesPerDay: Math.round(averageMessagesPerDay * 100) / 100,
+      totalTokens: studentTokenUsage.reduce((sum, row) => sum + row.usage.totalTokens, 0),
+      totalCost: studentTokenUsage.reduce((sum, row) => sum + rowCost(row), 0),
+      costThisWeek: studentTokenUsage
+        .filter(row => row.messageDate >= oneWeekAgo)
+        .reduce((sum, row) => sum + rowCost(row), 0),
+      unpricedTokens: studentTokenUsage
+        .filter(isUnpriced)
+        .reduce((sum, row) => sum + row.usage.totalTokens, 0)
     };
   };
 
+  const getStudentUsageStats = (studentId: string) => {
+    return summarizeStudentUsage(
+      insights.filter(insight => insight.studentId === studentId),
+      tokenUsage.filter(row => row.studentId === studentId)
+    );
+  };
+
+  // Kept stable until the insights or prices change, so pages can memoize the result
+  const getUsageStatsByStudent = useCallback(() => {
+    const groupByStudent = <T extends { studentId: string }>(rows: T[]) => {
+      const groups = new Map<string, T[]>();
+      rows.forEach(row => {
+        const group = groups.get(row.studentId);
+        if (group) {
+          group.push(row);
+        } else {
+          groups.set(row.studentId, [row]);
+        }
+      });
+      return groups;
+    };
+    const insightsByStudent = groupByStudent(insights);
+    const tokenUsageByStudent = groupByStudent(tokenUsage);
+
+    const studentIds = new Set([...insightsByStudent.keys(), ...tokenUsageByStudent.keys()]);
+    return new Map(Array.from(studentIds, studentId => [
+      studentId,
+      summarizeStudentUsage(insightsByStudent.get(studentId) ?? [], tokenUsageByStudent.get(studentId) ?? [])
+    ]));
+  }, [insights, tokenUsage, prices]);
+
   const getOverallStats = () => {
     // Total messages (conversations) - each message represents a student input + bot response
-    const totalMessages = messages.length;
+    const totalMessages = insights.reduce((sum, insight) => sum + insight.messageCount, 0);
 
     // Get unique students who have sent messages
-    const activeStudentIds = new Set(messages.map(msg => msg.studentId));
-    const activeStudents = activeStudentIds.size;
+    const activeStudents = new Set(insights.map(insight => insight.studentId)).size;
 
     // Calculate messages this week
-    const oneWeekAgo = new Date();
-    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-    const messagesThisWeek = messages.filter(
-      msg => new Date(msg.createdAt) >= oneWeekAgo
-    ).length;
+    const oneWeekAgo = daysAgoInsightDate(7);
+    const thisWeek = insights.filter(insight => insight.messageDate >= oneWeekAgo);
+    const messagesThisWeek = thisWeek.reduce((sum, insight) => sum + insight.messageCount, 0);
 
     // Calculate unique students who sent at least one message this week
-    const studentsThisWeekIds = new Set(
-      messages
-        .filter(msg => new Date(msg.createdAt) >= oneWeekAgo)
-        .map(msg => msg.studentId)
-    );
-    const activeStudentsThisWeek = studentsThisWeekIds.size;
+    const activeStudentsThisWeek = new Set(thisWeek.map(insight => insight.studentId)).size;
 
-    // Note: Token usage now retrieved from OpenAI API, not stored in database
-    const tokensUsedThisWeek = 0; // Placeholder - will be fetched from OpenAI API
+    // Token counts are recorded on each message alongside the model that produced the reply
+    const tokensUsedThisWeek = thisWeek.reduce((sum, insight) => sum + insight.totalTokens, 0);
+    const costThisWeek = getTokenUsageTotals({ startDate: oneWeekAgo }).cost;
 
     return {
       totalMessages,
       activeStudents,
       messagesThisWeek,
       activeStudentsThisWeek,
-      tokensUsedThisWeek
+      tokensUsedThisWeek,
+      costThisWeek
     };
   };
 
   const getMessagesForStudent = (studentId: string) => {
-    return messages.filter(message => message.studentId === studentId);
+    return conversations[studentId]?.messages ?? [];
   };
 
   const getUnreadCount = (studentId?: string) => {
-    const filteredMessages = studentId
-      ? messages.filter(msg => msg.studentId === studentId)
-      : messages;
+    return insights
+      .filter(insight => !studentId || insight.studentId === studentId)
+      .reduce((sum, insight) => sum + insight.unreadCount, 0);
+  };
 
-    return filteredMessages.filter(msg => !msg.isRead).length;
+  // Merge realtime changes into open conversations and the insight counters
+  const handleRealtimeChange = (payload: RealtimePostgresChangesPayload<MessageRow>) => {
+    if (payload.eventType === 'DELETE') {
+      const deletedId = payload.old.id;
+      if (deletedId) {
+        setConversations(prev => {
+          const next: Record<string, ConversationPage> = {};
+          Object.entries(prev).forEach(([studentId, conversation]) => {
+            next[studentId] = {
+              ...conversation,
+              messages: conversation.messages.filter(message => message.id !== deletedId)
+            };
+          });
+          return next;
+        });
+        setRecentUnread(prev => prev.filter(message => message.id !== deletedId));
+        setSafetyAlerts(prev => prev.filter(message => message.id !== deletedId));
+      }
+      scheduleInsightsRefresh();
+      return;
+    }
+
+    const incoming = toMessage(payload.new);
+
+    if (payload.eventType === 'INSERT') {
+      setConversations(prev => {
+        const conversation = prev[incoming.studentId];
+        if (!conversation || conversation.messages.some(message => message.id === incoming.id)) {
+          return prev;
+        }
+        return {
+          ...prev,
+          [incoming.studentId]: {
+            ...conversation,
+            messages: [...conversation.messages, incoming].sort(byCreatedAt)
+          }
+        };
+      });
+
+      if (!incoming.isRead) {
+        setRecentUnread(prev => [incoming, ...prev.filter(message => message.id !== incoming.id)]);
+      }
+
+      // Bump the day's counters locally so the dashboard moves without a round trip
+      const messageDate = toInsightDate(incoming.createdAt);
+      const tokenDelta = incoming.usage?.totalTokens ?? 0;
+      setInsights(prev => {
+        const unreadDelta = incoming.isRead ? 0 : 1;
+        const exists = prev.some(insight =>
+          insight.studentId === incoming.studentId && insight.messageDate === messageDate
+        );
+        if (!exists) {
+          return [...prev, {
+            userId: incoming.userId,
+            studentId: incoming.studentId,
+            messageDate,
+            messageCount: 1,
+            unreadCount: unreadDelta,
+            totalTokens: tokenDelta
+          }];
+        }
+        return prev.map(insight =>
+          insight.studentId === incoming.studentId && insight.messageDate === messageDate
+            ? {
+                ...insight,
+                messageCount: insight.messageCount + 1,
+                unreadCount: insight.unreadCount + unreadDelta,
+                totalTokens: insight.totalTokens + tokenDelta
+              }
+            : insight
+        );
+      });
+
+      if (incoming.model && incoming.usage) {
+        const model = incoming.model;
+        const usage = incoming.usage;
+        setTokenUsage(prev => {
+          const matches = (row: TokenUsageInsight) =>
+            row.studentId === incoming.studentId && row.messageDate === messageDate && row.model === model;
+          if (!prev.some(matches)) {
+            return [...prev, {
+              studentId: incoming.studentId,
+              messageDate,
+              model,
+              messageCount: 1,
+              usage
+            }];
+          }
+          return prev.map(row => {
+            if (!matches(row)) return row;
+            return {
+              ...row,
+              messageCount: row.messageCount + 1,
+              usage: {
+                promptTokens: row.usage.promptTokens + usage.promptTokens,
+                completionTokens: row.usage.completionTokens + usage.completionTokens,
+                totalTokens: row.usage.totalTokens + usage.totalTokens
+              }
+            };
+          });
+        });
+      }
+
+      moderateMessages([incoming]).then(() => tagMessages([incoming]));
+      return;
+    }
+
+    updateLoadedMessages(message => (message.id === incoming.id ? { ...incoming, topicIds: message.topicIds } : message));
+    if (!incoming.isRead) {
+      setRecentUnread(prev =>
+        prev.some(message => message.id === incoming.id) ? prev : [incoming, ...prev].sort((a, b) => byCreatedAt(b, a))
+      );
+    }
+    setSafetyAlerts(prev => {
+      const others = prev.filter(message => message.id !== incoming.id);
+      return isOpenSafetyAlert(incoming) ? [incoming, ...others].sort((a, b) => byCreatedAt(b, a)) : others;
+    });
+    // The old row is not part of the payload, so let the server recount
+    scheduleInsightsRefresh();
   };
 
+  const realtimeStatus = useRealtimeTable<MessageRow>({
+    table: 'messages',
+    userId: user?.id,
+    onChange: handleRealtimeChange,
+    onReconnect: fetchMessages
+  });
+
+  // Delivery status updates for manual replies arrive through the same realtime mechanism
+  useRealtimeTable<OutboundMessageRow>({
+    table: 'outbound_messages',
+    userId: user?.id,
+    onChange: (payload) => {
+      if (payload.eventType === 'DELETE') {
+        const deletedId = payload.old.id;
+        if (deletedId) {
+          setOutboundMessages(prev => prev.filter(outbound => outbound.id !== deletedId));
+        }
+        return;
+      }
+
+      const incoming = toOutboundMessage(payload.new);
+      setOutboundMessages(prev =>
+        prev.some(outbound => outbound.id === incoming.id)
+          ? prev.map(outbound => (outbound.id === incoming.id ? incoming : outbound))
+          : [...prev, incoming]
+      );
+    }
+  });
 
   useEffect(() => {
+    setConversations({});
+    setOutboundMessages([]);
+
     if (user) {
       fetchMessages();
     } else {
-      setMessages([]);
+      setInsights([]);
+      setTokenUsage([]);
+      setRecentUnread([]);
+      setSafetyAlerts([]);
     }
   }, [user]);
 
+  // Tag the backlog whenever the taxonomy becomes available or changes
+  useEffect(() => {
+    if (user && topics.length > 0) {
+      tagUntaggedMessages();
+    }
+  }, [user, topics.length]);
+
+  // Cleanup timeout on unmount
+  useEffect(() => {
+    return () => {
+      if (insightsRefreshTimeoutRef.current) {
+        clearTimeout(insightsRefreshTimeoutRef.current);
+      }
+    };
+  }, []);
+
   const value = {
-    messages,
+    insights,
+    tokenUsage,
+    recentUnread,
+    outboundMessages,
+    safetyAlerts,
     loading,
     error,
+    realtimeStatus,
     getMessagesForStudent,
+    getConversationState,
+    loadConversation,
+    loadOlderMessages,
     getUnreadCount,
     fetchMessages,
+    markAsRead,
+    markAllReadForStudent,
+    markAllRead,
+    acknowledgeSafetyAlert,
+    editBotReply,
+    getMessageRevisions,
+    sendManualReply,
+    getOutboundMessagesForStudent,
+    searchMessages,
+    fetchConversationRecord,
+    getTokenUsageTotals,
     getStudentUsageStats,
+    getUsageStatsByStudent,
     getOverallStats
   };
 
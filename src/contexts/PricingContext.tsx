@@ -0,0 +1,211 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { pricingRegistry, ModelPrice } from '../services/pricingRegistry';
+import { TokenUsage } from '../services/openaiService';
+
+export interface ModelPriceData {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  cachedInputPerMillion: number | null;
+  effectiveFrom: string;
+}
+
+type ModelPriceRow = Database['public']['Tables']['model_prices']['Row'];
+
+const toModelPrice = (price: ModelPriceRow): ModelPrice => ({
+  id: price.id,
+  model: price.model,
+  inputPerMillion: Number(price.input_per_million),
+  outputPerMillion: Number(price.output_per_million),
+  cachedInputPerMillion: price.cached_input_per_million === null ? null : Number(price.cached_input_per_million),
+  effectiveFrom: price.effective_from,
+  isDefault: false
+});
+
+const toPriceColumns = (priceData: ModelPriceData) => ({
+  model: priceData.model,
+  input_per_million: priceData.inputPerMillion,
+  output_per_million: priceData.outputPerMillion,
+  cached_input_per_million: priceData.cachedInputPerMillion,
+  effective_from: priceData.effectiveFrom
+});
+
+interface PricingContextType {
+  // Defaults and the teacher's own rates, grouped by model with the newest rate first
+  prices: ModelPrice[];
+  loading: boolean;
+  error: string | null;
+  fetchPrices: () => Promise<void>;
+  addPrice: (priceData: ModelPriceData) => Promise<void>;
+  updatePrice: (id: string, priceData: ModelPriceData) => Promise<void>;
+  deletePrice: (id: string) => Promise<void>;
+  // Undefined when no rate covers the model; callers show it as unpriced instead of guessing
+  calculateCost: (usage: TokenUsage, model?: string | null, at?: string | Date) => number | undefined;
+}
+
+const PricingContext = createContext<PricingContextType | undefined>(undefined);
+
+export const PricingProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [customPrices, setCustomPrices] = useState<ModelPrice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  // Keep the shared registry in step so services costing usage outside React see the same rates
+  const applyPrices = (prices: ModelPrice[]) => {
+    pricingRegistry.setCustomPrices(prices);
+    setCustomPrices(prices);
+  };
+
+  const fetchPrices = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('model_prices')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('effective_from', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      applyPrices(data.map(toModelPrice));
+    } catch (error: any) {
+      console.error('Error fetching model prices:', error);
+      setError(error.message || 'Failed to fetch model prices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addPrice = async (priceData: ModelPriceData) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('model_prices')
+        .insert({ user_id: user.id, ...toPriceColumns(priceData) })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      applyPrices([...customPrices, toModelPrice(data)]);
+    } catch (error: any) {
+      console.error('Error adding model price:', error);
+      setError(error.message || 'Failed to add model price');
+      throw error;
+    }
+  };
+
+  const updatePrice = async (id: string, priceData: ModelPriceData) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('model_prices')
+        .update({ ...toPriceColumns(priceData), updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const updatedPrice = toModelPrice(data);
+      applyPrices(customPrices.map(price => (price.id === id ? updatedPrice : price)));
+    } catch (error: any) {
+      console.error('Error updating model price:', error);
+      setError(error.message || 'Failed to update model price');
+      throw error;
+    }
+  };
+
+  const deletePrice = async (id: string) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { error } = await supabase
+        .from('model_prices')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        throw error;
+      }
+
+      applyPrices(customPrices.filter(price => price.id !== id));
+    } catch (error: any) {
+      console.error('Error deleting model price:', error);
+      setError(error.message || 'Failed to delete model price');
+      throw error;
+    }
+  };
+
+  const calculateCost = (usage: TokenUsage, model?: string | null, at?: string | Date) => {
+    return pricingRegistry.calculateCost(usage, model, at);
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchPrices();
+    } else {
+      applyPrices([]);
+    }
+  }, [user]);
+
+  // One array per change of rates, so effects and callbacks that depend on prices only rerun then
+  const prices = useMemo(() => pricingRegistry.getPrices(), [customPrices]);
+
+  const value = {
+    prices,
+    loading,
+    error,
+    fetchPrices,
+    addPrice,
+    updatePrice,
+    deletePrice,
+    calculateCost
+  };
+
+  return (
+    <PricingContext.Provider value={value}>
+      {children}
+    </PricingContext.Provider>
+  );
+};
+
+export const usePricing = () => {
+  const context = useContext(PricingContext);
+  if (context === undefined) {
+    throw new Error('usePricing must be used within a PricingProvider');
+  }
+  return context;
+};
\ No newline at end of file
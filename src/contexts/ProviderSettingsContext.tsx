@@ -0,0 +1,136 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { openAIService } from '../services/openaiService';
+import { LLMProviderConfig, DEFAULT_LLM_PROVIDER_CONFIG, createLLMProvider } from '../services/llmProviders';
+
+type ProviderSettingsRow = Database['public']['Tables']['llm_provider_settings']['Row'];
+
+const toProviderConfig = (settings: ProviderSettingsRow): LLMProviderConfig => ({
+  provider: settings.provider,
+  azureDeployment: settings.azure_deployment,
+  baseUrl: settings.base_url,
+  apiKey: settings.api_key,
+  model: settings.model
+});
+
+interface ProviderSettingsContextType {
+  providerConfig: LLMProviderConfig;
+  loading: boolean;
+  error: string | null;
+  fetchProviderConfig: () => Promise<void>;
+  saveProviderConfig: (config: LLMProviderConfig) => Promise<void>;
+  testProviderConfig: (config: LLMProviderConfig) => Promise<boolean>;
+}
+
+const ProviderSettingsContext = createContext<ProviderSettingsContextType | undefined>(undefined);
+
+export const ProviderSettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [providerConfig, setProviderConfig] = useState<LLMProviderConfig>(DEFAULT_LLM_PROVIDER_CONFIG);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  // Point the shared service at the teacher's provider so every chat request follows it
+  const applyProviderConfig = (config: LLMProviderConfig) => {
+    openAIService.setProvider(createLLMProvider(config));
+    setProviderConfig(config);
+  };
+
+  const fetchProviderConfig = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('llm_provider_settings')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      applyProviderConfig(data ? toProviderConfig(data) : DEFAULT_LLM_PROVIDER_CONFIG);
+    } catch (error: any) {
+      console.error('Error fetching provider settings:', error);
+      setError(error.message || 'Failed to fetch provider settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveProviderConfig = async (config: LLMProviderConfig) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('llm_provider_settings')
+        .upsert({
+          user_id: user.id,
+          provider: config.provider,
+          azure_deployment: config.provider === 'azure' ? config.azureDeployment : null,
+          base_url: config.provider === 'compatible' ? config.baseUrl : null,
+          api_key: config.provider === 'compatible' ? config.apiKey : null,
+          model: config.provider === 'compatible' ? config.model : null,
+          updated_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      applyProviderConfig(toProviderConfig(data));
+    } catch (error: any) {
+      console.error('Error saving provider settings:', error);
+      setError(error.message || 'Failed to save provider settings');
+      throw error;
+    }
+  };
+
+  // Try a configuration before saving it
+  const testProviderConfig = (config: LLMProviderConfig) => {
+    return openAIService.testConnection(createLLMProvider(config));
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchProviderConfig();
+    } else {
+      applyProviderConfig(DEFAULT_LLM_PROVIDER_CONFIG);
+    }
+  }, [user]);
+
+  const value = {
+    providerConfig,
+    loading,
+    error,
+    fetchProviderConfig,
+    saveProviderConfig,
+    testProviderConfig
+  };
+
+  return (
+    <ProviderSettingsContext.Provider value={value}>
+      {children}
+    </ProviderSettingsContext.Provider>
+  );
+};
+
+export const useProviderSettings = () => {
+  const context = useContext(ProviderSettingsContext);
+  if (context === undefined) {
+    throw new Error('useProviderSettings must be used within a ProviderSettingsProvider');
+  }
+  return context;
+};
\ No newline at end of file
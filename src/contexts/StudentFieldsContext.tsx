@@ -0,0 +1,228 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { supabase, Database, StudentFieldType } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+export type { StudentFieldType };
+
+export interface StudentField {
+  id: string;
+  name: string;
+  type: StudentFieldType;
+  options: string[];
+  position: number;
+}
+
+export interface StudentFieldData {
+  name: string;
+  type: StudentFieldType;
+  options?: string[];
+}
+
+export const STUDENT_FIELD_TYPE_LABELS: Record<StudentFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Choice list'
+};
+
+type StudentFieldRow = Database['public']['Tables']['student_field_definitions']['Row'];
+
+const toStudentField = (field: StudentFieldRow): StudentField => ({
+  id: field.id,
+  name: field.name,
+  type: field.field_type,
+  options: field.options ?? [],
+  position: field.position
+});
+
+// Turn what was typed or imported into the stored value; null means empty, undefined means invalid
+export const parseFieldValue = (field: StudentField, raw: string): string | number | null | undefined => {
+  const value = raw.trim();
+  if (!value) return null;
+
+  switch (field.type) {
+    case 'number': {
+      const number = Number(value);
+      return isNaN(number) ? undefined : number;
+    }
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) ? value : undefined;
+    case 'select':
+      return field.options.find(option => option.toLowerCase() === value.toLowerCase());
+    default:
+      return value;
+  }
+};
+
+interface StudentFieldsContextType {
+  fields: StudentField[];
+  loading: boolean;
+  error: string | null;
+  fetchFields: () => Promise<void>;
+  addField: (fieldData: StudentFieldData) => Promise<void>;
+  updateField: (id: string, fieldData: Partial<StudentFieldData>) => Promise<void>;
+  deleteField: (id: string) => Promise<void>;
+}
+
+const StudentFieldsContext = createContext<StudentFieldsContextType | undefined>(undefined);
+
+export const StudentFieldsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [fields, setFields] = useState<StudentField[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  const fetchFields = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('student_field_definitions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('position', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      setFields(data.map(toStudentField));
+    } catch (error: any) {
+      console.error('Error fetching student fields:', error);
+      setError(error.message || 'Failed to fetch student fields');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addField = async (fieldData: StudentFieldData) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('student_field_definitions')
+        .insert({
+          user_id: user.id,
+          name: fieldData.name,
+          field_type: fieldData.type,
+          options: fieldData.type === 'select' ? fieldData.options ?? [] : [],
+          position: fields.reduce((max, field) => Math.max(max, field.position), 0) + 1
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setFields(prev => [...prev, toStudentField(data)]);
+    } catch (error: any) {
+      console.error('Error adding student field:', error);
+      setError(error.message || 'Failed to add student field');
+      throw error;
+    }
+  };
+
+  // Existing values stay on the students; ones that no longer fit the field simply stop showing
+  const updateField = async (id: string, fieldData: Partial<StudentFieldData>) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const updateData: Database['public']['Tables']['student_field_definitions']['Update'] = {};
+      if (fieldData.name !== undefined) updateData.name = fieldData.name;
+      if (fieldData.type !== undefined) updateData.field_type = fieldData.type;
+      if (fieldData.options !== undefined) updateData.options = fieldData.options;
+
+      const { data, error } = await supabase
+        .from('student_field_definitions')
+        .update(updateData)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const updatedField = toStudentField(data);
+      setFields(prev => prev.map(field => (field.id === id ? updatedField : field)));
+    } catch (error: any) {
+      console.error('Error updating student field:', error);
+      setError(error.message || 'Failed to update student field');
+      throw error;
+    }
+  };
+
+  const deleteField = async (id: string) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { error } = await supabase
+        .from('student_field_definitions')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        throw error;
+      }
+
+      setFields(prev => prev.filter(field => field.id !== id));
+    } catch (error: any) {
+      console.error('Error deleting student field:', error);
+      setError(error.message || 'Failed to delete student field');
+      throw error;
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchFields();
+    } else {
+      setFields([]);
+    }
+  }, [user]);
+
+  const value = {
+    fields,
+    loading,
+    error,
+    fetchFields,
+    addField,
+    updateField,
+    deleteField
+  };
+
+  return (
+    <StudentFieldsContext.Provider value={value}>
+      {children}
+    </StudentFieldsContext.Provider>
+  );
+};
+
+export const useStudentFields = () => {
+  const context = useContext(StudentFieldsContext);
+  if (context === undefined) {
+    throw new Error('useStudentFields must be used within a StudentFieldsProvider');
+  }
+  return context;
+};
\ No newline at end of file
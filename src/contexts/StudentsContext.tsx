@@ -1,33 +1,120 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { supabase } from '../lib/supabase';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, Database, CustomFieldValues } from '../lib/supabase';
 import { useAuth } from './AuthContext';
+import { useRealtimeTable, RealtimeStatus } from '../hooks/useRealtimeTable';
+
+export type { CustomFieldValues };
+
+export interface GuardianContact {
+  name: string;
+  relationship: string;
+  phone: string;
+  email: string;
+}
 
 export interface Student {
   id: string;
   firstName: string;
   lastName: string;
   phone: string;
+  email: string | null;
+  gradeLevel: string | null;
+  dateOfBirth: string | null;
+  guardians: GuardianContact[];
+  notes: string;
+  customFields: CustomFieldValues;
+  tags: string[];
   enrollmentDate: string;
   status: 'active' | 'inactive';
   userId: string;
 }
 
+type StudentRow = Database['public']['Tables']['students']['Row'];
+type StudentUpdate = Database['public']['Tables']['students']['Update'];
+// Realtime payloads carry the bare row; reads embed the tags
+type StudentRowWithTags = StudentRow & { student_tags?: Array<{ tag: string }> };
+
+const STUDENT_COLUMNS = '*, student_tags(tag)';
+const STUDENTS_PAGE_SIZE = 1000; // PostgREST's default max rows per request
+const STUDENT_SEARCH_LIMIT = 20;
+// Ids go in the query string for bulk updates and deletes, so they're sent in chunks to keep URLs short
+const BULK_BATCH_SIZE = 200;
+
+const toStudent = (student: StudentRowWithTags): Student => ({
+  id: student.id,
+  firstName: student.first_name,
+  lastName: student.last_name,
+  phone: student.phone,
+  email: student.email,
+  gradeLevel: student.grade_level,
+  dateOfBirth: student.date_of_birth,
+  guardians: (student.guardian_contacts ?? []).map(guardian => ({ ...guardian })),
+  notes: student.notes ?? '',
+  customFields: student.custom_fields ?? {},
+  tags: (student.student_tags ?? []).map(({ tag }) => tag).sort((a, b) => a.localeCompare(b)),
+  enrollmentDate: student.enrollment_date,
+  status: student.status,
+  userId: student.user_id
+});
+
 export interface CreateStudentData {
   firstName: string;
   lastName: string;
   phone: string;
+  email?: string | null;
+  gradeLevel?: string | null;
+  dateOfBirth?: string | null;
+  guardians?: GuardianContact[];
+  notes?: string;
+  customFields?: CustomFieldValues;
+}
+
+type StudentProfileFields = Pick<Student, 'email' | 'gradeLevel' | 'dateOfBirth' | 'guardians' | 'notes' | 'customFields'>;
+
+// The optional profile columns that were given; blank text is stored as null
+const toProfileColumns = (studentData: Partial<StudentProfileFields>) => {
+  const columns: StudentUpdate = {};
+  if (studentData.email !== undefined) columns.email = studentData.email?.trim() || null;
+  if (studentData.gradeLevel !== undefined) columns.grade_level = studentData.gradeLevel?.trim() || null;
+  if (studentData.dateOfBirth !== undefined) columns.date_of_birth = studentData.dateOfBirth || null;
+  if (studentData.guardians !== undefined) {
+    columns.guardian_contacts = studentData.guardians.filter(guardian => guardian.name.trim() || guardian.phone.trim() || guardian.email.trim());
+  }
+  if (studentData.notes !== undefined) columns.notes = studentData.notes;
+  if (studentData.customFields !== undefined) columns.custom_fields = studentData.customFields;
+  return columns;
+};
+
+export interface StudentSearchPage {
+  offset: number;
+  limit: number;
+}
+
+export interface BulkActionResult {
+  success: number;
+  failed: number;
+  errors: string[];
 }
 
 interface StudentsContextType {
   students: Student[];
   loading: boolean;
   error: string | null;
-  addStudent: (studentData: CreateStudentData) => Promise<void>;
+  realtimeStatus: RealtimeStatus;
+  addStudent: (studentData: CreateStudentData) => Promise<Student | undefined>;
   updateStudent: (id: string, studentData: Partial<Student>) => Promise<void>;
   deleteStudent: (id: string) => Promise<void>;
   getStudent: (id: string) => Student | undefined;
   fetchStudents: () => Promise<void>;
-  importStudents: (studentsData: CreateStudentData[]) => Promise<{ success: number; failed: number; errors: string[] }>;
+  // One page of matches in name order; the first STUDENT_SEARCH_LIMIT unless a page is given
+  searchStudents: (query: string, page?: StudentSearchPage) => Promise<Student[]>;
+  // Every match, fetched a page at a time
+  findStudentIds: (query: string) => Promise<Set<string>>;
+  importStudents: (studentsData: CreateStudentData[]) => Promise<BulkActionResult>;
+  setStudentsStatus: (ids: string[], status: Student['status']) => Promise<BulkActionResult>;
+  deleteStudents: (ids: string[]) => Promise<BulkActionResult>;
+  addTagToStudents: (ids: string[], tag: string) => Promise<BulkActionResult>;
 }
 
 const StudentsContext = createContext<StudentsContextType | undefined>(undefined);
@@ -61,26 +148,25 @@ export const StudentsProvider: React.FC<{ children: ReactNode }> = ({ children }
       setLoading(true);
       setError(null);
 
-      const { data, error } = await supabase
-        .from('students')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+      // Page through so rosters past the per-request row cap load in full
+      const formattedStudents: Student[] = [];
+      for (let from = 0; ; from += STUDENTS_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('students')
+          .select(STUDENT_COLUMNS)
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: true })
+          .range(from, from + STUDENTS_PAGE_SIZE - 1);
+
+        if (error) {
+          throw error;
+        }
 
-      if (error) {
-        throw error;
+        formattedStudents.push(...data.map(toStudent));
+        if (data.length < STUDENTS_PAGE_SIZE) break;
       }
 
-      const formattedStudents: Student[] = data.map(student => ({
-        id: student.id,
-        firstName: student.first_name,
-        lastName: student.last_name,
-        phone: student.phone,
-        enrollmentDate: student.enrollment_date,
-        status: student.status,
-        userId: student.user_id
-      }));
-
       setStudents(formattedStudents);
     } catch (error: any) {
       console.error('Error fetching students:', error);
@@ -106,6 +192,7 @@ export const StudentsProvider: React.FC<{ children: ReactNode }> = ({ children }
           first_name: studentData.firstName,
           last_name: studentData.lastName,
           phone: studentData.phone,
+          ...toProfileColumns(studentData),
           user_id: user.id,
           enrollment_date: new Date().toISOString().split('T')[0],
           status: 'active'
@@ -117,21 +204,14 @@ export const StudentsProvider: React.FC<{ children: ReactNode }> = ({ children }
         throw error;
       }
 
-      const newStudent: Student = {
-        id: data.id,
-        firstName: data.first_name,
-        lastName: data.last_name,
-        phone: data.phone,
-        enrollmentDate: data.enrollment_date,
-        status: data.status,
-        userId: data.user_id
-      };
+      const newStudent = toStudent(data);
 
-      setStudents(prev => [newStudent, ...prev]);
+      setStudents(prev => [newStudent, ...prev.filter(student => student.id !== newStudent.id)]);
       console.log('Student added:', newStudent);
 
       // Auto-refresh to ensure data consistency
       scheduleAutoRefresh();
+      return newStudent;
     } catch (error: any) {
       console.error('Error adding student:', error);
       setError(error.message || 'Failed to add student');
@@ -151,7 +231,7 @@ export const StudentsProvider: React.FC<{ children: ReactNode }> = ({ children }
       setLoading(true);
       setError(null);
 
-      const updateData: any = {};
+      const updateData: StudentUpdate = toProfileColumns(studentData);
       if (studentData.firstName) updateData.first_name = studentData.firstName;
       if (studentData.lastName) updateData.last_name = studentData.lastName;
       if (studentData.phone) updateData.phone = studentData.phone;
@@ -162,22 +242,14 @@ export const StudentsProvider: React.FC<{ children: ReactNode }> = ({ children }
         .update(updateData)
         .eq('id', id)
         .eq('user_id', user.id)
-        .select()
+        .select(STUDENT_COLUMNS)
         .single();
 
       if (error) {
         throw error;
       }
 
-      const updatedStudent: Student = {
-        id: data.id,
-        firstName: data.first_name,
-        lastName: data.last_name,
-        phone: data.phone,
-        enrollmentDate: data.enrollment_date,
-        status: data.status,
-        userId: data.user_id
-      };
+      const updatedStudent = toStudent(data);
 
       setStudents(prev =>
         prev.map(student =>
@@ -235,6 +307,179 @@ export const StudentsProvider: React.FC<{ children: ReactNode }> = ({ children }
     return students.find(student => student.id === id);
   };
 
+  // Name or phone matches straight from the database; every word has to match one of the columns.
+  // Digits also match a phone however it was formatted, like matchesStudentSearch.
+  const searchStudents = async (
+    query: string,
+    page: StudentSearchPage = { offset: 0, limit: STUDENT_SEARCH_LIMIT }
+  ): Promise<Student[]> => {
+    // Characters with a meaning in PostgREST filters are dropped rather than escaped
+    const terms = query.replace(/[,()%*\\]/g, ' ').split(/\s+/).filter(Boolean);
+    if (!user || terms.length === 0) return [];
+
+    let request = supabase
+      .from('students')
+      .select(STUDENT_COLUMNS)
+      .eq('user_id', user.id);
+
+    terms.forEach(term => {
+      const filters = [`first_name.ilike.%${term}%`, `last_name.ilike.%${term}%`, `phone.ilike.%${term}%`];
+      const termDigits = term.replace(/[+.-]/g, '');
+      if (/^\d+$/.test(termDigits)) {
+        filters.push(`phone.imatch.${termDigits.split('').join('[^0-9]*')}`);
+      }
+      request = request.or(filters.join(','));
+    });
+
+    const { data, error } = await request
+      .order('last_name', { ascending: true })
+      .order('first_name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(page.offset, page.offset + page.limit - 1);
+
+    if (error) {
+      console.error('Error searching students:', error);
+      throw error;
+    }
+
+    return data.map(toStudent);
+  };
+
+  const findStudentIds = async (query: string) => {
+    const ids = new Set<string>();
+    for (let offset = 0; ; offset += STUDENTS_PAGE_SIZE) {
+      const matches = await searchStudents(query, { offset, limit: STUDENTS_PAGE_SIZE });
+      matches.forEach(student => ids.add(student.id));
+      if (matches.length < STUDENTS_PAGE_SIZE) break;
+    }
+    return ids;
+  };
+
+  const describeStudent = (id: string) => {
+    const student = students.find(s => s.id === id);
+    return student ? `${student.firstName} ${student.lastName}` : id;
+  };
+
+  // Counts come from the rows the database sent back; requested ids it left out were not found
+  const toBulkResult = (ids: string[], returnedIds: string[]) => {
+    const result: BulkActionResult = { success: 0, failed: 0, errors: [] };
+    const returned = new Set(returnedIds);
+    const doneIds = ids.filter(id => returned.has(id));
+
+    ids.forEach(id => {
+      if (returned.has(id)) {
+        result.success++;
+      } else {
+        result.failed++;
+        result.errors.push(`${describeStudent(id)}: not found`);
+      }
+    });
+
+    return { result, doneIds };
+  };
+
+  // Runs one update or delete per chunk of ids and adds up what each chunk sent back
+  const runInBatches = async (
+    ids: string[],
+    runBatch: (batch: string[]) => PromiseLike<{ data: Array<{ id: string }> | null; error: { message: string } | null }>
+  ) => {
+    const result: BulkActionResult = { success: 0, failed: 0, errors: [] };
+    const doneIds: string[] = [];
+
+    for (let i = 0; i < ids.length; i += BULK_BATCH_SIZE) {
+      const batch = ids.slice(i, i + BULK_BATCH_SIZE);
+      const { data, error } = await runBatch(batch);
+
+      if (error) {
+        result.failed += batch.length;
+        result.errors.push(`${batch.length} students: ${error.message}`);
+        continue;
+      }
+
+      const batchResult = toBulkResult(batch, (data ?? []).map(row => row.id));
+      result.success += batchResult.result.success;
+      result.failed += batchResult.result.failed;
+      result.errors.push(...batchResult.result.errors);
+      doneIds.push(...batchResult.doneIds);
+    }
+
+    return { result, doneIds };
+  };
+
+  const setStudentsStatus = async (ids: string[], status: Student['status']) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    setError(null);
+    const { result, doneIds } = await runInBatches(ids, batch =>
+      supabase
+        .from('students')
+        .update({ status })
+        .eq('user_id', user.id)
+        .in('id', batch)
+        .select('id')
+    );
+
+    const updated = new Set(doneIds);
+    setStudents(prev => prev.map(student => (updated.has(student.id) ? { ...student, status } : student)));
+    console.log(`Status set to ${status}: ${result.success} successful, ${result.failed} failed`);
+    return result;
+  };
+
+  const deleteStudents = async (ids: string[]) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    setError(null);
+    const { result, doneIds } = await runInBatches(ids, batch =>
+      supabase
+        .from('students')
+        .delete()
+        .eq('user_id', user.id)
+        .in('id', batch)
+        .select('id')
+    );
+
+    const deleted = new Set(doneIds);
+    setStudents(prev => prev.filter(student => !deleted.has(student.id)));
+    console.log(`Students deleted: ${result.success} successful, ${result.failed} failed`);
+    return result;
+  };
+
+  // Students who already have the tag count as done: the upsert sends their existing row back too
+  const addTagToStudents = async (ids: string[], tag: string) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    setError(null);
+    const { data, error } = await supabase
+      .from('student_tags')
+      .upsert(
+        ids.map(id => ({ student_id: id, user_id: user.id, tag })),
+        { onConflict: 'student_id,tag' }
+      )
+      .select('student_id');
+
+    if (error) {
+      console.error('Error tagging students:', error);
+      return { success: 0, failed: ids.length, errors: [error.message] };
+    }
+
+    const { result, doneIds } = toBulkResult(ids, data.map((row: { student_id: string }) => row.student_id));
+    const tagged = new Set(doneIds);
+    setStudents(prev =>
+      prev.map(student =>
+        tagged.has(student.id) && !student.tags.includes(tag)
+          ? { ...student, tags: [...student.tags, tag].sort((a, b) => a.localeCompare(b)) }
+          : student
+      )
+    );
+    return result;
+  };
+
   const importStudents = async (studentsData: CreateStudentData[]) => {
     if (!user) {
       throw new Error('User not authenticated');
@@ -261,6 +506,7 @@ export const StudentsProvider: React.FC<{ children: ReactNode }> = ({ children }
                 first_name: studentData.firstName,
                 last_name: studentData.lastName,
                 phone: studentData.phone,
+                ...toProfileColumns(studentData),
                 user_id: user.id,
                 enrollment_date: new Date().toISOString().split('T')[0],
                 status: 'active'
@@ -303,6 +549,31 @@ export const StudentsProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   };
 
+  // Merge realtime changes into local state; new students go first to match the created_at desc order
+  const handleRealtimeChange = (payload: RealtimePostgresChangesPayload<StudentRow>) => {
+    if (payload.eventType === 'DELETE') {
+      const deletedId = payload.old.id;
+      if (deletedId) {
+        setStudents(prev => prev.filter(student => student.id !== deletedId));
+      }
+      return;
+    }
+
+    const incoming = toStudent(payload.new);
+    setStudents(prev =>
+      prev.some(student => student.id === incoming.id)
+        ? prev.map(student => (student.id === incoming.id ? { ...incoming, tags: student.tags } : student))
+        : [incoming, ...prev]
+    );
+  };
+
+  const realtimeStatus = useRealtimeTable<StudentRow>({
+    table: 'students',
+    userId: user?.id,
+    onChange: handleRealtimeChange,
+    onReconnect: fetchStudents
+  });
+
   useEffect(() => {
     if (user) {
       fetchStudents();
@@ -324,12 +595,18 @@ export const StudentsProvider: React.FC<{ children: ReactNode }> = ({ children }
     students,
     loading,
     error,
+    realtimeStatus,
     addStudent,
     updateStudent,
     deleteStudent,
     getStudent,
     fetchStudents,
-    importStudents
+    searchStudents,
+    findStudentIds,
+    importStudents,
+    setStudentsStatus,
+    deleteStudents,
+    addTagToStudents
   };
 
   return (
@@ -0,0 +1,370 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { TopicOption } from '../services/topicClassifier';
+
+export interface Topic {
+  id: string;
+  parentId: string | null;
+  name: string;
+  keywords: string[];
+  createdAt: string;
+}
+
+export interface TopicInsight {
+  topicId: string;
+  studentId: string;
+  messageDate: string;
+  messageCount: number;
+}
+
+export interface TopicData {
+  name: string;
+  parentId?: string | null;
+  keywords?: string[];
+}
+
+type TopicRow = Database['public']['Tables']['topics']['Row'];
+type TopicUpdate = Database['public']['Tables']['topics']['Update'];
+type TopicInsightRow = Database['public']['Views']['topic_insights']['Row'];
+
+const toTopic = (topic: TopicRow): Topic => ({
+  id: topic.id,
+  parentId: topic.parent_id,
+  name: topic.name,
+  keywords: topic.keywords ?? [],
+  createdAt: topic.created_at
+});
+
+const toTopicInsight = (insight: TopicInsightRow): TopicInsight => ({
+  topicId: insight.topic_id,
+  studentId: insight.student_id,
+  messageDate: insight.message_date,
+  messageCount: insight.message_count
+});
+
+const INSIGHTS_PAGE_SIZE = 1000; // PostgREST's default max rows per request
+
+// A small starting point teachers can extend or prune on the Topics page
+const STARTER_TAXONOMY: Array<{ name: string; keywords: string[]; children?: Array<{ name: string; keywords: string[] }> }> = [
+  {
+    name: 'Math',
+    keywords: ['math', 'maths', 'calculate', 'number'],
+    children: [
+      { name: 'Algebra', keywords: ['equation', 'variable', 'solve for', 'linear', 'quadratic', 'polynomial'] },
+      { name: 'Geometry', keywords: ['triangle', 'angle', 'circle', 'area', 'perimeter', 'volume'] },
+      { name: 'Fractions', keywords: ['fraction', 'numerator', 'denominator', 'decimal', 'percent'] }
+    ]
+  },
+  {
+    name: 'Science',
+    keywords: ['science', 'experiment', 'hypothesis'],
+    children: [
+      { name: 'Biology', keywords: ['cell', 'photosynthesis', 'organism', 'dna', 'ecosystem'] },
+      { name: 'Chemistry', keywords: ['atom', 'molecule', 'element', 'reaction', 'periodic table'] },
+      { name: 'Physics', keywords: ['force', 'energy', 'gravity', 'velocity', 'electricity'] }
+    ]
+  },
+  {
+    name: 'Language',
+    keywords: ['essay', 'writing', 'reading'],
+    children: [
+      { name: 'Grammar', keywords: ['grammar', 'verb', 'noun', 'adjective', 'tense', 'punctuation'] },
+      { name: 'Vocabulary', keywords: ['vocabulary', 'meaning of', 'synonym', 'definition'] }
+    ]
+  },
+  {
+    name: 'History',
+    keywords: ['history', 'war', 'century', 'empire', 'revolution']
+  }
+];
+
+interface TopicsContextType {
+  topics: Topic[];
+  topicInsights: TopicInsight[];
+  loading: boolean;
+  error: string | null;
+  fetchTopics: () => Promise<void>;
+  addTopic: (topicData: TopicData) => Promise<Topic | undefined>;
+  updateTopic: (id: string, topicData: Partial<TopicData>) => Promise<void>;
+  deleteTopic: (id: string) => Promise<void>;
+  addStarterTopics: () => Promise<void>;
+  getTopic: (id: string) => Topic | undefined;
+  getTopicPath: (id: string) => string[];
+  getDescendantIds: (id: string) => string[];
+  getTopicOptions: () => TopicOption[];
+  scheduleTopicInsightsRefresh: () => void;
+}
+
+const TopicsContext = createContext<TopicsContextType | undefined>(undefined);
+
+export const TopicsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [topicInsights, setTopicInsights] = useState<TopicInsight[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const insightsRefreshTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const fetchTopicInsights = async () => {
+    if (!user) return;
+
+    const rows: TopicInsight[] = [];
+    for (let from = 0; ; from += INSIGHTS_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('topic_insights')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('message_date', { ascending: true })
+        .order('topic_id', { ascending: true })
+        .order('student_id', { ascending: true })
+        .range(from, from + INSIGHTS_PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      rows.push(...data.map(toTopicInsight));
+      if (data.length < INSIGHTS_PAGE_SIZE) break;
+    }
+
+    setTopicInsights(rows);
+  };
+
+  const fetchTopics = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('topics')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      setTopics(data.map(toTopic));
+      await fetchTopicInsights();
+    } catch (error: any) {
+      console.error('Error fetching topics:', error);
+      setError(error.message || 'Failed to fetch topics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const scheduleTopicInsightsRefresh = () => {
+    if (insightsRefreshTimeoutRef.current) {
+      clearTimeout(insightsRefreshTimeoutRef.current);
+    }
+
+    insightsRefreshTimeoutRef.current = setTimeout(() => {
+      fetchTopicInsights().catch(error => console.error('Error refreshing topic insights:', error));
+    }, 1000);
+  };
+
+  const addTopic = async (topicData: TopicData) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('topics')
+        .insert({
+          user_id: user.id,
+          name: topicData.name,
+          parent_id: topicData.parentId ?? null,
+          keywords: topicData.keywords ?? []
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const newTopic = toTopic(data);
+      setTopics(prev => [...prev, newTopic].sort((a, b) => a.name.localeCompare(b.name)));
+      return newTopic;
+    } catch (error: any) {
+      console.error('Error adding topic:', error);
+      setError(error.message || 'Failed to add topic');
+      throw error;
+    }
+  };
+
+  const updateTopic = async (id: string, topicData: Partial<TopicData>) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const updateData: TopicUpdate = {};
+      if (topicData.name) updateData.name = topicData.name;
+      if (topicData.keywords) updateData.keywords = topicData.keywords;
+      if (topicData.parentId !== undefined) updateData.parent_id = topicData.parentId;
+
+      const { data, error } = await supabase
+        .from('topics')
+        .update(updateData)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const updatedTopic = toTopic(data);
+      setTopics(prev =>
+        prev.map(topic => (topic.id === id ? updatedTopic : topic)).sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (error: any) {
+      console.error('Error updating topic:', error);
+      setError(error.message || 'Failed to update topic');
+      throw error;
+    }
+  };
+
+  // Subtopics and their message tags are removed by the database's cascading foreign keys
+  const deleteTopic = async (id: string) => {
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { error } = await supabase
+        .from('topics')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        throw error;
+      }
+
+      const removedIds = new Set(getDescendantIds(id));
+      setTopics(prev => prev.filter(topic => !removedIds.has(topic.id)));
+      setTopicInsights(prev => prev.filter(insight => !removedIds.has(insight.topicId)));
+    } catch (error: any) {
+      console.error('Error deleting topic:', error);
+      setError(error.message || 'Failed to delete topic');
+      throw error;
+    }
+  };
+
+  const addStarterTopics = async () => {
+    for (const subject of STARTER_TAXONOMY) {
+      const parent = await addTopic({ name: subject.name, keywords: subject.keywords });
+      if (!parent) return;
+
+      for (const child of subject.children ?? []) {
+        await addTopic({ name: child.name, keywords: child.keywords, parentId: parent.id });
+      }
+    }
+  };
+
+  const getTopic = (id: string) => {
+    return topics.find(topic => topic.id === id);
+  };
+
+  const getTopicPath = (id: string) => {
+    const path: string[] = [];
+    const seen = new Set<string>();
+    let current = getTopic(id);
+    // Guard against cycles in case a topic was ever moved under its own descendant
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      path.unshift(current.name);
+      current = current.parentId ? getTopic(current.parentId) : undefined;
+    }
+    return path;
+  };
+
+  // The topic itself plus everything nested below it
+  const getDescendantIds = (id: string) => {
+    const ids = [id];
+    for (let i = 0; i < ids.length; i++) {
+      topics.forEach(topic => {
+        if (topic.parentId === ids[i] && !ids.includes(topic.id)) {
+          ids.push(topic.id);
+        }
+      });
+    }
+    return ids;
+  };
+
+  const getTopicOptions = (): TopicOption[] => {
+    return topics.map(topic => ({
+      id: topic.id,
+      parentId: topic.parentId,
+      path: getTopicPath(topic.id),
+      keywords: topic.keywords
+    }));
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchTopics();
+    } else {
+      setTopics([]);
+      setTopicInsights([]);
+    }
+  }, [user]);
+
+  // Cleanup timeout on unmount
+  useEffect(() => {
+    return () => {
+      if (insightsRefreshTimeoutRef.current) {
+        clearTimeout(insightsRefreshTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const value = {
+    topics,
+    topicInsights,
+    loading,
+    error,
+    fetchTopics,
+    addTopic,
+    updateTopic,
+    deleteTopic,
+    addStarterTopics,
+    getTopic,
+    getTopicPath,
+    getDescendantIds,
+    getTopicOptions,
+    scheduleTopicInsightsRefresh
+  };
+
+  return (
+    <TopicsContext.Provider value={value}>
+      {children}
+    </TopicsContext.Provider>
+  );
+};
+
+export const useTopics = () => {
+  const context = useContext(TopicsContext);
+  if (context === undefined) {
+    throw new Error('useTopics must be used within a TopicsProvider');
+  }
+  return context;
+};
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { useState, useEffect, useRef } from 'react'
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { supabase } from '../lib/supabase'
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'live' | 'reconnecting'
+
+interface UseRealtimeTableOptions<Row extends Record<string, any>> {
+  table: string
+  userId: string | undefined
+  onChange: (payload: RealtimePostgresChangesPayload<Row>) => void
+  // Called after a dropped channel is re-established, so callers can refetch
+  // whatever changed while they were disconnected
+  onReconnect?: () => void
+}
+
+const BASE_RETRY_DELAY = 1000
+const MAX_RETRY_DELAY = 30000
+
+const getRetryDelay = (attempt: number): number => {
+  const exponential = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** attempt)
+  // Jitter keeps many open tabs from reconnecting in lockstep
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2))
+}
+
+export const useRealtimeTable = <Row extends Record<string, any>>({
+  table,
+  userId,
+  onChange,
+  onReconnect
+}: UseRealtimeTableOptions<Row>): RealtimeStatus => {
+  const [status, setStatus] = useState<RealtimeStatus>('idle')
+  const onChangeRef = useRef(onChange)
+  const onReconnectRef = useRef(onReconnect)
+
+  onChangeRef.current = onChange
+  onReconnectRef.current = onReconnect
+
+  useEffect(() => {
+    if (!userId) {
+      setStatus('idle')
+      return
+    }
+
+    let disposed = false
+    let channel: RealtimeChannel | null = null
+    let retryTimeoutId: ReturnType<typeof setTimeout> | null = null
+    let attempt = 0
+    let hasConnected = false
+
+    const teardown = () => {
+      const current = channel
+      channel = null
+      if (current) {
+        supabase.removeChannel(current)
+      }
+    }
+
+    const scheduleRetry = (delay: number) => {
+      if (retryTimeoutId) clearTimeout(retryTimeoutId)
+      retryTimeoutId = setTimeout(() => {
+        retryTimeoutId = null
+        connect()
+      }, delay)
+    }
+
+    const connect = () => {
+      if (disposed) return
+
+      setStatus(hasConnected ? 'reconnecting' : 'connecting')
+
+      const newChannel = supabase
+        .channel(`${table}:${userId}:${Date.now()}`)
+        .on<Row>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` },
+          (payload) => onChangeRef.current(payload)
+        )
+
+      channel = newChannel
+
+      newChannel.subscribe((subscribeStatus, err) => {
+        // Ignore callbacks from channels we have already replaced or removed
+        if (disposed || channel !== newChannel) return
+
+        if (subscribeStatus === 'SUBSCRIBED') {
+          setStatus('live')
+          if (hasConnected) {
+            onReconnectRef.current?.()
+          }
+          hasConnected = true
+          attempt = 0
+          return
+        }
+
+        console.warn(`Realtime channel for ${table} ${subscribeStatus.toLowerCase()}:`, err)
+        setStatus('reconnecting')
+        teardown()
+        scheduleRetry(getRetryDelay(attempt))
+        attempt++
+      })
+    }
+
+    // Skip the remaining backoff as soon as the browser is back online
+    const handleOnline = () => {
+      if (!channel || retryTimeoutId) {
+        attempt = 0
+        scheduleRetry(0)
+      }
+    }
+
+    window.addEventListener('online', handleOnline)
+    connect()
+
+    return () => {
+      disposed = true
+      window.removeEventListener('online', handleOnline)
+      if (retryTimeoutId) clearTimeout(retryTimeoutId)
+      teardown()
+      setStatus('idle')
+    }
+  }, [table, userId])
+
+  return status
+}
\ No newline at end of file
@@ -15,6 +15,58 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   }
 })
 
+// Stored alongside image/file messages; the object itself lives in Supabase Storage
+export type AttachmentMetadata = {
+  file_name: string
+  mime_type: string
+  size: number
+  width?: number
+  height?: number
+}
+
+export type SafetyCategory = 'self_harm' | 'bullying' | 'abuse' | 'violence' | 'sexual' | 'hate'
+
+export type SafetySeverity = 'low' | 'medium' | 'high'
+
+// One entry per category a classifier matched, stored as jsonb on the message
+export type SafetyFlag = {
+  category: SafetyCategory
+  severity: SafetySeverity
+  score: number
+  source: string
+}
+
+// One exchange in a saved playground session; usage is only present on assistant turns
+export type PlaygroundTurnRecord = {
+  role: 'user' | 'assistant'
+  content: string
+  model?: string
+  prompt_tokens?: number
+  completion_tokens?: number
+}
+
+export type GuardianContactRecord = {
+  name: string
+  relationship: string
+  phone: string
+  email: string
+}
+
+export type StudentFieldType = 'text' | 'number' | 'date' | 'select'
+
+// Values for a teacher's own student fields, keyed by student_field_definitions.id.
+// Dates are YYYY-MM-DD strings; fields left empty are omitted.
+export type CustomFieldValues = Record<string, string | number>
+
+// A template variable the teacher fills in; variables taken from the student record are not stored
+export type PromptVariableRecord = {
+  name: string
+  default_value: string
+}
+
+// 'compatible' is any server speaking OpenAI's chat completions API, e.g. llama.cpp or Ollama
+export type LLMProviderName = 'openai' | 'azure' | 'compatible'
+
 export type Database = {
   public: {
     Tables: {
@@ -24,6 +76,12 @@ export type Database = {
           first_name: string
           last_name: string
           phone: string
+          email: string | null
+          grade_level: string | null
+          date_of_birth: string | null
+          guardian_contacts: GuardianContactRecord[]
+          notes: string
+          custom_fields: CustomFieldValues
           enrollment_date: string
           status: 'active' | 'inactive'
           user_id: string
@@ -35,6 +93,12 @@ export type Database = {
           first_name: string
           last_name: string
           phone: string
+          email?: string | null
+          grade_level?: string | null
+          date_of_birth?: string | null
+          guardian_contacts?: GuardianContactRecord[]
+          notes?: string
+          custom_fields?: CustomFieldValues
           enrollment_date?: string
           status?: 'active' | 'inactive'
           user_id: string
@@ -46,6 +110,12 @@ export type Database = {
           first_name?: string
           last_name?: string
           phone?: string
+          email?: string | null
+          grade_level?: string | null
+          date_of_birth?: string | null
+          guardian_contacts?: GuardianContactRecord[]
+          notes?: string
+          custom_fields?: CustomFieldValues
           enrollment_date?: string
           status?: 'active' | 'inactive'
           user_id?: string
@@ -53,6 +123,36 @@ export type Database = {
           updated_at?: string
         }
       }
+      // Extra fields a teacher adds to their students; options only apply to 'select'
+      student_field_definitions: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          field_type: StudentFieldType
+          options: string[]
+          position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          field_type: StudentFieldType
+          options?: string[]
+          position?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          field_type?: StudentFieldType
+          options?: string[]
+          position?: number
+          created_at?: string
+        }
+      }
       messages: {
         Row: {
           id: string
@@ -62,6 +162,19 @@ export type Database = {
           output_content: string | null
           message_type: 'text' | 'image' | 'file'
           is_read: boolean
+          output_author: 'bot' | 'teacher'
+          output_edited_at: string | null
+          attachment_path: string | null
+          attachment_metadata: AttachmentMetadata | null
+          safety_flags: SafetyFlag[] | null
+          safety_severity: SafetySeverity | null
+          safety_checked_at: string | null
+          safety_acknowledged_at: string | null
+          topics_tagged_at: string | null
+          model: string | null
+          prompt_tokens: number | null
+          completion_tokens: number | null
+          search_vector: string
           created_at: string
           updated_at: string
         }
@@ -73,6 +186,18 @@ export type Database = {
           output_content?: string | null
           message_type?: 'text' | 'image' | 'file'
           is_read?: boolean
+          output_author?: 'bot' | 'teacher'
+          output_edited_at?: string | null
+          attachment_path?: string | null
+          attachment_metadata?: AttachmentMetadata | null
+          safety_flags?: SafetyFlag[] | null
+          safety_severity?: SafetySeverity | null
+          safety_checked_at?: string | null
+          safety_acknowledged_at?: string | null
+          topics_tagged_at?: string | null
+          model?: string | null
+          prompt_tokens?: number | null
+          completion_tokens?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -84,12 +209,594 @@ export type Database = {
           output_content?: string | null
           message_type?: 'text' | 'image' | 'file'
           is_read?: boolean
+          output_author?: 'bot' | 'teacher'
+          output_edited_at?: string | null
+          attachment_path?: string | null
+          attachment_metadata?: AttachmentMetadata | null
+          safety_flags?: SafetyFlag[] | null
+          safety_severity?: SafetySeverity | null
+          safety_checked_at?: string | null
+          safety_acknowledged_at?: string | null
+          topics_tagged_at?: string | null
+          model?: string | null
+          prompt_tokens?: number | null
+          completion_tokens?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      message_revisions: {
+        Row: {
+          id: string
+          message_id: string
+          user_id: string
+          previous_output: string | null
+          previous_author: 'bot' | 'teacher'
+          revised_output: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          user_id: string
+          previous_output?: string | null
+          previous_author: 'bot' | 'teacher'
+          revised_output: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          user_id?: string
+          previous_output?: string | null
+          previous_author?: 'bot' | 'teacher'
+          revised_output?: string
+          created_at?: string
+        }
+      }
+      outbound_messages: {
+        Row: {
+          id: string
+          student_id: string
+          user_id: string
+          reply_to_message_id: string | null
+          content: string
+          author_type: 'bot' | 'teacher'
+          status: 'pending' | 'sent' | 'failed'
+          error_message: string | null
+          sent_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          student_id: string
+          user_id: string
+          reply_to_message_id?: string | null
+          content: string
+          author_type?: 'bot' | 'teacher'
+          status?: 'pending' | 'sent' | 'failed'
+          error_message?: string | null
+          sent_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          student_id?: string
+          user_id?: string
+          reply_to_message_id?: string | null
+          content?: string
+          author_type?: 'bot' | 'teacher'
+          status?: 'pending' | 'sent' | 'failed'
+          error_message?: string | null
+          sent_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      student_summaries: {
+        Row: {
+          id: string
+          student_id: string
+          user_id: string
+          period_start: string
+          period_end: string
+          topics: string[]
+          difficulties: string[]
+          follow_ups: string[]
+          engagement_note: string
+          message_count: number
+          model: string
+          prompt_tokens: number
+          completion_tokens: number
+          total_tokens: number
+          cost: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          student_id: string
+          user_id: string
+          period_start: string
+          period_end: string
+          topics: string[]
+          difficulties: string[]
+          follow_ups: string[]
+          engagement_note: string
+          message_count: number
+          model: string
+          prompt_tokens: number
+          completion_tokens: number
+          total_tokens: number
+          cost: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          student_id?: string
+          user_id?: string
+          period_start?: string
+          period_end?: string
+          topics?: string[]
+          difficulties?: string[]
+          follow_ups?: string[]
+          engagement_note?: string
+          message_count?: number
+          model?: string
+          prompt_tokens?: number
+          completion_tokens?: number
+          total_tokens?: number
+          cost?: number | null
+          created_at?: string
+        }
+      }
+      topics: {
+        Row: {
+          id: string
+          user_id: string
+          parent_id: string | null
+          name: string
+          keywords: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          parent_id?: string | null
+          name: string
+          keywords?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          parent_id?: string | null
+          name?: string
+          keywords?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      message_topics: {
+        Row: {
+          message_id: string
+          topic_id: string
+          user_id: string
+          student_id: string
+          confidence: number
+          source: 'llm' | 'keywords' | 'teacher'
+          created_at: string
+        }
+        Insert: {
+          message_id: string
+          topic_id: string
+          user_id: string
+          student_id: string
+          confidence?: number
+          source: 'llm' | 'keywords' | 'teacher'
+          created_at?: string
+        }
+        Update: {
+          message_id?: string
+          topic_id?: string
+          user_id?: string
+          student_id?: string
+          confidence?: number
+          source?: 'llm' | 'keywords' | 'teacher'
+          created_at?: string
+        }
+      }
+      classes: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      // Free-form labels on students, one row per student and tag; rows go with the student
+      student_tags: {
+        Row: {
+          student_id: string
+          user_id: string
+          tag: string
+          created_at: string
+        }
+        Insert: {
+          student_id: string
+          user_id: string
+          tag: string
+          created_at?: string
+        }
+        Update: {
+          student_id?: string
+          user_id?: string
+          tag?: string
+          created_at?: string
+        }
+      }
+      // A student can be in any number of classes; rows go when either side is deleted
+      class_memberships: {
+        Row: {
+          class_id: string
+          student_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          class_id: string
+          student_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          class_id?: string
+          student_id?: string
+          user_id?: string
+          created_at?: string
+        }
+      }
+      playground_sessions: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          model: string
+          temperature: number
+          max_tokens: number
+          system_prompt: string
+          turns: PlaygroundTurnRecord[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          model: string
+          temperature: number
+          max_tokens: number
+          system_prompt: string
+          turns?: PlaygroundTurnRecord[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          model?: string
+          temperature?: number
+          max_tokens?: number
+          system_prompt?: string
+          turns?: PlaygroundTurnRecord[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      // current_version points at the prompt_template_versions row in use
+      prompt_templates: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string
+          current_version: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string
+          current_version?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string
+          current_version?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      // Append-only: every save and every rollback adds a version
+      prompt_template_versions: {
+        Row: {
+          id: string
+          template_id: string
+          user_id: string
+          version: number
+          content: string
+          variables: PromptVariableRecord[]
+          note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          user_id: string
+          version: number
+          content: string
+          variables?: PromptVariableRecord[]
+          note?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          template_id?: string
+          user_id?: string
+          version?: number
+          content?: string
+          variables?: PromptVariableRecord[]
+          note?: string | null
+          created_at?: string
+        }
+      }
+      // A teacher's own rates; the app ships defaults for the common models
+      model_prices: {
+        Row: {
+          id: string
+          user_id: string
+          model: string
+          input_per_million: number
+          output_per_million: number
+          cached_input_per_million: number | null
+          effective_from: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          model: string
+          input_per_million: number
+          output_per_million: number
+          cached_input_per_million?: number | null
+          effective_from: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          model?: string
+          input_per_million?: number
+          output_per_million?: number
+          cached_input_per_million?: number | null
+          effective_from?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      // The shipped rates, so Postgres can price usage too; mirrors DEFAULT_MODEL_PRICES
+      default_model_prices: {
+        Row: {
+          model: string
+          input_per_million: number
+          output_per_million: number
+          cached_input_per_million: number | null
+          effective_from: string
+        }
+        Insert: {
+          model: string
+          input_per_million: number
+          output_per_million: number
+          cached_input_per_million?: number | null
+          effective_from: string
+        }
+        Update: {
+          model?: string
+          input_per_million?: number
+          output_per_million?: number
+          cached_input_per_million?: number | null
+          effective_from?: string
+        }
+      }
+      // Which LLM provider a teacher's chat requests go to; teachers without a row use OpenAI
+      llm_provider_settings: {
+        Row: {
+          user_id: string
+          provider: LLMProviderName
+          azure_deployment: string | null
+          base_url: string | null
+          api_key: string | null
+          model: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          provider: LLMProviderName
+          azure_deployment?: string | null
+          base_url?: string | null
+          api_key?: string | null
+          model?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          provider?: LLMProviderName
+          azure_deployment?: string | null
+          base_url?: string | null
+          api_key?: string | null
+          model?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      // Written by the openai-proxy Edge Function with the service role; used for per-user rate limits
+      openai_proxy_requests: {
+        Row: {
+          id: string
+          user_id: string
+          route: 'chat' | 'moderations' | 'usage'
+          model: string | null
+          prompt_tokens: number | null
+          completion_tokens: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          route: 'chat' | 'moderations' | 'usage'
+          model?: string | null
+          prompt_tokens?: number | null
+          completion_tokens?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          route?: 'chat' | 'moderations' | 'usage'
+          model?: string | null
+          prompt_tokens?: number | null
+          completion_tokens?: number | null
+          created_at?: string
+        }
+      }
+      // One row per teacher; whether it is used up is worked out by the teacher_budget_status view
+      teacher_budgets: {
+        Row: {
+          user_id: string
+          monthly_budget: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          monthly_budget: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          monthly_budget?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      // Null limits are not enforced; whether they are reached is worked out by the student_quota_status view
+      student_quotas: {
+        Row: {
+          student_id: string
+          user_id: string
+          daily_message_limit: number | null
+          monthly_message_limit: number | null
+          daily_token_limit: number | null
+          monthly_token_limit: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          student_id: string
+          user_id: string
+          daily_message_limit?: number | null
+          monthly_message_limit?: number | null
+          daily_token_limit?: number | null
+          monthly_token_limit?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          student_id?: string
+          user_id?: string
+          daily_message_limit?: number | null
+          monthly_message_limit?: number | null
+          daily_token_limit?: number | null
+          monthly_token_limit?: number | null
           created_at?: string
           updated_at?: string
         }
       }
     }
     Views: {
+      // Billed usage: messages answered by the bot plus the dashboard's calls through openai-proxy
+      teacher_usage_events: {
+        Row: {
+          user_id: string
+          student_id: string | null
+          created_at: string
+          model: string | null
+          prompt_tokens: number
+          completion_tokens: number
+        }
+      }
+      // The bot checks budget_exceeded before answering anyone; spend covers the current UTC month
+      teacher_budget_status: {
+        Row: {
+          user_id: string
+          monthly_budget: number
+          spent_this_month: number
+          budget_exceeded: boolean
+          created_at: string
+          updated_at: string
+        }
+      }
+      // The bot checks quota_exceeded before answering the student; days and months are UTC
+      student_quota_status: {
+        Row: {
+          student_id: string
+          user_id: string
+          daily_message_limit: number | null
+          monthly_message_limit: number | null
+          daily_token_limit: number | null
+          monthly_token_limit: number | null
+          messages_today: number
+          messages_this_month: number
+          tokens_today: number
+          tokens_this_month: number
+          quota_exceeded: boolean
+          created_at: string
+          updated_at: string
+        }
+      }
       message_insights: {
         Row: {
           user_id: string
@@ -97,7 +804,47 @@ export type Database = {
           message_date: string
           message_count: number
           unread_count: number
+          total_tokens: number
+        }
+      }
+      token_usage_insights: {
+        Row: {
+          user_id: string
+          student_id: string
+          message_date: string
+          model: string
+          message_count: number
+          prompt_tokens: number
+          completion_tokens: number
+        }
+      }
+      topic_insights: {
+        Row: {
+          user_id: string
+          student_id: string
+          topic_id: string
+          message_date: string
+          message_count: number
+        }
+      }
+    }
+    Functions: {
+      // The teacher's or the default rate for a model on a day; no row when the model is unpriced
+      model_price_on: {
+        Args: {
+          p_user_id: string
+          p_model: string
+          p_day: string
+        }
+        Returns: { input_per_million: number; output_per_million: number }[]
+      }
+      // Records a message_revisions row and applies the teacher's reply in one transaction
+      edit_bot_reply: {
+        Args: {
+          p_message_id: string
+          p_content: string
         }
+        Returns: Database['public']['Tables']['messages']['Row'][]
       }
     }
   }
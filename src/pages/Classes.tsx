@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Layout from '../components/Layout';
+import { useClasses, StudentClass } from '../contexts/ClassesContext';
+import { useStudents } from '../contexts/StudentsContext';
+
+interface ClassFormState {
+  name: string;
+  description: string;
+}
+
+const emptyForm: ClassFormState = { name: '', description: '' };
+
+const Classes: React.FC = () => {
+  const { classes, loading, error, selectedClassId, setSelectedClassId, addClass, updateClass, deleteClass, setClassStudents } = useClasses();
+  const { students } = useStudents();
+  const navigate = useNavigate();
+  const [newClass, setNewClass] = useState<ClassFormState>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ClassFormState>(emptyForm);
+  // The class whose members are being picked, and the picks so far
+  const [membersClassId, setMembersClassId] = useState<string | null>(null);
+  const [memberIds, setMemberIds] = useState<Set<string>>(new Set());
+  const [memberSearch, setMemberSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Responsive design state
+  const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1200);
+
+  useEffect(() => {
+    const handleResize = () => setWindowWidth(window.innerWidth);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const isMobile = windowWidth < 768;
+
+  const runSave = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      alert(`${failure}: ` + (error as Error).message);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newClass.name.trim()) return;
+
+    const saved = await runSave(
+      () => addClass({ name: newClass.name.trim(), description: newClass.description.trim() }),
+      'Failed to add class'
+    );
+    if (saved) setNewClass(emptyForm);
+  };
+
+  const handleUpdateClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !form.name.trim()) return;
+
+    const saved = await runSave(
+      () => updateClass(editingId, { name: form.name.trim(), description: form.description.trim() }),
+      'Failed to update class'
+    );
+    if (saved) setEditingId(null);
+  };
+
+  const handleDelete = async (studentClass: StudentClass) => {
+    if (!window.confirm(`Delete "${studentClass.name}"? Its students are kept; only the class goes.`)) return;
+
+    try {
+      await deleteClass(studentClass.id);
+      if (membersClassId === studentClass.id) setMembersClassId(null);
+    } catch (error) {
+      alert('Failed to delete class: ' + (error as Error).message);
+    }
+  };
+
+  const startEditing = (studentClass: StudentClass) => {
+    setEditingId(studentClass.id);
+    setForm({ name: studentClass.name, description: studentClass.description });
+  };
+
+  const openMembers = (studentClass: StudentClass) => {
+    setMembersClassId(studentClass.id);
+    setMemberIds(new Set(studentClass.studentIds));
+    setMemberSearch('');
+  };
+
+  const toggleMember = (studentId: string) => {
+    setMemberIds(prev => {
+      const next = new Set(prev);
+      if (next.has(studentId)) {
+        next.delete(studentId);
+      } else {
+        next.add(studentId);
+      }
+      return next;
+    });
+  };
+
+  const handleSaveMembers = async () => {
+    if (!membersClassId) return;
+
+    const saved = await runSave(
+      () => setClassStudents(membersClassId, Array.from(memberIds)),
+      'Failed to update class members'
+    );
+    if (saved) setMembersClassId(null);
+  };
+
+  const handleViewStudents = (studentClass: StudentClass) => {
+    setSelectedClassId(studentClass.id);
+    navigate('/students');
+  };
+
+  const search = memberSearch.trim().toLowerCase();
+  const searchedStudents = students.filter(student =>
+    !search || `${student.firstName} ${student.lastName}`.toLowerCase().includes(search)
+  );
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    minWidth: 0
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: '#e2e8f0',
+    color: '#4a5568',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.75rem',
+    cursor: 'pointer'
+  };
+
+  const primaryButtonStyle: React.CSSProperties = {
+    padding: '0.5rem 1rem',
+    backgroundColor: isSaving ? '#a0aec0' : '#667eea',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: isSaving ? 'not-allowed' : 'pointer',
+    fontWeight: '500'
+  };
+
+  return (
+    <Layout>
+      <div style={{ marginBottom: '2rem' }}>
+        <h1 style={{
+          color: '#333',
+          marginBottom: '0.5rem',
+          fontSize: isMobile ? '1.5rem' : '2rem'
+        }}>
+          Classes
+        </h1>
+        <p style={{
+          color: '#666',
+          margin: 0,
+          fontSize: isMobile ? '1rem' : '1.1rem'
+        }}>
+          Group students into classes. Pick a class in the sidebar to scope the Students page, Dashboard and exports to it.
+        </p>
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '0.75rem',
+          marginBottom: '1rem',
+          backgroundColor: '#fed7d7',
+          color: '#c53030',
+          borderRadius: '4px',
+          fontSize: '0.875rem'
+        }}>
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleAddClass} style={{
+        display: 'flex',
+        flexDirection: isMobile ? 'column' : 'row',
+        gap: '0.5rem',
+        padding: isMobile ? '1rem' : '1.5rem',
+        marginBottom: '1.5rem',
+        backgroundColor: 'white',
+        borderRadius: '10px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+      }}>
+        <input
+          type="text"
+          value={newClass.name}
+          onChange={(e) => setNewClass(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Class name, e.g. Year 9 Maths"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <input
+          type="text"
+          value={newClass.description}
+          onChange={(e) => setNewClass(prev => ({ ...prev, description: e.target.value }))}
+          placeholder="Description (optional)"
+          style={{ ...inputStyle, flex: 2 }}
+        />
+        <button type="submit" disabled={isSaving || !newClass.name.trim()} style={primaryButtonStyle}>
+          + Add Class
+        </button>
+      </form>
+
+      {loading && classes.length === 0 ? (
+        <p style={{ color: '#718096' }}>Loading classes...</p>
+      ) : classes.length === 0 ? (
+        <p style={{ color: '#718096', fontStyle: 'italic' }}>No classes yet. Add one above, then choose its students.</p>
+      ) : (
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(auto-fill, minmax(${isMobile ? '100%' : '320px'}, 1fr))`,
+          gap: '1rem'
+        }}>
+          {classes.map(studentClass => (
+            <div key={studentClass.id} style={{
+              backgroundColor: 'white',
+              padding: isMobile ? '1rem' : '1.5rem',
+              borderRadius: '10px',
+              boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+              borderLeft: studentClass.id === selectedClassId ? '4px solid #4299e1' : '4px solid transparent'
+            }}>
+              {editingId === studentClass.id ? (
+                <form onSubmit={handleUpdateClass} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                    style={inputStyle}
+                  />
+                  <input
+                    type="text"
+                    value={form.description}
+                    onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder="Description (optional)"
+                    style={inputStyle}
+                  />
+                  <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <button type="submit" disabled={isSaving || !form.name.trim()} style={primaryButtonStyle}>Save</button>
+                    <button type="button" onClick={() => setEditingId(null)} style={smallButtonStyle}>Cancel</button>
+                  </div>
+                </form>
+              ) : (
+                <>
+                  <h3 style={{ margin: '0 0 0.25rem 0', color: '#2d3748' }}>{studentClass.name}</h3>
+                  {studentClass.description && (
+                    <p style={{ margin: '0 0 0.5rem 0', color: '#718096', fontSize: '0.875rem' }}>{studentClass.description}</p>
+                  )}
+                  <p style={{ margin: '0 0 0.75rem 0', color: '#4a5568', fontSize: '0.875rem' }}>
+                    {studentClass.studentIds.length} student{studentClass.studentIds.length === 1 ? '' : 's'}
+                  </p>
+                  <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                    <button onClick={() => handleViewStudents(studentClass)} style={{ ...smallButtonStyle, backgroundColor: '#bee3f8', color: '#2b6cb0' }}>
+                      View students
+                    </button>
+                    <button onClick={() => openMembers(studentClass)} style={smallButtonStyle}>Choose students</button>
+                    <button onClick={() => startEditing(studentClass)} style={smallButtonStyle}>Edit</button>
+                    <button onClick={() => handleDelete(studentClass)} style={{ ...smallButtonStyle, backgroundColor: '#fed7d7', color: '#c53030' }}>
+                      Delete
+                    </button>
+                  </div>
+                </>
+              )}
+
+              {membersClassId === studentClass.id && (
+                <div style={{ marginTop: '1rem', paddingTop: '1rem', borderTop: '1px solid #e2e8f0' }}>
+                  <input
+                    type="text"
+                    value={memberSearch}
+                    onChange={(e) => setMemberSearch(e.target.value)}
+                    placeholder="Find a student"
+                    style={{ ...inputStyle, width: '100%', marginBottom: '0.5rem' }}
+                  />
+                  <div style={{ maxHeight: '240px', overflowY: 'auto', marginBottom: '0.75rem' }}>
+                    {searchedStudents.length === 0 ? (
+                      <p style={{ margin: 0, color: '#718096', fontSize: '0.875rem' }}>No matching students</p>
+                    ) : searchedStudents.map(student => (
+                      <label key={student.id} style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '0.5rem',
+                        padding: '0.25rem 0',
+                        fontSize: '0.875rem',
+                        color: '#2d3748',
+                        cursor: 'pointer'
+                      }}>
+                        <input
+                          type="checkbox"
+                          checked={memberIds.has(student.id)}
+                          onChange={() => toggleMember(student.id)}
+                        />
+                        {student.firstName} {student.lastName}
+                        {student.status === 'inactive' && <span style={{ color: '#a0aec0', fontSize: '0.75rem' }}>(inactive)</span>}
+                      </label>
+                    ))}
+                  </div>
+                  <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                    <button onClick={handleSaveMembers} disabled={isSaving} style={primaryButtonStyle}>
+                      {isSaving ? 'Saving...' : `Save ${memberIds.size} student${memberIds.size === 1 ? '' : 's'}`}
+                    </button>
+                    <button onClick={() => setMembersClassId(null)} style={smallButtonStyle}>Cancel</button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Layout>
+  );
+};
+
+export default Classes;
\ No newline at end of file
@@ -1,9 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useStudents } from '../contexts/StudentsContext';
+import { useClasses } from '../contexts/ClassesContext';
 import { useMessages } from '../contexts/MessagesContext';
-import { openAIService } from '../services/openaiService';
+import { usePricing } from '../contexts/PricingContext';
+import { openAIService, UsageProgress } from '../services/openaiService';
+import { formatCost } from '../services/pricingRegistry';
 import Layout from '../components/Layout';
+import LiveIndicator from '../components/LiveIndicator';
+import SafetyAlerts from '../components/SafetyAlerts';
+import BudgetOverview from '../components/BudgetOverview';
+import TopicBreakdown from '../components/TopicBreakdown';
 
 interface DashboardInsights {
   totalStudents: number;
@@ -12,13 +19,21 @@ interface DashboardInsights {
   activeStudentsThisWeek: number;
   messagesThisWeek: number;
   tokensUsedThisWeek: number;
+  costThisWeek: number;
+  // Tokens from models no rate covers, left out of costThisWeek
+  unpricedTokensThisWeek: number;
   topActiveStudents: Array<{ studentName: string; messageCount: number }>;
 }
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
-  const { students } = useStudents();
-  const { messages } = useMessages();
+  const { students: allStudents } = useStudents();
+  const { selectedClassId, selectedClass, selectedStudentIds, isInSelectedClass } = useClasses();
+  const students = allStudents.filter(student => isInSelectedClass(student.id));
+  // Changes when students join or leave the selected class, unlike selectedClass's identity
+  const selectedClassMembers = selectedClass?.studentIds.join(',');
+  const { insights: messageInsights, tokenUsage, getTokenUsageTotals } = useMessages();
+  const { prices, calculateCost } = usePricing();
   const [insights, setInsights] = useState<DashboardInsights>({
     totalStudents: 0,
     activeStudents: 0,
@@ -26,6 +41,8 @@ const Dashboard: React.FC = () => {
     activeStudentsThisWeek: 0,
     messagesThisWeek: 0,
     tokensUsedThisWeek: 0,
+    costThisWeek: 0,
+    unpricedTokensThisWeek: 0,
     topActiveStudents: []
   });
 
@@ -54,64 +71,89 @@ const Dashboard: React.FC = () => {
     totalTokens: 0,
     inputTokens: 0,
     outputTokens: 0,
+    inputCost: 0,
+    outputCost: 0,
     estimatedCost: 0,
+    // Tokens from models no rate in Settings covers, kept out of the costs above
+    unpricedTokens: 0,
+    unpricedModels: [] as string[],
+    // Tokens guessed from request counts, kept out of the figures above
+    guessedInputTokens: 0,
+    guessedOutputTokens: 0,
+    // Billed spend from OpenAI's Costs API, when the proxy can read it
+    reportedCost: null as number | null,
+    // Days OpenAI could not return even after retrying
+    unavailableDays: 0,
     loading: false,
     error: null as string | null
   });
+  // Days still being fetched from OpenAI; cached days are not counted
+  const [usageProgress, setUsageProgress] = useState<UsageProgress | null>(null);
+  // Only the latest usage request may update the cards when the filter changes mid-load
+  const usageRequestRef = useRef(0);
 
-  // Helper function to filter messages by date range
-  const getFilteredMessages = () => {
+  // Message insights for the selected class, or everyone when no class is selected
+  const classInsights = messageInsights.filter(insight => isInSelectedClass(insight.studentId));
+
+  // Helper function to filter the per-day message insights by date range
+  const getFilteredInsights = () => {
     if (!isFilterActive || !dateFilter.startDate || !dateFilter.endDate) {
-      return messages;
+      return classInsights;
     }
 
-    const startDate = new Date(dateFilter.startDate);
-    const endDate = new Date(dateFilter.endDate);
-    endDate.setHours(23, 59, 59, 999); // Include the entire end date
-
-    return messages.filter(msg => {
-      const msgDate = new Date(msg.createdAt);
-      return msgDate >= startDate && msgDate <= endDate;
-    });
+    // Insight rows are keyed by YYYY-MM-DD, so plain string comparison covers whole days
+    return classInsights.filter(insight =>
+      insight.messageDate >= dateFilter.startDate && insight.messageDate <= dateFilter.endDate
+    );
   };
 
-
   useEffect(() => {
     const calculateInsights = () => {
       const totalStudents = students.length;
       const activeStudents = students.filter(student => student.status === 'active').length;
 
-      // Get filtered messages based on date range
-      const filteredMessages = getFilteredMessages();
+      // Get filtered insights based on date range
+      const filteredInsights = getFilteredInsights();
+      const countMessages = (rows: typeof filteredInsights) =>
+        rows.reduce((sum, insight) => sum + insight.messageCount, 0);
 
-      // Calculate analytics from filtered messages
-      const totalMessages = filteredMessages.length;
-      const activeStudentIds = new Set(filteredMessages.map(msg => msg.studentId));
+      // Calculate analytics from filtered insights
+      const totalMessages = countMessages(filteredInsights);
+      const activeStudentIds = new Set(filteredInsights.map(insight => insight.studentId));
 
       // For "this week" metrics, use either the filter period or actual week
-      let weekMessages, weekActiveStudents, weekTokens;
+      let weekMessages, weekActiveStudents, weekTokens, weekCostTotals;
+      const countTokens = (rows: typeof filteredInsights) =>
+        rows.reduce((sum, insight) => sum + insight.totalTokens, 0);
 
       if (isFilterActive) {
         // If filtering, use the filtered period
-        weekMessages = filteredMessages.length;
+        weekMessages = totalMessages;
         weekActiveStudents = activeStudentIds.size;
-        weekTokens = 0; // Token usage from OpenAI API
+        weekTokens = countTokens(filteredInsights);
+        weekCostTotals = getTokenUsageTotals({
+          startDate: dateFilter.startDate,
+          endDate: dateFilter.endDate,
+          studentIds: selectedStudentIds
+        });
       } else {
         // If not filtering, use actual "this week" data
         const oneWeekAgo = new Date();
         oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-        const thisWeekMessages = messages.filter(msg => new Date(msg.createdAt) >= oneWeekAgo);
-        weekMessages = thisWeekMessages.length;
-        weekActiveStudents = new Set(thisWeekMessages.map(msg => msg.studentId)).size;
-        weekTokens = 0; // Token usage from OpenAI API
+        const oneWeekAgoDate = oneWeekAgo.toISOString().split('T')[0];
+        const thisWeekInsights = classInsights.filter(insight => insight.messageDate >= oneWeekAgoDate);
+        weekMessages = countMessages(thisWeekInsights);
+        weekActiveStudents = new Set(thisWeekInsights.map(insight => insight.studentId)).size;
+        weekTokens = countTokens(thisWeekInsights);
+        weekCostTotals = getTokenUsageTotals({ startDate: oneWeekAgoDate, studentIds: selectedStudentIds });
       }
 
-      // Calculate top active students using filtered messages
+      // Calculate top active students using filtered insights
       const studentMessageCounts = students.map(student => {
-        const studentMessages = filteredMessages.filter(msg => msg.studentId === student.id);
+        const studentInsights = filteredInsights.filter(insight => insight.studentId === student.id);
         return {
           studentName: `${student.firstName} ${student.lastName}`,
-          messageCount: studentMessages.length
+          messageCount: countMessages(studentInsights)
         };
       }).sort((a, b) => b.messageCount - a.messageCount).slice(0, 5);
 
@@ -122,12 +164,28 @@ const Dashboard: React.FC = () => {
         activeStudentsThisWeek: weekActiveStudents,
         messagesThisWeek: weekMessages,
         tokensUsedThisWeek: weekTokens,
+        costThisWeek: weekCostTotals.cost,
+        unpricedTokensThisWeek: weekCostTotals.unpricedTokens,
         topActiveStudents: studentMessageCounts
       });
     };
 
     calculateInsights();
-  }, [students, messages, dateFilter, isFilterActive]);
+  }, [allStudents, selectedClassId, selectedClassMembers, messageInsights, tokenUsage, prices, dateFilter, isFilterActive]);
+
+  // Topic breakdown follows the date filter, or the last 7 days when no filter is applied
+  const getTopicPeriod = () => {
+    if (isFilterActive && dateFilter.startDate && dateFilter.endDate) {
+      return { startDate: dateFilter.startDate, endDate: dateFilter.endDate };
+    }
+    const oneWeekAgo = new Date();
+    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
+    return {
+      startDate: oneWeekAgo.toISOString().split('T')[0],
+      endDate: new Date().toISOString().split('T')[0]
+    };
+  };
+  const topicPeriod = getTopicPeriod();
 
   const handleDateFilterChange = (field: 'startDate' | 'endDate', value: string) => {
     setDateFilter(prev => ({ ...prev, [field]: value }));
@@ -151,53 +209,90 @@ const Dashboard: React.FC = () => {
       return;
     }
 
+    const requestId = ++usageRequestRef.current;
+    const handleProgress = (progress: UsageProgress) => {
+      if (requestId === usageRequestRef.current) setUsageProgress(progress);
+    };
+
     setOpenAIUsage(prev => ({ ...prev, loading: true, error: null }));
+    setUsageProgress(null);
 
     try {
       let usage;
 
       if (isFilterActive && dateFilter.startDate && dateFilter.endDate) {
         // Use date-filtered usage statistics with exact token counts
-        const stats = await openAIService.getUsageStatistics(dateFilter.startDate, dateFilter.endDate);
+        const stats = await openAIService.getUsageStatistics(dateFilter.startDate, dateFilter.endDate, handleProgress);
         usage = {
-          totalRequests: Math.round(stats.totalUsage / 150), // Rough estimate of requests from tokens
+          totalRequests: stats.totalRequests,
           totalTokens: stats.totalUsage, // This now contains actual token counts
           inputTokens: stats.totalInputTokens,
           outputTokens: stats.totalOutputTokens,
-          estimatedCost: stats.totalInputTokens * 0.0015 / 1000 + stats.totalOutputTokens * 0.002 / 1000 // Calculate cost from actual input/output tokens
+          inputCost: stats.inputCost,
+          outputCost: stats.outputCost,
+          estimatedCost: stats.estimatedCost,
+          unpricedTokens: stats.unpricedTokens,
+          unpricedModels: stats.unpricedModels,
+          estimatedUsage: stats.estimatedUsage,
+          reportedCost: stats.reportedCost,
+          unavailableDates: stats.unavailableDates
         };
       } else {
         // Use current month usage (default behavior) with exact token counts
-        usage = await openAIService.getCurrentMonthUsage();
+        usage = await openAIService.getCurrentMonthUsage(handleProgress);
       }
 
+      if (requestId !== usageRequestRef.current) return;
       setOpenAIUsage({
         totalRequests: usage.totalRequests,
         totalTokens: usage.totalTokens,
         inputTokens: usage.inputTokens,
         outputTokens: usage.outputTokens,
+        inputCost: usage.inputCost,
+        outputCost: usage.outputCost,
         estimatedCost: usage.estimatedCost,
+        unpricedTokens: usage.unpricedTokens,
+        unpricedModels: usage.unpricedModels,
+        guessedInputTokens: usage.estimatedUsage.inputTokens,
+        guessedOutputTokens: usage.estimatedUsage.outputTokens,
+        reportedCost: usage.reportedCost,
+        unavailableDays: usage.unavailableDates.length,
         loading: false,
         error: null
       });
     } catch (error) {
+      if (requestId !== usageRequestRef.current) return;
       setOpenAIUsage(prev => ({
         ...prev,
         loading: false,
         error: error instanceof Error ? error.message : 'Failed to fetch usage data'
       }));
+    } finally {
+      if (requestId === usageRequestRef.current) setUsageProgress(null);
     }
   };
 
-  // Load OpenAI usage on component mount and when date filter changes
-  useEffect(() => {
-    fetchOpenAIUsage();
-  }, []);
+  // Only worth showing when more than a day or two has to come from the API
+  const showUsageProgress = openAIUsage.loading && usageProgress !== null && usageProgress.total > 2;
+  const usageLoadingText = showUsageProgress && usageProgress
+    ? `Loading usage data... ${usageProgress.completed}/${usageProgress.total} days`
+    : 'Loading usage data...';
+
+  // OpenAI reports usage for the whole account, so a class's share comes from its recorded messages
+  const getClassUsagePeriodCost = () => {
+    if (!selectedStudentIds) return null;
+    if (isFilterActive && dateFilter.startDate && dateFilter.endDate) {
+      return getTokenUsageTotals({ startDate: dateFilter.startDate, endDate: dateFilter.endDate, studentIds: selectedStudentIds });
+    }
+    const monthStart = new Date().toISOString().slice(0, 8) + '01';
+    return getTokenUsageTotals({ startDate: monthStart, studentIds: selectedStudentIds });
+  };
+  const classUsagePeriodCost = getClassUsagePeriodCost();
 
-  // Refresh OpenAI usage when date filter changes
+  // Load OpenAI usage on mount and refresh it when date filter or model prices change
   useEffect(() => {
     fetchOpenAIUsage();
-  }, [isFilterActive, dateFilter.startDate, dateFilter.endDate]);
+  }, [isFilterActive, dateFilter.startDate, dateFilter.endDate, prices]);
 
   return (
     <Layout>
@@ -229,8 +324,11 @@ const Dashboard: React.FC = () => {
               margin: 0,
               fontSize: isMobile ? '1rem' : '1.1rem'
             }}>
-              Teacher Dashboard - {user?.email}
+              Teacher Dashboard - {user?.email}{selectedClass && ` - ${selectedClass.name}`}
             </p>
+            <div style={{ marginTop: '0.5rem' }}>
+              <LiveIndicator />
+            </div>
           </div>
 
           {/* Date Filter */}
@@ -363,6 +461,18 @@ const Dashboard: React.FC = () => {
         )}
       </header>
 
+      <SafetyAlerts isMobile={isMobile} />
+
+      <BudgetOverview
+        isMobile={isMobile}
+        reportedMonthCost={
+          // Without a date filter the usage card shows the current month, which is what the budget covers
+          !isFilterActive && openAIService.isConfigured() && !openAIUsage.loading && !openAIUsage.error
+            ? openAIUsage.reportedCost ?? openAIUsage.estimatedCost
+            : null
+        }
+      />
+
       {/* Stats Cards */}
       <div style={{
         display: 'grid',
@@ -435,6 +545,31 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
 
+        <div style={{
+          backgroundColor: 'white',
+          padding: isMobile ? '1rem' : '1.5rem',
+          borderRadius: '10px',
+          boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+          borderLeft: '4px solid #d69e2e'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <div>
+              <h3 style={{ color: '#d69e2e', fontSize: isMobile ? '1.5rem' : '2rem', margin: 0 }}>
+                {insights.tokensUsedThisWeek.toLocaleString()}
+              </h3>
+              <p style={{ color: '#666', margin: '0.5rem 0 0 0' }}>
+                {isFilterActive ? 'Tokens in Period' : 'Tokens This Week'}
+              </p>
+            </div>
+            <div style={{ fontSize: '2rem' }}>🪙</div>
+          </div>
+          <div style={{ fontSize: '0.875rem', color: '#4a5568', marginTop: '0.5rem' }}>
+            ${insights.costThisWeek.toFixed(4)} across student conversations
+            {insights.unpricedTokensThisWeek > 0 &&
+              ` (${insights.unpricedTokensThisWeek.toLocaleString()} tokens unpriced)`}
+          </div>
+        </div>
+
         <div style={{
           backgroundColor: 'white',
           padding: isMobile ? '1rem' : '1.5rem',
@@ -456,10 +591,31 @@ const Dashboard: React.FC = () => {
             <div style={{ fontSize: '2rem' }}>📥</div>
           </div>
           <div style={{ fontSize: '0.875rem', color: '#4a5568', marginTop: '0.5rem' }}>
-            {openAIUsage.loading ? 'Loading usage data...' :
+            {openAIUsage.loading ? usageLoadingText :
              openAIUsage.error ? openAIUsage.error :
-             `$${(openAIUsage.inputTokens * 0.0015 / 1000).toFixed(4)} cost • $0.0015/1K tokens`}
+             `$${openAIUsage.inputCost.toFixed(4)} cost at the rates in Settings`}
           </div>
+          {!openAIUsage.loading && !openAIUsage.error && openAIUsage.guessedInputTokens > 0 && (
+            <div style={{ fontSize: '0.75rem', color: '#718096', marginTop: '0.25rem' }}>
+              + ~{openAIUsage.guessedInputTokens.toLocaleString()} more estimated from request counts
+            </div>
+          )}
+          {showUsageProgress && usageProgress && (
+            <div style={{
+              height: '4px',
+              backgroundColor: '#e2e8f0',
+              borderRadius: '2px',
+              marginTop: '0.5rem',
+              overflow: 'hidden'
+            }}>
+              <div style={{
+                width: `${Math.round(usageProgress.completed / usageProgress.total * 100)}%`,
+                height: '100%',
+                backgroundColor: '#4c51bf',
+                transition: 'width 0.2s ease'
+              }} />
+            </div>
+          )}
         </div>
 
         <div style={{
@@ -483,10 +639,36 @@ const Dashboard: React.FC = () => {
             <div style={{ fontSize: '2rem' }}>📤</div>
           </div>
           <div style={{ fontSize: '0.875rem', color: '#4a5568', marginTop: '0.5rem' }}>
-            {openAIUsage.loading ? 'Loading usage data...' :
+            {openAIUsage.loading ? usageLoadingText :
              openAIUsage.error ? openAIUsage.error :
-             `$${(openAIUsage.outputTokens * 0.002 / 1000).toFixed(4)} cost • $0.002/1K tokens`}
+             `$${openAIUsage.outputCost.toFixed(4)} cost at the rates in Settings`}
           </div>
+          {!openAIUsage.loading && !openAIUsage.error && openAIUsage.guessedOutputTokens > 0 && (
+            <div style={{ fontSize: '0.75rem', color: '#718096', marginTop: '0.25rem' }}>
+              + ~{openAIUsage.guessedOutputTokens.toLocaleString()} more estimated from request counts
+            </div>
+          )}
+          {!openAIUsage.loading && !openAIUsage.error && openAIUsage.unpricedTokens > 0 && (
+            <div style={{ fontSize: '0.75rem', color: '#c05621', marginTop: '0.25rem' }}>
+              ⚠️ {openAIUsage.unpricedTokens.toLocaleString()} tokens from {openAIUsage.unpricedModels.join(', ')} are unpriced and left out of the costs. Add a rate in Settings to include them.
+            </div>
+          )}
+          {!openAIUsage.loading && !openAIUsage.error && openAIUsage.unavailableDays > 0 && (
+            <div style={{ fontSize: '0.75rem', color: '#c05621', marginTop: '0.25rem' }}>
+              ⚠️ {openAIUsage.unavailableDays} day{openAIUsage.unavailableDays === 1 ? '' : 's'} could not be loaded and {openAIUsage.unavailableDays === 1 ? 'is' : 'are'} left out. Refresh to try again.
+            </div>
+          )}
+          {!openAIUsage.loading && !openAIUsage.error && openAIUsage.reportedCost !== null && (
+            <div style={{ fontSize: '0.75rem', color: '#718096', marginTop: '0.25rem' }}>
+              OpenAI billed ${openAIUsage.reportedCost.toFixed(4)} for the whole organisation
+            </div>
+          )}
+          {selectedClass && classUsagePeriodCost !== null && (
+            <div style={{ fontSize: '0.75rem', color: '#718096', marginTop: '0.25rem' }}>
+              Usage cards cover the whole account. {selectedClass.name}'s conversations cost ${classUsagePeriodCost.cost.toFixed(4)} {isFilterActive ? 'in the period' : 'this month'}
+              {classUsagePeriodCost.unpricedTokens > 0 && `, plus ${classUsagePeriodCost.unpricedTokens.toLocaleString()} unpriced tokens`}.
+            </div>
+          )}
           <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
             {openAIService.isConfigured() && (
               <button
@@ -512,7 +694,7 @@ const Dashboard: React.FC = () => {
                     const response = await openAIService.createChatCompletion([
                       { role: 'user', content: 'Say hello in one word' }
                     ]);
-                    alert(`OpenAI Test: ${response.content}\nTokens: ${response.usage.totalTokens} (${response.usage.promptTokens} in + ${response.usage.completionTokens} out)\nCost: $${openAIService.calculateCost(response.usage).toFixed(4)}`);
+                    alert(`OpenAI Test: ${response.content}\nTokens: ${response.usage.totalTokens} (${response.usage.promptTokens} in + ${response.usage.completionTokens} out)\nCost: ${formatCost(calculateCost(response.usage, 'gpt-3.5-turbo'))}`);
                     // Refresh usage after test
                     setTimeout(fetchOpenAIUsage, 1000);
                   } catch (error) {
@@ -589,6 +771,13 @@ const Dashboard: React.FC = () => {
           )}
         </div>
 
+        <TopicBreakdown
+          startDate={topicPeriod.startDate}
+          endDate={topicPeriod.endDate}
+          studentIds={selectedStudentIds}
+          isMobile={isMobile}
+        />
+
         <div style={{
           backgroundColor: 'white',
           padding: isMobile ? '1rem' : '1.5rem',
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import Layout from '../components/Layout';
+import { useStudents } from '../contexts/StudentsContext';
+import { useMessages, Message } from '../contexts/MessagesContext';
+
+interface InboxEntry {
+  studentId: string;
+  studentName: string;
+  unreadCount: number;
+  latestUnreadAt: string;
+  // Only available when the message is among the most recent unread ones loaded for previews
+  latestUnread: Message | null;
+}
+
+const Inbox: React.FC = () => {
+  const { students } = useStudents();
+  const { insights, recentUnread, loading, markAllReadForStudent, markAllRead } = useMessages();
+  const [busyStudentId, setBusyStudentId] = useState<string | null>(null);
+  const [isMarkingAll, setIsMarkingAll] = useState(false);
+
+  // Responsive design state
+  const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1200);
+
+  useEffect(() => {
+    const handleResize = () => setWindowWidth(window.innerWidth);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const isMobile = windowWidth < 768;
+
+  // One entry per student with unread messages, most recent unread first
+  const entries: InboxEntry[] = students
+    .map(student => {
+      const unreadDays = insights.filter(insight => insight.studentId === student.id && insight.unreadCount > 0);
+      if (unreadDays.length === 0) return null;
+
+      const latestUnread = recentUnread.find(msg => msg.studentId === student.id) ?? null;
+      const latestUnreadDay = unreadDays.reduce((latest, insight) =>
+        insight.messageDate > latest ? insight.messageDate : latest, unreadDays[0].messageDate
+      );
+
+      return {
+        studentId: student.id,
+        studentName: `${student.firstName} ${student.lastName}`,
+        unreadCount: unreadDays.reduce((sum, insight) => sum + insight.unreadCount, 0),
+        latestUnreadAt: latestUnread ? latestUnread.createdAt : `${latestUnreadDay}T00:00:00Z`,
+        latestUnread
+      };
+    })
+    .filter((entry): entry is InboxEntry => entry !== null)
+    .sort((a, b) =>
+      new Date(b.latestUnreadAt).getTime() - new Date(a.latestUnreadAt).getTime()
+    );
+
+  const handleMarkStudentRead = async (studentId: string) => {
+    setBusyStudentId(studentId);
+    try {
+      await markAllReadForStudent(studentId);
+    } catch (error) {
+      alert('Failed to mark messages as read: ' + (error as Error).message);
+    } finally {
+      setBusyStudentId(null);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    setIsMarkingAll(true);
+    try {
+      await markAllRead();
+    } catch (error) {
+      alert('Failed to mark messages as read: ' + (error as Error).message);
+    } finally {
+      setIsMarkingAll(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div style={{
+        display: 'flex',
+        flexDirection: isMobile ? 'column' : 'row',
+        justifyContent: 'space-between',
+        alignItems: isMobile ? 'stretch' : 'center',
+        marginBottom: '2rem',
+        gap: isMobile ? '1rem' : '0'
+      }}>
+        <div>
+          <h1 style={{
+            color: '#333',
+            marginBottom: '0.5rem',
+            fontSize: isMobile ? '1.5rem' : '2rem'
+          }}>
+            Inbox
+          </h1>
+          <p style={{
+            color: '#666',
+            margin: 0,
+            fontSize: isMobile ? '1rem' : '1.1rem'
+          }}>
+            Conversations with messages you have not read yet
+          </p>
+        </div>
+        <button
+          onClick={handleMarkAllRead}
+          disabled={entries.length === 0 || isMarkingAll}
+          style={{
+            padding: isMobile ? '0.75rem' : '0.75rem 1.5rem',
+            backgroundColor: entries.length === 0 || isMarkingAll ? '#a0aec0' : '#667eea',
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            cursor: entries.length === 0 || isMarkingAll ? 'not-allowed' : 'pointer',
+            fontWeight: '500',
+            fontSize: '0.875rem'
+          }}
+        >
+          {isMarkingAll ? 'Marking...' : '✓ Mark all as read'}
+        </button>
+      </div>
+
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '10px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+        overflow: 'hidden'
+      }}>
+        <div style={{
+          padding: '1rem 1.5rem',
+          borderBottom: '1px solid #e2e8f0',
+          backgroundColor: '#f8f9fa'
+        }}>
+          <h3 style={{ margin: 0, color: '#333' }}>
+            Unread Conversations ({entries.length})
+          </h3>
+        </div>
+
+        {loading && entries.length === 0 ? (
+          <p style={{ padding: '1.5rem', margin: 0, color: '#718096', fontStyle: 'italic' }}>
+            Loading messages...
+          </p>
+        ) : entries.length === 0 ? (
+          <p style={{ padding: '1.5rem', margin: 0, color: '#718096', fontStyle: 'italic' }}>
+            🎉 You're all caught up
+          </p>
+        ) : (
+          entries.map((entry, index) => (
+            <div key={entry.studentId} style={{
+              display: 'flex',
+              flexDirection: isMobile ? 'column' : 'row',
+              justifyContent: 'space-between',
+              alignItems: isMobile ? 'stretch' : 'center',
+              gap: '0.75rem',
+              padding: '1rem 1.5rem',
+              borderBottom: index < entries.length - 1 ? '1px solid #e2e8f0' : 'none'
+            }}>
+              <div style={{ minWidth: 0, flex: 1 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
+                  <strong style={{ color: '#2d3748' }}>{entry.studentName}</strong>
+                  <span style={{
+                    backgroundColor: '#e53e3e',
+                    color: 'white',
+                    borderRadius: '12px',
+                    padding: '0.125rem 0.5rem',
+                    fontSize: '0.75rem',
+                    fontWeight: '600'
+                  }}>
+                    {entry.unreadCount} unread
+                  </span>
+                </div>
+                {entry.latestUnread && (
+                  <div style={{
+                    color: '#4a5568',
+                    fontSize: '0.875rem',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap'
+                  }}>
+                    {entry.latestUnread.inputContent || (entry.latestUnread.messageType === 'image' ? '🖼️ Photo' : '📎 File')}
+                  </div>
+                )}
+                <div style={{ color: '#a0aec0', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                  {entry.latestUnread
+                    ? new Date(entry.latestUnread.createdAt).toLocaleString()
+                    : new Date(entry.latestUnreadAt).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                </div>
+              </div>
+              <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                <Link
+                  to={`/students/${entry.studentId}/conversation`}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    backgroundColor: '#4299e1',
+                    color: 'white',
+                    borderRadius: '4px',
+                    fontSize: '0.875rem',
+                    textDecoration: 'none'
+                  }}
+                >
+                  Open
+                </Link>
+                <button
+                  onClick={() => handleMarkStudentRead(entry.studentId)}
+                  disabled={busyStudentId === entry.studentId}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    backgroundColor: '#e2e8f0',
+                    color: '#4a5568',
+                    border: 'none',
+                    borderRadius: '4px',
+                    fontSize: '0.875rem',
+                    cursor: busyStudentId === entry.studentId ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  {busyStudentId === entry.studentId ? 'Marking...' : 'Mark read'}
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Inbox;
\ No newline at end of file
@@ -0,0 +1,514 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Layout from '../components/Layout';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  openAIService,
+  ChatMessage,
+  CHAT_MODELS,
+  DEFAULT_TEMPERATURE,
+  DEFAULT_MAX_TOKENS
+} from '../services/openaiService';
+import {
+  playgroundService,
+  PlaygroundSession,
+  PlaygroundSettings,
+  PlaygroundTurn
+} from '../services/playgroundService';
+import { formatCost } from '../services/pricingRegistry';
+
+const DEFAULT_SETTINGS: PlaygroundSettings = {
+  model: CHAT_MODELS[0],
+  temperature: DEFAULT_TEMPERATURE,
+  maxTokens: DEFAULT_MAX_TOKENS,
+  systemPrompt: 'You are a helpful educational assistant. Keep responses brief and friendly.'
+};
+
+// Rough live estimate while a reply streams in; the exact count arrives with the final chunk
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const Playground: React.FC = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<PlaygroundSettings>(DEFAULT_SETTINGS);
+  const [turns, setTurns] = useState<PlaygroundTurn[]>([]);
+  const [input, setInput] = useState('');
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<PlaygroundSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [sessionName, setSessionName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  // Responsive design state
+  const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1200);
+
+  useEffect(() => {
+    const handleResize = () => setWindowWidth(window.innerWidth);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const isMobile = windowWidth < 768;
+  const isStreaming = streamingText !== null;
+
+  useEffect(() => {
+    if (!user) return;
+    playgroundService.listSessions(user.id)
+      .then(setSessions)
+      .catch(error => setError(error.message || 'Failed to load saved sessions'));
+  }, [user]);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [turns.length, streamingText]);
+
+  // Stop any reply still streaming when leaving the page
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const totals = turns.reduce(
+    (sum, turn) => ({
+      tokens: sum.tokens + (turn.usage?.totalTokens ?? 0),
+      cost: sum.cost + (turn.cost ?? 0),
+      unpricedTokens: sum.unpricedTokens + (turn.usage && turn.cost === undefined ? turn.usage.totalTokens : 0)
+    }),
+    { tokens: 0, cost: 0, unpricedTokens: 0 }
+  );
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = input.trim();
+    if (!content || isStreaming) return;
+
+    const history: PlaygroundTurn[] = [...turns, { role: 'user', content }];
+    const { model, temperature, maxTokens, systemPrompt } = settings;
+    const messages: ChatMessage[] = [
+      ...(systemPrompt.trim() ? [{ role: 'system' as const, content: systemPrompt.trim() }] : []),
+      ...history.map(turn => ({ role: turn.role, content: turn.content }))
+    ];
+
+    setTurns(history);
+    setInput('');
+    setError(null);
+    setStreamingText('');
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let partial = '';
+
+    try {
+      const response = await openAIService.streamChatCompletion(
+        messages,
+        model,
+        { temperature, maxTokens },
+        delta => {
+          partial += delta;
+          setStreamingText(partial);
+        },
+        controller.signal
+      );
+
+      setTurns(prev => [...prev, {
+        role: 'assistant',
+        content: response.content,
+        model,
+        usage: response.usage,
+        cost: openAIService.calculateCost(response.usage, model)
+      }]);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep what arrived before the stop; OpenAI does not report usage for cut-off replies
+        if (partial) setTurns(prev => [...prev, { role: 'assistant', content: partial, model }]);
+      } else {
+        setError((error as Error).message || 'Failed to get a reply');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingText(null);
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleNewSession = () => {
+    handleStop();
+    setTurns([]);
+    setActiveSessionId(null);
+    setSessionName('');
+    setError(null);
+  };
+
+  const handleLoadSession = (session: PlaygroundSession) => {
+    handleStop();
+    setSettings({
+      model: session.model,
+      temperature: session.temperature,
+      maxTokens: session.maxTokens,
+      systemPrompt: session.systemPrompt
+    });
+    setTurns(session.turns);
+    setActiveSessionId(session.id);
+    setSessionName(session.name);
+    setError(null);
+  };
+
+  const handleSaveSession = async () => {
+    if (!user || !sessionName.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await playgroundService.saveSession(user.id, {
+        ...settings,
+        id: activeSessionId ?? undefined,
+        name: sessionName.trim(),
+        turns
+      });
+      setActiveSessionId(saved.id);
+      setSessions(prev => [saved, ...prev.filter(session => session.id !== saved.id)]);
+    } catch (error) {
+      alert('Failed to save session: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteSession = async (session: PlaygroundSession) => {
+    if (!user || !window.confirm(`Delete the saved session "${session.name}"?`)) return;
+
+    try {
+      await playgroundService.deleteSession(user.id, session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      if (activeSessionId === session.id) {
+        setActiveSessionId(null);
+      }
+    } catch (error) {
+      alert('Failed to delete session: ' + (error as Error).message);
+    }
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '0.25rem',
+    fontSize: '0.875rem',
+    color: '#4a5568',
+    fontWeight: '500'
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    fontFamily: 'inherit'
+  };
+
+  const panelStyle: React.CSSProperties = {
+    backgroundColor: 'white',
+    padding: isMobile ? '1rem' : '1.5rem',
+    borderRadius: '10px',
+    boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: '#e2e8f0',
+    color: '#4a5568',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.75rem',
+    cursor: 'pointer'
+  };
+
+  return (
+    <Layout>
+      <div style={{ marginBottom: '2rem' }}>
+        <h1 style={{
+          color: '#333',
+          marginBottom: '0.5rem',
+          fontSize: isMobile ? '1.5rem' : '2rem'
+        }}>
+          Bot Playground
+        </h1>
+        <p style={{
+          color: '#666',
+          margin: 0,
+          fontSize: isMobile ? '1rem' : '1.1rem'
+        }}>
+          Try prompts and settings here before students see them. Nothing in the playground reaches students.
+        </p>
+      </div>
+
+      <div style={{
+        display: 'flex',
+        flexDirection: isMobile ? 'column' : 'row',
+        gap: '1.5rem',
+        alignItems: 'flex-start'
+      }}>
+        {/* Settings */}
+        <div style={{ ...panelStyle, width: isMobile ? '100%' : '320px', flexShrink: 0, boxSizing: 'border-box' }}>
+          <h3 style={{ color: '#333', marginTop: 0 }}>⚙️ Settings</h3>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>Model</label>
+            <select
+              value={settings.model}
+              onChange={(e) => setSettings(prev => ({ ...prev, model: e.target.value }))}
+              disabled={isStreaming}
+              style={inputStyle}
+            >
+              {CHAT_MODELS.map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>Temperature: {settings.temperature.toFixed(1)}</label>
+            <input
+              type="range"
+              min="0"
+              max="2"
+              step="0.1"
+              value={settings.temperature}
+              onChange={(e) => setSettings(prev => ({ ...prev, temperature: Number(e.target.value) }))}
+              disabled={isStreaming}
+              style={{ width: '100%' }}
+            />
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.625rem', color: '#a0aec0' }}>
+              <span>Focused</span>
+              <span>Creative</span>
+            </div>
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>Max tokens per reply</label>
+            <input
+              type="number"
+              min="1"
+              max="2000"
+              value={settings.maxTokens}
+              onChange={(e) => setSettings(prev => ({ ...prev, maxTokens: Math.max(1, Number(e.target.value) || 1) }))}
+              disabled={isStreaming}
+              style={inputStyle}
+            />
+          </div>
+
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={labelStyle}>System prompt</label>
+            <textarea
+              value={settings.systemPrompt}
+              onChange={(e) => setSettings(prev => ({ ...prev, systemPrompt: e.target.value }))}
+              disabled={isStreaming}
+              rows={6}
+              style={{ ...inputStyle, resize: 'vertical' }}
+            />
+          </div>
+
+          <h3 style={{ color: '#333' }}>💾 Sessions</h3>
+          <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.75rem' }}>
+            <input
+              type="text"
+              value={sessionName}
+              onChange={(e) => setSessionName(e.target.value)}
+              placeholder="Session name"
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              onClick={handleSaveSession}
+              disabled={isSaving || isStreaming || !sessionName.trim()}
+              style={{ ...smallButtonStyle, backgroundColor: '#667eea', color: 'white' }}
+            >
+              {isSaving ? 'Saving...' : activeSessionId ? 'Update' : 'Save'}
+            </button>
+          </div>
+          <button onClick={handleNewSession} style={{ ...smallButtonStyle, marginBottom: '0.75rem' }}>
+            + New session
+          </button>
+          {sessions.length === 0 ? (
+            <p style={{ color: '#718096', fontSize: '0.875rem', fontStyle: 'italic', margin: 0 }}>No saved sessions yet</p>
+          ) : (
+            sessions.map(session => (
+              <div key={session.id} style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '0.5rem',
+                padding: '0.5rem',
+                marginBottom: '0.25rem',
+                borderRadius: '6px',
+                backgroundColor: session.id === activeSessionId ? '#f0f4ff' : 'transparent'
+              }}>
+                <button
+                  onClick={() => handleLoadSession(session)}
+                  disabled={isStreaming}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    padding: 0,
+                    textAlign: 'left',
+                    cursor: 'pointer',
+                    minWidth: 0
+                  }}
+                >
+                  <div style={{ color: '#2d3748', fontSize: '0.875rem', fontWeight: '500' }}>{session.name}</div>
+                  <div style={{ color: '#a0aec0', fontSize: '0.75rem' }}>
+                    {session.model} • {session.turns.length} turns • {new Date(session.updatedAt).toLocaleDateString()}
+                  </div>
+                </button>
+                <button
+                  onClick={() => handleDeleteSession(session)}
+                  style={{ ...smallButtonStyle, backgroundColor: '#fed7d7', color: '#c53030' }}
+                >
+                  Delete
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Chat */}
+        <div style={{ ...panelStyle, flex: 1, width: isMobile ? '100%' : 'auto', boxSizing: 'border-box', minWidth: 0 }}>
+          <div style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: '1rem',
+            fontSize: '0.875rem',
+            color: '#4a5568'
+          }}>
+            <strong>{sessionName.trim() || 'Unsaved session'}</strong>
+            <span>
+              {totals.tokens.toLocaleString()} tokens • ${totals.cost.toFixed(4)}
+              {totals.unpricedTokens > 0 && ` (${totals.unpricedTokens.toLocaleString()} unpriced)`}
+            </span>
+          </div>
+
+          <div style={{
+            minHeight: '300px',
+            maxHeight: '60vh',
+            overflowY: 'auto',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '0.75rem',
+            marginBottom: '1rem'
+          }}>
+            {turns.length === 0 && !isStreaming && (
+              <p style={{ color: '#718096', fontStyle: 'italic', textAlign: 'center', marginTop: '4rem' }}>
+                Write a message as a student would to see how the assistant replies
+              </p>
+            )}
+            {turns.map((turn, index) => (
+              <div key={index} style={{ display: 'flex', justifyContent: turn.role === 'user' ? 'flex-start' : 'flex-end' }}>
+                <div style={{
+                  maxWidth: isMobile ? '90%' : '70%',
+                  padding: '0.75rem 1rem',
+                  backgroundColor: turn.role === 'user' ? '#edf2f7' : '#ebf8ff',
+                  color: '#2d3748',
+                  border: turn.role === 'user' ? 'none' : '1px solid #bee3f8',
+                  borderRadius: turn.role === 'user' ? '12px 12px 12px 2px' : '12px 12px 2px 12px',
+                  whiteSpace: 'pre-wrap',
+                  wordBreak: 'break-word'
+                }}>
+                  <div style={{ fontSize: '0.75rem', color: '#718096', marginBottom: '0.25rem' }}>
+                    {turn.role === 'user' ? '🧑‍🎓 Student' : `🤖 ${turn.model ?? 'Assistant'}`}
+                    {turn.usage &&
+                      ` • ${turn.usage.promptTokens} in + ${turn.usage.completionTokens} out • ${formatCost(turn.cost)}`}
+                    {turn.role === 'assistant' && !turn.usage && ' • stopped'}
+                  </div>
+                  {turn.content}
+                </div>
+              </div>
+            ))}
+            {isStreaming && (
+              <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                <div style={{
+                  maxWidth: isMobile ? '90%' : '70%',
+                  padding: '0.75rem 1rem',
+                  backgroundColor: '#ebf8ff',
+                  color: '#2d3748',
+                  border: '1px dashed #90cdf4',
+                  borderRadius: '12px 12px 2px 12px',
+                  whiteSpace: 'pre-wrap',
+                  wordBreak: 'break-word'
+                }}>
+                  <div style={{ fontSize: '0.75rem', color: '#718096', marginBottom: '0.25rem' }}>
+                    🤖 {settings.model} • ~{estimateTokens(streamingText ?? '')} tokens so far
+                  </div>
+                  {streamingText || '…'}
+                </div>
+              </div>
+            )}
+            <div ref={transcriptEndRef} />
+          </div>
+
+          {error && (
+            <div style={{
+              padding: '0.75rem',
+              marginBottom: '1rem',
+              backgroundColor: '#fed7d7',
+              color: '#c53030',
+              borderRadius: '4px',
+              fontSize: '0.875rem'
+            }}>
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSend} style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-end' }}>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSend(e);
+                }
+              }}
+              placeholder="Message the assistant… (Shift+Enter for a new line)"
+              rows={2}
+              style={{ ...inputStyle, flex: 1, resize: 'vertical' }}
+            />
+            {isStreaming ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                style={{
+                  padding: '0.75rem 1.25rem',
+                  backgroundColor: '#e53e3e',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer'
+                }}
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!input.trim()}
+                style={{
+                  padding: '0.75rem 1.25rem',
+                  backgroundColor: input.trim() ? '#667eea' : '#a0aec0',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: input.trim() ? 'pointer' : 'not-allowed'
+                }}
+              >
+                Send
+              </button>
+            )}
+          </form>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Playground;
\ No newline at end of file
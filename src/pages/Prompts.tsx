@@ -0,0 +1,391 @@
+import React, { useState, useEffect } from 'react';
+import Layout from '../components/Layout';
+import PromptPreview from '../components/PromptPreview';
+import PromptVersionHistory from '../components/PromptVersionHistory';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  promptTemplateService,
+  PromptTemplate,
+  PromptTemplateVersion,
+  PromptVariable,
+  STARTER_TEMPLATE_CONTENT,
+  getCustomVariableNames
+} from '../services/promptTemplateService';
+
+interface TemplateFormState {
+  name: string;
+  description: string;
+  content: string;
+  defaults: Record<string, string>;
+}
+
+const STARTER_FORM: TemplateFormState = {
+  name: '',
+  description: '',
+  content: STARTER_TEMPLATE_CONTENT,
+  defaults: { grade: '5th grade', subject: 'math' }
+};
+
+const toForm = (template: PromptTemplate): TemplateFormState => ({
+  name: template.name,
+  description: template.description,
+  content: template.content,
+  defaults: Object.fromEntries(template.variables.map(variable => [variable.name, variable.defaultValue]))
+});
+
+// Only variables still used in the content are kept
+const toVariables = (form: TemplateFormState): PromptVariable[] =>
+  getCustomVariableNames(form.content).map(name => ({ name, defaultValue: form.defaults[name] ?? '' }));
+
+const Prompts: React.FC = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateFormState>(STARTER_FORM);
+  const [note, setNote] = useState('');
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Responsive design state
+  const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1200);
+
+  useEffect(() => {
+    const handleResize = () => setWindowWidth(window.innerWidth);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const isMobile = windowWidth < 768;
+
+  useEffect(() => {
+    if (!user) return;
+    setLoading(true);
+    promptTemplateService.listTemplates(user.id)
+      .then(setTemplates)
+      .catch(error => setError(error.message || 'Failed to load prompt templates'))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const selected = templates.find(template => template.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (!user || !selectedId) {
+      setVersions([]);
+      return;
+    }
+    promptTemplateService.listVersions(user.id, selectedId)
+      .then(setVersions)
+      .catch(error => setError(error.message || 'Failed to load version history'));
+  }, [user, selectedId, selected?.currentVersion]);
+
+  const variables = toVariables(form);
+  const isValid = form.name.trim() !== '' && form.content.trim() !== '';
+
+  const selectTemplate = (template: PromptTemplate | null) => {
+    setSelectedId(template?.id ?? null);
+    setForm(template ? toForm(template) : STARTER_FORM);
+    setNote('');
+    setError(null);
+  };
+
+  const replaceTemplate = (template: PromptTemplate) => {
+    setTemplates(prev => [...prev.filter(t => t.id !== template.id), template].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedId(template.id);
+    setForm(toForm(template));
+    setNote('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !isValid) return;
+
+    const templateData = {
+      name: form.name.trim(),
+      description: form.description.trim(),
+      content: form.content,
+      variables
+    };
+
+    setIsSaving(true);
+    try {
+      replaceTemplate(selected
+        ? await promptTemplateService.saveTemplate(user.id, selected, templateData, note.trim() || null)
+        : await promptTemplateService.createTemplate(user.id, templateData));
+    } catch (error) {
+      alert('Failed to save prompt template: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRollback = async (version: PromptTemplateVersion) => {
+    if (!user || !selected) return;
+
+    try {
+      replaceTemplate(await promptTemplateService.rollbackTemplate(user.id, selected, version));
+    } catch (error) {
+      alert('Failed to roll back prompt template: ' + (error as Error).message);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user || !selected) return;
+    if (!window.confirm(`Delete "${selected.name}" and all of its versions?`)) return;
+
+    try {
+      await promptTemplateService.deleteTemplate(user.id, selected.id);
+      setTemplates(prev => prev.filter(template => template.id !== selected.id));
+      selectTemplate(null);
+    } catch (error) {
+      alert('Failed to delete prompt template: ' + (error as Error).message);
+    }
+  };
+
+  const cardStyle: React.CSSProperties = {
+    backgroundColor: 'white',
+    padding: isMobile ? '1rem' : '1.5rem',
+    borderRadius: '10px',
+    boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    minWidth: 0
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+    fontSize: '0.75rem',
+    color: '#4a5568'
+  };
+
+  const sectionTitleStyle: React.CSSProperties = {
+    margin: '0 0 1rem 0',
+    color: '#2d3748',
+    fontSize: '1.125rem'
+  };
+
+  return (
+    <Layout>
+      <div style={{ marginBottom: '2rem' }}>
+        <h1 style={{
+          color: '#333',
+          marginBottom: '0.5rem',
+          fontSize: isMobile ? '1.5rem' : '2rem'
+        }}>
+          Prompt Templates
+        </h1>
+        <p style={{
+          color: '#666',
+          margin: 0,
+          fontSize: isMobile ? '1rem' : '1.1rem'
+        }}>
+          Reusable system prompts with {'{{variables}}'}. Every save keeps the previous version.
+        </p>
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '0.75rem',
+          marginBottom: '1rem',
+          backgroundColor: '#fed7d7',
+          color: '#c53030',
+          borderRadius: '4px',
+          fontSize: '0.875rem'
+        }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr' : '260px 1fr',
+        gap: '1.5rem',
+        alignItems: 'start'
+      }}>
+        <div style={cardStyle}>
+          <button
+            type="button"
+            onClick={() => selectTemplate(null)}
+            style={{
+              width: '100%',
+              padding: '0.5rem 1rem',
+              marginBottom: '0.75rem',
+              backgroundColor: '#667eea',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            + New template
+          </button>
+          {loading ? (
+            <p style={{ margin: 0, color: '#718096', fontSize: '0.875rem' }}>Loading...</p>
+          ) : templates.length === 0 ? (
+            <p style={{ margin: 0, color: '#718096', fontSize: '0.875rem' }}>No templates yet.</p>
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+              {templates.map(template => (
+                <button
+                  key={template.id}
+                  type="button"
+                  onClick={() => selectTemplate(template)}
+                  style={{
+                    textAlign: 'left',
+                    padding: '0.5rem 0.75rem',
+                    backgroundColor: template.id === selectedId ? '#ebf4ff' : 'transparent',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  <div style={{ color: '#2d3748', fontSize: '0.875rem', fontWeight: '500' }}>{template.name}</div>
+                  <div style={{ color: '#718096', fontSize: '0.75rem' }}>v{template.currentVersion}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem', minWidth: 0 }}>
+          <form onSubmit={handleSubmit} style={{ ...cardStyle, display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            <h2 style={{ ...sectionTitleStyle, margin: 0 }}>
+              {selected ? `${selected.name} (v${selected.currentVersion})` : 'New template'}
+            </h2>
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: isMobile ? '1fr' : '1fr 2fr',
+              gap: '0.5rem'
+            }}>
+              <label style={labelStyle}>
+                Name
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. Homework tutor"
+                  style={inputStyle}
+                />
+              </label>
+              <label style={labelStyle}>
+                Description
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Optional"
+                  style={inputStyle}
+                />
+              </label>
+            </div>
+            <label style={labelStyle}>
+              Prompt
+              <textarea
+                value={form.content}
+                onChange={(e) => setForm(prev => ({ ...prev, content: e.target.value }))}
+                rows={8}
+                style={{ ...inputStyle, resize: 'vertical', fontFamily: 'monospace' }}
+              />
+            </label>
+
+            {variables.length > 0 && (
+              <div>
+                <div style={{ fontSize: '0.75rem', color: '#4a5568', marginBottom: '0.25rem' }}>Default values</div>
+                <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                  {variables.map(variable => (
+                    <label key={variable.name} style={{ ...labelStyle, flex: '1 1 140px' }}>
+                      {variable.name}
+                      <input
+                        type="text"
+                        value={variable.defaultValue}
+                        onChange={(e) => setForm(prev => ({
+                          ...prev,
+                          defaults: { ...prev.defaults, [variable.name]: e.target.value }
+                        }))}
+                        style={inputStyle}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {selected && (
+              <label style={labelStyle}>
+                What changed
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Optional note for the version history"
+                  style={inputStyle}
+                />
+              </label>
+            )}
+
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+              <button
+                type="submit"
+                disabled={isSaving || !isValid}
+                style={{
+                  padding: '0.5rem 1rem',
+                  backgroundColor: isSaving || !isValid ? '#a0aec0' : '#667eea',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: isSaving || !isValid ? 'not-allowed' : 'pointer',
+                  fontWeight: '500'
+                }}
+              >
+                {isSaving ? 'Saving...' : selected ? 'Save new version' : 'Create template'}
+              </button>
+              {selected && (
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    backgroundColor: '#fed7d7',
+                    color: '#c53030',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </form>
+
+          <div style={cardStyle}>
+            <h2 style={sectionTitleStyle}>Preview</h2>
+            <PromptPreview key={selectedId ?? 'new'} content={form.content} variables={variables} />
+          </div>
+
+          {selected && (
+            <div style={cardStyle}>
+              <h2 style={sectionTitleStyle}>Version history</h2>
+              <PromptVersionHistory
+                versions={versions}
+                currentVersion={selected.currentVersion}
+                onRollback={handleRollback}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Prompts;
\ No newline at end of file
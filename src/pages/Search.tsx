@@ -0,0 +1,363 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import Layout from '../components/Layout';
+import HighlightedText, { getSearchTerms } from '../components/HighlightedText';
+import { useStudents, Student } from '../contexts/StudentsContext';
+import { useMessages, Message, MessageSearchParams, MessageSearchCursor } from '../contexts/MessagesContext';
+import { useTopics } from '../contexts/TopicsContext';
+
+const Search: React.FC = () => {
+  const { students, getStudent, searchStudents } = useStudents();
+  const { searchMessages } = useMessages();
+  const { topics, getTopicPath, getDescendantIds } = useTopics();
+
+  // Responsive design state
+  const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1200);
+
+  useEffect(() => {
+    const handleResize = () => setWindowWidth(window.innerWidth);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const isMobile = windowWidth < 768;
+
+  const [filters, setFilters] = useState<MessageSearchParams>({
+    query: '',
+    studentId: '',
+    startDate: '',
+    endDate: '',
+    messageType: undefined
+  });
+  const [topicId, setTopicId] = useState('');
+  const [submittedFilters, setSubmittedFilters] = useState<MessageSearchParams | null>(null);
+  const [results, setResults] = useState<Message[]>([]);
+  const [nextCursor, setNextCursor] = useState<MessageSearchCursor | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [studentMatches, setStudentMatches] = useState<Student[]>([]);
+
+  const runSearch = async (params: MessageSearchParams, append: boolean) => {
+    setIsSearching(true);
+    setSearchError(null);
+
+    try {
+      const page = await searchMessages({
+        ...params,
+        studentId: params.studentId || undefined,
+        startDate: params.startDate || undefined,
+        endDate: params.endDate || undefined
+      });
+      setResults(prev => (append ? [...prev, ...page.results] : page.results));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      setSearchError((error as Error).message || 'Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!filters.query.trim()) return;
+
+    // Searching a subject also finds messages tagged with its subtopics
+    const params = { ...filters, topicIds: topicId ? getDescendantIds(topicId) : undefined };
+    setSubmittedFilters(params);
+    runSearch(params, false);
+
+    // Students whose name or phone matches are listed above the messages
+    searchStudents(filters.query)
+      .then(setStudentMatches)
+      .catch(() => setStudentMatches([]));
+  };
+
+  const handleLoadMore = () => {
+    if (!submittedFilters || !nextCursor) return;
+    runSearch({ ...submittedFilters, cursor: nextCursor }, true);
+  };
+
+  const terms = submittedFilters ? getSearchTerms(submittedFilters.query) : [];
+
+  const fieldStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    width: '100%'
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    fontSize: '0.875rem',
+    color: '#4a5568',
+    fontWeight: '500',
+    marginBottom: '0.25rem'
+  };
+
+  return (
+    <Layout>
+      <div style={{ marginBottom: '1.5rem' }}>
+        <h1 style={{
+          color: '#333',
+          marginBottom: '0.5rem',
+          fontSize: isMobile ? '1.5rem' : '2rem'
+        }}>
+          Search Conversations
+        </h1>
+        <p style={{ color: '#666', margin: 0, fontSize: isMobile ? '1rem' : '1.1rem' }}>
+          Find what students asked and what the assistant answered
+        </p>
+      </div>
+
+      <form onSubmit={handleSearch} style={{
+        backgroundColor: 'white',
+        padding: isMobile ? '1rem' : '1.5rem',
+        borderRadius: '10px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+        marginBottom: '1.5rem'
+      }}>
+        <div style={{ display: 'flex', gap: '0.75rem', marginBottom: '1rem' }}>
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+            placeholder='e.g. quadratic equations, "photosynthesis" -homework'
+            style={{ ...fieldStyle, padding: '0.75rem', fontSize: '1rem' }}
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={isSearching || !filters.query.trim()}
+            style={{
+              padding: '0.75rem 1.5rem',
+              backgroundColor: isSearching || !filters.query.trim() ? '#a0aec0' : '#4299e1',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: isSearching || !filters.query.trim() ? 'not-allowed' : 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            {isSearching && results.length === 0 ? 'Searching...' : 'Search'}
+          </button>
+        </div>
+
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: isMobile ? '1fr' : 'repeat(4, 1fr)',
+          gap: '0.75rem'
+        }}>
+          <div>
+            <label style={labelStyle}>Student</label>
+            <select
+              value={filters.studentId}
+              onChange={(e) => setFilters({ ...filters, studentId: e.target.value })}
+              style={fieldStyle}
+            >
+              <option value="">All students</option>
+              {students.map(student => (
+                <option key={student.id} value={student.id}>
+                  {student.firstName} {student.lastName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={labelStyle}>From</label>
+            <input
+              type="date"
+              value={filters.startDate}
+              onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+              style={fieldStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>To</label>
+            <input
+              type="date"
+              value={filters.endDate}
+              onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+              style={fieldStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Message type</label>
+            <select
+              value={filters.messageType || ''}
+              onChange={(e) => setFilters({
+                ...filters,
+                messageType: (e.target.value || undefined) as MessageSearchParams['messageType']
+              })}
+              style={fieldStyle}
+            >
+              <option value="">Any type</option>
+              <option value="text">Text</option>
+              <option value="image">Image</option>
+              <option value="file">File</option>
+            </select>
+          </div>
+          {topics.length > 0 && (
+            <div>
+              <label style={labelStyle}>Topic</label>
+              <select
+                value={topicId}
+                onChange={(e) => setTopicId(e.target.value)}
+                style={fieldStyle}
+              >
+                <option value="">Any topic</option>
+                {topics
+                  .map(topic => ({ id: topic.id, label: getTopicPath(topic.id).join(' > ') }))
+                  .sort((a, b) => a.label.localeCompare(b.label))
+                  .map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+              </select>
+            </div>
+          )}
+        </div>
+      </form>
+
+      {searchError && (
+        <div style={{
+          padding: '1rem',
+          backgroundColor: '#fed7d7',
+          border: '1px solid #fc8181',
+          borderRadius: '6px',
+          marginBottom: '1.5rem',
+          color: '#c53030'
+        }}>
+          ❌ {searchError}
+        </div>
+      )}
+
+      {submittedFilters && studentMatches.length > 0 && (
+        <div style={{
+          backgroundColor: 'white',
+          padding: '1rem 1.5rem',
+          borderRadius: '10px',
+          boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+          marginBottom: '1.5rem'
+        }}>
+          <h3 style={{ margin: '0 0 0.75rem 0', color: '#333' }}>Students</h3>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            {studentMatches.map(student => (
+              <Link
+                key={student.id}
+                to={`/students/${student.id}/conversation`}
+                style={{
+                  padding: '0.375rem 0.75rem',
+                  backgroundColor: '#ebf4ff',
+                  color: '#434190',
+                  borderRadius: '12px',
+                  fontSize: '0.875rem',
+                  textDecoration: 'none'
+                }}
+              >
+                <HighlightedText text={`${student.firstName} ${student.lastName}`} terms={terms} />
+                <span style={{ color: '#718096', marginLeft: '0.5rem', fontSize: '0.75rem' }}>{student.phone}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {submittedFilters && (
+        <div style={{
+          backgroundColor: 'white',
+          borderRadius: '10px',
+          boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+          overflow: 'hidden'
+        }}>
+          <div style={{
+            padding: '1rem 1.5rem',
+            borderBottom: '1px solid #e2e8f0',
+            backgroundColor: '#f8f9fa'
+          }}>
+            <h3 style={{ margin: 0, color: '#333' }}>
+              {results.length}{nextCursor ? '+' : ''} results for “{submittedFilters.query}”
+            </h3>
+          </div>
+
+          {results.length === 0 && !isSearching ? (
+            <p style={{ padding: '1.5rem', margin: 0, color: '#718096', fontStyle: 'italic' }}>
+              No messages match your search
+            </p>
+          ) : (
+            results.map((message, index) => {
+              const student = getStudent(message.studentId);
+
+              return (
+                <Link
+                  key={message.id}
+                  to={`/students/${message.studentId}/conversation?message=${message.id}&at=${encodeURIComponent(message.createdAt)}`}
+                  style={{
+                    display: 'block',
+                    padding: '1rem 1.5rem',
+                    borderBottom: index < results.length - 1 ? '1px solid #e2e8f0' : 'none',
+                    textDecoration: 'none',
+                    color: 'inherit'
+                  }}
+                >
+                  <div style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    gap: '0.5rem',
+                    fontSize: '0.75rem',
+                    color: '#718096',
+                    marginBottom: '0.5rem'
+                  }}>
+                    <strong style={{ color: '#2d3748', fontSize: '0.875rem' }}>
+                      {student ? `${student.firstName} ${student.lastName}` : 'Unknown student'}
+                    </strong>
+                    <span>
+                      {message.messageType !== 'text' && `${message.messageType} • `}
+                      {new Date(message.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <div style={{ fontSize: '0.875rem', color: '#2d3748', marginBottom: '0.25rem' }}>
+                    <span style={{ color: '#718096' }}>Student: </span>
+                    <HighlightedText text={message.inputContent} terms={terms} maxLength={240} />
+                  </div>
+                  {message.outputContent && (
+                    <div style={{ fontSize: '0.875rem', color: '#4a5568' }}>
+                      <span style={{ color: '#718096' }}>Assistant: </span>
+                      <HighlightedText text={message.outputContent} terms={terms} maxLength={240} />
+                    </div>
+                  )}
+                  {message.topicIds.length > 0 && (
+                    <div style={{ marginTop: '0.25rem', fontSize: '0.75rem', color: '#553c9a' }}>
+                      🏷️ {message.topicIds.map(id => getTopicPath(id).join(' > ')).filter(Boolean).join(', ')}
+                    </div>
+                  )}
+                </Link>
+              );
+            })
+          )}
+
+          {nextCursor && (
+            <div style={{ padding: '1rem', textAlign: 'center', borderTop: '1px solid #e2e8f0' }}>
+              <button
+                onClick={handleLoadMore}
+                disabled={isSearching}
+                style={{
+                  padding: '0.5rem 1.5rem',
+                  backgroundColor: isSearching ? '#a0aec0' : '#e2e8f0',
+                  color: '#4a5568',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: isSearching ? 'not-allowed' : 'pointer',
+                  fontWeight: '500'
+                }}
+              >
+                {isSearching ? 'Loading...' : 'Load more results'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </Layout>
+  );
+};
+
+export default Search;
\ No newline at end of file
@@ -0,0 +1,366 @@
+import React, { useState, useEffect } from 'react';
+import Layout from '../components/Layout';
+import ProviderSettings from '../components/ProviderSettings';
+import StudentFieldSettings from '../components/StudentFieldSettings';
+import { usePricing, ModelPriceData } from '../contexts/PricingContext';
+import { ModelPrice } from '../services/pricingRegistry';
+
+interface PriceFormState {
+  model: string;
+  inputPerMillion: string;
+  cachedInputPerMillion: string;
+  outputPerMillion: string;
+  effectiveFrom: string;
+}
+
+const emptyForm = (): PriceFormState => ({
+  model: '',
+  inputPerMillion: '',
+  cachedInputPerMillion: '',
+  outputPerMillion: '',
+  effectiveFrom: new Date().toISOString().split('T')[0]
+});
+
+const toForm = (price: ModelPrice): PriceFormState => ({
+  model: price.model,
+  inputPerMillion: String(price.inputPerMillion),
+  cachedInputPerMillion: price.cachedInputPerMillion === null ? '' : String(price.cachedInputPerMillion),
+  outputPerMillion: String(price.outputPerMillion),
+  effectiveFrom: price.effectiveFrom
+});
+
+// Returns null while any rate is missing or negative
+const toPriceData = (form: PriceFormState): ModelPriceData | null => {
+  const inputPerMillion = parseFloat(form.inputPerMillion);
+  const outputPerMillion = parseFloat(form.outputPerMillion);
+  const cachedInputPerMillion = form.cachedInputPerMillion.trim() === '' ? null : parseFloat(form.cachedInputPerMillion);
+
+  if (!form.model.trim() || !form.effectiveFrom) return null;
+  if (isNaN(inputPerMillion) || inputPerMillion < 0 || isNaN(outputPerMillion) || outputPerMillion < 0) return null;
+  if (cachedInputPerMillion !== null && (isNaN(cachedInputPerMillion) || cachedInputPerMillion < 0)) return null;
+
+  return {
+    model: form.model.trim(),
+    inputPerMillion,
+    outputPerMillion,
+    cachedInputPerMillion,
+    effectiveFrom: form.effectiveFrom
+  };
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `$${rate}`);
+
+const Settings: React.FC = () => {
+  const { prices, loading, error, addPrice, updatePrice, deletePrice } = usePricing();
+  const [form, setForm] = useState<PriceFormState>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Responsive design state
+  const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1200);
+
+  useEffect(() => {
+    const handleResize = () => setWindowWidth(window.innerWidth);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const isMobile = windowWidth < 768;
+
+  const priceData = toPriceData(form);
+  const families = Array.from(new Set(prices.map(price => price.model)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!priceData) return;
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await updatePrice(editingId, priceData);
+      } else {
+        await addPrice(priceData);
+      }
+      setEditingId(null);
+      setForm(emptyForm());
+    } catch (error) {
+      alert('Failed to save price: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (price: ModelPrice) => {
+    if (!price.id) return;
+    if (!window.confirm(`Delete the ${price.model} rate from ${price.effectiveFrom}? Usage from that day on will be costed at the previous rate.`)) return;
+
+    try {
+      await deletePrice(price.id);
+      if (editingId === price.id) {
+        setEditingId(null);
+        setForm(emptyForm());
+      }
+    } catch (error) {
+      alert('Failed to delete price: ' + (error as Error).message);
+    }
+  };
+
+  const startEditing = (price: ModelPrice) => {
+    setEditingId(price.id ?? null);
+    setForm(toForm(price));
+  };
+
+  // Start a new dated rate for a family, prefilled with its current one
+  const startNewRate = (price: ModelPrice) => {
+    setEditingId(null);
+    setForm({ ...toForm(price), effectiveFrom: new Date().toISOString().split('T')[0] });
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    minWidth: 0
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: '#e2e8f0',
+    color: '#4a5568',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.75rem',
+    cursor: 'pointer'
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '0.625rem 0.5rem',
+    borderBottom: '1px solid #edf2f7',
+    fontSize: '0.875rem',
+    color: '#2d3748',
+    whiteSpace: 'nowrap'
+  };
+
+  const headerCellStyle: React.CSSProperties = {
+    ...cellStyle,
+    color: '#718096',
+    fontWeight: '600',
+    fontSize: '0.75rem',
+    textTransform: 'uppercase',
+    textAlign: 'left'
+  };
+
+  return (
+    <Layout>
+      <div style={{ marginBottom: '2rem' }}>
+        <h1 style={{
+          color: '#333',
+          marginBottom: '0.5rem',
+          fontSize: isMobile ? '1.5rem' : '2rem'
+        }}>
+          Settings
+        </h1>
+        <p style={{
+          color: '#666',
+          margin: 0,
+          fontSize: isMobile ? '1rem' : '1.1rem'
+        }}>
+          The AI provider your requests go to, the details you keep for students, and the model prices used to estimate costs and check budgets.
+        </p>
+      </div>
+
+      <ProviderSettings isMobile={isMobile} />
+
+      <StudentFieldSettings isMobile={isMobile} />
+
+      {error && (
+        <div style={{
+          padding: '1rem',
+          marginBottom: '1rem',
+          backgroundColor: '#fed7d7',
+          color: '#c53030',
+          borderRadius: '4px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{
+        backgroundColor: 'white',
+        padding: isMobile ? '1rem' : '1.5rem',
+        borderRadius: '10px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+        marginBottom: '1.5rem'
+      }}>
+        <h2 style={{ margin: '0 0 0.5rem 0', color: '#2d3748', fontSize: '1.25rem' }}>
+          {editingId ? 'Edit rate' : 'Add a rate'}
+        </h2>
+        <p style={{ margin: '0 0 1rem 0', color: '#718096', fontSize: '0.875rem' }}>
+          USD per 1M tokens. A rate applies from its start date until the next rate for the same model,
+          so usage from before that date keeps the price it had at the time. The model name also covers
+          its dated versions, e.g. gpt-4o covers gpt-4o-2024-08-06.
+        </p>
+        <form onSubmit={handleSubmit} style={{
+          display: 'grid',
+          gridTemplateColumns: isMobile ? '1fr' : '2fr repeat(4, 1fr) auto',
+          gap: '0.5rem',
+          alignItems: 'end'
+        }}>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem', color: '#4a5568' }}>
+            Model
+            <input
+              type="text"
+              list="model-families"
+              value={form.model}
+              onChange={(e) => setForm(prev => ({ ...prev, model: e.target.value }))}
+              placeholder="e.g. gpt-4o-mini"
+              style={inputStyle}
+            />
+            <datalist id="model-families">
+              {families.map(family => <option key={family} value={family} />)}
+            </datalist>
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem', color: '#4a5568' }}>
+            Input
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={form.inputPerMillion}
+              onChange={(e) => setForm(prev => ({ ...prev, inputPerMillion: e.target.value }))}
+              style={inputStyle}
+            />
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem', color: '#4a5568' }}>
+            Cached input
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={form.cachedInputPerMillion}
+              onChange={(e) => setForm(prev => ({ ...prev, cachedInputPerMillion: e.target.value }))}
+              placeholder="Optional"
+              style={inputStyle}
+            />
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem', color: '#4a5568' }}>
+            Output
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={form.outputPerMillion}
+              onChange={(e) => setForm(prev => ({ ...prev, outputPerMillion: e.target.value }))}
+              style={inputStyle}
+            />
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem', color: '#4a5568' }}>
+            Effective from
+            <input
+              type="date"
+              value={form.effectiveFrom}
+              onChange={(e) => setForm(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+              style={inputStyle}
+            />
+          </label>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button
+              type="submit"
+              disabled={isSaving || !priceData}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: isSaving || !priceData ? '#a0aec0' : '#667eea',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: isSaving || !priceData ? 'not-allowed' : 'pointer',
+                fontWeight: '500'
+              }}
+            >
+              {isSaving ? 'Saving...' : editingId ? 'Save' : '+ Add'}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(emptyForm());
+                }}
+                style={{ ...smallButtonStyle, padding: '0.5rem 1rem', fontSize: '0.875rem' }}
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      <div style={{
+        backgroundColor: 'white',
+        padding: isMobile ? '1rem' : '1.5rem',
+        borderRadius: '10px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+        overflowX: 'auto'
+      }}>
+        <h2 style={{ margin: '0 0 1rem 0', color: '#2d3748', fontSize: '1.25rem' }}>Model prices</h2>
+        {loading && prices.every(price => price.isDefault) && (
+          <p style={{ margin: '0 0 1rem 0', color: '#718096', fontStyle: 'italic' }}>Loading your rates...</p>
+        )}
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={headerCellStyle}>Model</th>
+              <th style={headerCellStyle}>Input</th>
+              <th style={headerCellStyle}>Cached input</th>
+              <th style={headerCellStyle}>Output</th>
+              <th style={headerCellStyle}>Effective from</th>
+              <th style={headerCellStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {prices.map(price => (
+              <tr
+                key={price.id ?? `${price.model}-${price.effectiveFrom}`}
+                style={{ backgroundColor: price.id && price.id === editingId ? '#ebf4ff' : 'transparent' }}
+              >
+                <td style={cellStyle}>
+                  {price.model}
+                  <span style={{
+                    marginLeft: '0.5rem',
+                    padding: '0.125rem 0.375rem',
+                    borderRadius: '4px',
+                    fontSize: '0.7rem',
+                    backgroundColor: price.isDefault ? '#edf2f7' : '#c6f6d5',
+                    color: price.isDefault ? '#718096' : '#276749'
+                  }}>
+                    {price.isDefault ? 'Default' : 'Custom'}
+                  </span>
+                </td>
+                <td style={cellStyle}>{formatRate(price.inputPerMillion)}</td>
+                <td style={cellStyle}>{formatRate(price.cachedInputPerMillion)}</td>
+                <td style={cellStyle}>{formatRate(price.outputPerMillion)}</td>
+                <td style={cellStyle}>{price.effectiveFrom}</td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>
+                  <div style={{ display: 'inline-flex', gap: '0.5rem' }}>
+                    <button onClick={() => startNewRate(price)} style={smallButtonStyle}>New rate</button>
+                    {!price.isDefault && (
+                      <>
+                        <button onClick={() => startEditing(price)} style={smallButtonStyle}>Edit</button>
+                        <button onClick={() => handleDelete(price)} style={{ ...smallButtonStyle, backgroundColor: '#fed7d7', color: '#c53030' }}>
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Layout>
+  );
+};
+
+export default Settings;
\ No newline at end of file
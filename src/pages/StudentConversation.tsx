@@ -0,0 +1,616 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import Layout from '../components/Layout';
+import { useStudents } from '../contexts/StudentsContext';
+import { useMessages, Message, OutboundMessage } from '../contexts/MessagesContext';
+import { useTopics } from '../contexts/TopicsContext';
+import BotReply from '../components/BotReply';
+import MessageAttachment from '../components/MessageAttachment';
+import ConversationExportModal from '../components/ConversationExportModal';
+import StudentSummaryCard from '../components/StudentSummaryCard';
+import { SAFETY_CATEGORY_LABELS } from '../services/safetyClassifier';
+
+type ConversationItem =
+  | { kind: 'message'; createdAt: string; message: Message }
+  | { kind: 'outbound'; createdAt: string; outbound: OutboundMessage };
+
+interface ConversationGroup {
+  dateKey: string;
+  label: string;
+  items: ConversationItem[];
+}
+
+// Local calendar day (YYYY-MM-DD) so separators match what the teacher sees on screen
+const toDateKey = (isoDate: string) => {
+  const date = new Date(isoDate);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const groupItemsByDate = (items: ConversationItem[]): ConversationGroup[] => {
+  const groups: ConversationGroup[] = [];
+
+  [...items]
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .forEach(item => {
+      const dateKey = toDateKey(item.createdAt);
+      const lastGroup = groups[groups.length - 1];
+
+      if (lastGroup && lastGroup.dateKey === dateKey) {
+        lastGroup.items.push(item);
+      } else {
+        groups.push({
+          dateKey,
+          label: new Date(item.createdAt).toLocaleDateString(undefined, {
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric'
+          }),
+          items: [item]
+        });
+      }
+    });
+
+  return groups;
+};
+
+const outboundStatusLabel: Record<OutboundMessage['status'], string> = {
+  pending: '⏳ Queued for delivery',
+  sent: '✓ Delivered',
+  failed: '⚠️ Delivery failed'
+};
+
+const StudentConversation: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { getStudent, loading: studentsLoading } = useStudents();
+  const {
+    getMessagesForStudent,
+    getConversationState,
+    loadConversation,
+    loadOlderMessages,
+    getOutboundMessagesForStudent,
+    sendManualReply,
+    getStudentUsageStats,
+    getUnreadCount,
+    markAsRead,
+    markAllReadForStudent
+  } = useMessages();
+  const [jumpDate, setJumpDate] = useState('');
+  const [pendingJumpDate, setPendingJumpDate] = useState<string | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [topicFilter, setTopicFilter] = useState('');
+  const { topics, getTopicPath, getDescendantIds } = useTopics();
+  const [jumpError, setJumpError] = useState<string | null>(null);
+  const [isMarkingRead, setIsMarkingRead] = useState(false);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [isSendingReply, setIsSendingReply] = useState(false);
+  const groupRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const messageRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const [searchParams] = useSearchParams();
+  const focusedMessageId = searchParams.get('message');
+  const focusedMessageAt = searchParams.get('at');
+  const hasScrolledToFocus = useRef(false);
+
+  // Responsive design state
+  const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1200);
+
+  useEffect(() => {
+    const handleResize = () => setWindowWidth(window.innerWidth);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const isMobile = windowWidth < 768;
+
+  const student = id ? getStudent(id) : undefined;
+  const conversationState = id ? getConversationState(id) : { loaded: false, loading: false, hasMore: false };
+  const studentMessages = id ? getMessagesForStudent(id) : [];
+  // A subject filter also matches messages tagged with any of its subtopics
+  const topicFilterIds = topicFilter ? new Set(getDescendantIds(topicFilter)) : null;
+  const visibleMessages = topicFilterIds
+    ? studentMessages.filter(message => message.topicIds.some(topicId => topicFilterIds.has(topicId)))
+    : studentMessages;
+  const groups = id
+    ? groupItemsByDate([
+        ...visibleMessages.map(message => ({ kind: 'message' as const, createdAt: message.createdAt, message })),
+        ...(topicFilterIds ? [] : getOutboundMessagesForStudent(id)).map(outbound => ({ kind: 'outbound' as const, createdAt: outbound.createdAt, outbound }))
+      ])
+    : [];
+  const totalMessages = id ? getStudentUsageStats(id).totalMessages : 0;
+  const oldestLoadedDateKey = studentMessages[0] ? toDateKey(studentMessages[0].createdAt) : null;
+
+  useEffect(() => {
+    if (id) {
+      loadConversation(id);
+    }
+  }, [id]);
+
+  // Deep links from search land on the matching message, loading back to its day if needed
+  useEffect(() => {
+    if (!id || !focusedMessageId || hasScrolledToFocus.current || !conversationState.loaded) return;
+
+    const element = messageRefs.current[focusedMessageId];
+    if (element) {
+      hasScrolledToFocus.current = true;
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else if (focusedMessageAt && conversationState.hasMore) {
+      loadOlderMessages(id, toDateKey(focusedMessageAt));
+    }
+  }, [id, focusedMessageId, focusedMessageAt, studentMessages.length, conversationState.loaded]);
+
+  // Scroll once the messages for a requested day are on screen
+  useEffect(() => {
+    if (!pendingJumpDate || conversationState.loading) return;
+
+    setPendingJumpDate(null);
+
+    // Jump to the selected day, or the first day with messages after it
+    const target = groups.find(group => group.dateKey >= pendingJumpDate);
+    if (!target) {
+      setJumpError('No messages on or after this date');
+      return;
+    }
+
+    groupRefs.current[target.dateKey]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [pendingJumpDate, conversationState.loading, groups.length]);
+
+  const unreadCount = id ? getUnreadCount(id) : 0;
+
+  const handleMarkAllRead = async () => {
+    if (!id) return;
+
+    setIsMarkingRead(true);
+    try {
+      await markAllReadForStudent(id);
+    } catch (error) {
+      alert('Failed to mark messages as read: ' + (error as Error).message);
+    } finally {
+      setIsMarkingRead(false);
+    }
+  };
+
+  const handleSendReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id || !replyDraft.trim()) return;
+
+    // Thread the reply to the student's most recent message
+    const lastMessage = studentMessages[studentMessages.length - 1];
+
+    setIsSendingReply(true);
+    try {
+      await sendManualReply(id, replyDraft.trim(), lastMessage?.id);
+      setReplyDraft('');
+    } catch (error) {
+      alert('Failed to send reply: ' + (error as Error).message);
+    } finally {
+      setIsSendingReply(false);
+    }
+  };
+
+  const handleMarkMessageRead = async (messageId: string) => {
+    try {
+      await markAsRead(messageId);
+    } catch (error) {
+      alert('Failed to mark message as read: ' + (error as Error).message);
+    }
+  };
+
+  const handleJumpToDate = async (value: string) => {
+    setJumpDate(value);
+    setJumpError(null);
+    if (!value || !id) return;
+
+    // Older days are fetched on demand instead of keeping the whole history loaded
+    if (conversationState.hasMore && (!oldestLoadedDateKey || value < oldestLoadedDateKey)) {
+      await loadOlderMessages(id, value);
+    }
+    setPendingJumpDate(value);
+  };
+
+  const handleLoadOlder = () => {
+    if (id) {
+      loadOlderMessages(id);
+    }
+  };
+
+  if (!student) {
+    return (
+      <Layout>
+        <div style={{
+          backgroundColor: 'white',
+          padding: '2rem',
+          borderRadius: '10px',
+          boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+          textAlign: 'center'
+        }}>
+          {studentsLoading ? (
+            <p style={{ color: '#666', margin: 0 }}>Loading student...</p>
+          ) : (
+            <>
+              <p style={{ color: '#666', marginTop: 0 }}>Student not found.</p>
+              <Link to="/students" style={{ color: '#4299e1' }}>← Back to Students</Link>
+            </>
+          )}
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <header style={{
+        marginBottom: '1.5rem',
+        padding: '1.5rem',
+        backgroundColor: 'white',
+        borderRadius: '10px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+        position: 'sticky',
+        top: 0,
+        zIndex: 10
+      }}>
+        <div style={{
+          display: 'flex',
+          flexDirection: isMobile ? 'column' : 'row',
+          justifyContent: 'space-between',
+          alignItems: isMobile ? 'stretch' : 'center',
+          gap: '1rem'
+        }}>
+          <div>
+            <Link to="/students" style={{ color: '#4299e1', fontSize: '0.875rem', textDecoration: 'none' }}>
+              ← Back to Students
+            </Link>
+            <h1 style={{
+              color: '#333',
+              margin: '0.5rem 0',
+              fontSize: isMobile ? '1.5rem' : '2rem'
+            }}>
+              {student.firstName} {student.lastName}
+            </h1>
+            <p style={{ color: '#666', margin: 0 }}>
+              {student.phone} • {totalMessages} messages
+              {unreadCount > 0 && (
+                <span style={{ color: '#e53e3e', fontWeight: '500' }}> • {unreadCount} unread</span>
+              )}
+            </p>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginTop: '0.75rem' }}>
+              {unreadCount > 0 && (
+                <button
+                  onClick={handleMarkAllRead}
+                  disabled={isMarkingRead}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    backgroundColor: isMarkingRead ? '#a0aec0' : '#667eea',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    fontSize: '0.875rem',
+                    cursor: isMarkingRead ? 'not-allowed' : 'pointer',
+                    fontWeight: '500'
+                  }}
+                >
+                  {isMarkingRead ? 'Marking...' : '✓ Mark all as read'}
+                </button>
+              )}
+              <button
+                onClick={() => setShowExportModal(true)}
+                style={{
+                  padding: '0.5rem 1rem',
+                  backgroundColor: '#e2e8f0',
+                  color: '#4a5568',
+                  border: 'none',
+                  borderRadius: '4px',
+                  fontSize: '0.875rem',
+                  cursor: 'pointer',
+                  fontWeight: '500'
+                }}
+              >
+                📤 Export
+              </button>
+            </div>
+          </div>
+
+          <div style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '0.25rem',
+            padding: '0.75rem 1rem',
+            backgroundColor: '#f8f9fa',
+            borderRadius: '8px',
+            border: '1px solid #e2e8f0'
+          }}>
+            <label style={{ fontSize: '0.875rem', color: '#4a5568', fontWeight: '500' }}>
+              Jump to date:
+            </label>
+            <input
+              type="date"
+              value={jumpDate}
+              max={groups[groups.length - 1]?.dateKey}
+              onChange={(e) => handleJumpToDate(e.target.value)}
+              disabled={groups.length === 0 || conversationState.loading}
+              style={{
+                padding: '0.5rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                fontSize: '0.875rem'
+              }}
+            />
+            {jumpError && (
+              <span style={{ fontSize: '0.75rem', color: '#e53e3e' }}>{jumpError}</span>
+            )}
+            {topics.length > 0 && (
+              <>
+                <label style={{ fontSize: '0.875rem', color: '#4a5568', fontWeight: '500', marginTop: '0.5rem' }}>
+                  Topic:
+                </label>
+                <select
+                  value={topicFilter}
+                  onChange={(e) => setTopicFilter(e.target.value)}
+                  style={{
+                    padding: '0.5rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: '0.875rem'
+                  }}
+                >
+                  <option value="">All topics</option>
+                  {topics
+                    .map(topic => ({ id: topic.id, label: getTopicPath(topic.id).join(' > ') }))
+                    .sort((a, b) => a.label.localeCompare(b.label))
+                    .map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                </select>
+              </>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <StudentSummaryCard student={student} isMobile={isMobile} />
+
+      <div style={{
+        backgroundColor: 'white',
+        padding: isMobile ? '1rem' : '1.5rem',
+        borderRadius: '10px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+      }}>
+        {conversationState.hasMore && studentMessages.length > 0 && (
+          <div style={{ textAlign: 'center' }}>
+            <button
+              onClick={handleLoadOlder}
+              disabled={conversationState.loading}
+              style={{
+                padding: '0.5rem 1.25rem',
+                backgroundColor: conversationState.loading ? '#a0aec0' : '#e2e8f0',
+                color: '#4a5568',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '0.875rem',
+                cursor: conversationState.loading ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {conversationState.loading ? 'Loading...' : '↑ Load earlier messages'}
+            </button>
+          </div>
+        )}
+
+        {!conversationState.loaded && groups.length === 0 ? (
+          <p style={{ color: '#718096', fontStyle: 'italic', margin: 0 }}>Loading conversation...</p>
+        ) : groups.length === 0 ? (
+          <p style={{ color: '#718096', fontStyle: 'italic', margin: 0 }}>
+            {topicFilterIds
+              ? `No loaded messages are tagged with ${getTopicPath(topicFilter).join(' > ')}`
+              : `${student.firstName} has not sent any messages yet`}
+          </p>
+        ) : (
+          groups.map(group => (
+            <div
+              key={group.dateKey}
+              ref={(el) => { groupRefs.current[group.dateKey] = el; }}
+              style={{ scrollMarginTop: '10rem' }}
+            >
+              {/* Date separator */}
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.75rem',
+                margin: '1.5rem 0 1rem 0'
+              }}>
+                <div style={{ flex: 1, height: '1px', backgroundColor: '#e2e8f0' }}></div>
+                <span style={{
+                  fontSize: '0.75rem',
+                  color: '#718096',
+                  backgroundColor: '#f7fafc',
+                  padding: '0.25rem 0.75rem',
+                  borderRadius: '12px',
+                  border: '1px solid #e2e8f0'
+                }}>
+                  {group.label}
+                </span>
+                <div style={{ flex: 1, height: '1px', backgroundColor: '#e2e8f0' }}></div>
+              </div>
+
+              {group.items.map(item => item.kind === 'outbound' ? (
+                <div key={item.outbound.id} style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '1rem' }}>
+                  <div style={{
+                    maxWidth: isMobile ? '90%' : '70%',
+                    padding: '0.75rem 1rem',
+                    backgroundColor: '#f0fff4',
+                    color: '#2d3748',
+                    border: `1px solid ${item.outbound.status === 'failed' ? '#fc8181' : '#9ae6b4'}`,
+                    borderRadius: '12px 12px 2px 12px',
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: 'break-word'
+                  }}>
+                    <div style={{ fontSize: '0.75rem', color: '#718096', marginBottom: '0.25rem' }}>
+                      🧑‍🏫 Teacher reply • {new Date(item.outbound.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </div>
+                    {item.outbound.content}
+                    <div style={{
+                      fontSize: '0.625rem',
+                      marginTop: '0.25rem',
+                      color: item.outbound.status === 'failed' ? '#c53030' : '#718096'
+                    }}>
+                      {outboundStatusLabel[item.outbound.status]}
+                      {item.outbound.status === 'failed' && item.outbound.errorMessage && `: ${item.outbound.errorMessage}`}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div
+                  key={item.message.id}
+                  ref={(el) => { messageRefs.current[item.message.id] = el; }}
+                  style={{
+                    marginBottom: '1rem',
+                    scrollMarginTop: '10rem',
+                    ...(item.message.id === focusedMessageId && {
+                      margin: '0 -0.5rem 1rem -0.5rem',
+                      padding: '0.5rem',
+                      borderRadius: '12px',
+                      backgroundColor: '#fffff0',
+                      boxShadow: '0 0 0 2px #f6e05e'
+                    })
+                  }}
+                >
+                  {/* Student input */}
+                  <div style={{ display: 'flex', justifyContent: 'flex-start', marginBottom: '0.5rem' }}>
+                    <div style={{
+                      maxWidth: isMobile ? '90%' : '70%',
+                      padding: '0.75rem 1rem',
+                      backgroundColor: '#edf2f7',
+                      color: '#2d3748',
+                      borderLeft: item.message.isRead ? 'none' : '3px solid #e53e3e',
+                      borderRadius: '12px 12px 12px 2px',
+                      whiteSpace: 'pre-wrap',
+                      wordBreak: 'break-word'
+                    }}>
+                      <div style={{ fontSize: '0.75rem', color: '#718096', marginBottom: '0.25rem' }}>
+                        {student.firstName} • {new Date(item.message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {!item.message.isRead && (
+                          <button
+                            onClick={() => handleMarkMessageRead(item.message.id)}
+                            style={{
+                              marginLeft: '0.5rem',
+                              padding: '0 0.375rem',
+                              backgroundColor: 'transparent',
+                              color: '#e53e3e',
+                              border: '1px solid #feb2b2',
+                              borderRadius: '8px',
+                              fontSize: '0.625rem',
+                              cursor: 'pointer'
+                            }}
+                          >
+                            unread · mark read
+                          </button>
+                        )}
+                        {item.message.safetySeverity && (
+                          <span
+                            title={item.message.safetyAcknowledgedAt ? 'Acknowledged' : 'Not yet acknowledged'}
+                            style={{
+                              marginLeft: '0.5rem',
+                              padding: '0 0.375rem',
+                              backgroundColor: item.message.safetyAcknowledgedAt ? '#edf2f7' : '#fff5f5',
+                              color: item.message.safetyAcknowledgedAt ? '#718096' : '#c53030',
+                              border: `1px solid ${item.message.safetyAcknowledgedAt ? '#cbd5e0' : '#feb2b2'}`,
+                              borderRadius: '8px',
+                              fontSize: '0.625rem'
+                            }}
+                          >
+                            ⚠️ {item.message.safetyFlags.map(flag => SAFETY_CATEGORY_LABELS[flag.category]).join(', ')}
+                          </span>
+                        )}
+                      </div>
+                      {(item.message.attachment || item.message.messageType !== 'text') && (
+                        <div style={{ marginBottom: item.message.inputContent ? '0.5rem' : 0 }}>
+                          <MessageAttachment message={item.message} />
+                        </div>
+                      )}
+                      {item.message.inputContent}
+                      {item.message.topicIds.length > 0 && (
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem', marginTop: '0.5rem' }}>
+                          {item.message.topicIds.map(topicId => (
+                            <button
+                              key={topicId}
+                              onClick={() => setTopicFilter(topicId)}
+                              title="Show only messages with this topic"
+                              style={{
+                                padding: '0 0.5rem',
+                                backgroundColor: '#e9d8fd',
+                                color: '#553c9a',
+                                border: 'none',
+                                borderRadius: '8px',
+                                fontSize: '0.625rem',
+                                cursor: 'pointer'
+                              }}
+                            >
+                              🏷️ {getTopicPath(topicId).join(' > ') || 'Removed topic'}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  <BotReply message={item.message} isMobile={isMobile} />
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Manual reply */}
+      <form onSubmit={handleSendReply} style={{
+        marginTop: '1.5rem',
+        backgroundColor: 'white',
+        padding: isMobile ? '1rem' : '1.5rem',
+        borderRadius: '10px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+      }}>
+        <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500', color: '#2d3748' }}>
+          Reply to {student.firstName} as teacher
+        </label>
+        <textarea
+          value={replyDraft}
+          onChange={(e) => setReplyDraft(e.target.value)}
+          rows={3}
+          placeholder="Write a message that will be delivered to the student..."
+          style={{
+            width: '100%',
+            padding: '0.75rem',
+            border: '1px solid #d1d5db',
+            borderRadius: '6px',
+            fontSize: '0.875rem',
+            fontFamily: 'inherit',
+            resize: 'vertical'
+          }}
+        />
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '0.75rem' }}>
+          <button
+            type="submit"
+            disabled={isSendingReply || !replyDraft.trim()}
+            style={{
+              padding: '0.5rem 1.25rem',
+              backgroundColor: isSendingReply || !replyDraft.trim() ? '#a0aec0' : '#38a169',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: isSendingReply || !replyDraft.trim() ? 'not-allowed' : 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            {isSendingReply ? 'Sending...' : 'Send reply'}
+          </button>
+        </div>
+      </form>
+
+      {showExportModal && (
+        <ConversationExportModal student={student} onClose={() => setShowExportModal(false)} />
+      )}
+    </Layout>
+  );
+};
+
+export default StudentConversation;
\ No newline at end of file
@@ -1,12 +1,266 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import Layout from '../components/Layout';
-import { useStudents, CreateStudentData } from '../contexts/StudentsContext';
-import { useMessages } from '../contexts/MessagesContext';
+import StudentQuotaModal from '../components/StudentQuotaModal';
+import StudentProfileFields from '../components/StudentProfileFields';
+import { useStudents, Student, CreateStudentData, BulkActionResult } from '../contexts/StudentsContext';
+import { useMessages, StudentUsageStats } from '../contexts/MessagesContext';
+import { useBudgets } from '../contexts/BudgetsContext';
+import { useClasses } from '../contexts/ClassesContext';
+import { useStudentFields } from '../contexts/StudentFieldsContext';
 import { exportStudentsToCSV, parseCSVFile, generateSampleCSV, ImportResult } from '../utils/csvUtils';
+import {
+  FieldFilter,
+  emptyFieldFilter,
+  matchesFieldFilter,
+  matchesStudentSearch,
+  GRADE_LEVEL_FILTER_ID
+} from '../utils/studentFilters';
+
+const emptyStudentData: CreateStudentData = {
+  firstName: '',
+  lastName: '',
+  phone: '',
+  email: '',
+  gradeLevel: '',
+  dateOfBirth: '',
+  guardians: [],
+  notes: '',
+  customFields: {}
+};
+
+type SortKey = 'name' | 'phone' | 'status' | 'enrolled' | 'messages' | 'week' | 'last' | 'cost';
+type SortDirection = 'asc' | 'desc';
+
+const SORT_KEYS: SortKey[] = ['name', 'phone', 'status', 'enrolled', 'messages', 'week', 'last', 'cost'];
+// Usage columns read best busiest first; the rest alphabetically or oldest first
+const DEFAULT_DIRECTIONS: Record<SortKey, SortDirection> = {
+  name: 'asc',
+  phone: 'asc',
+  status: 'asc',
+  enrolled: 'desc',
+  messages: 'desc',
+  week: 'desc',
+  last: 'desc',
+  cost: 'desc'
+};
+const PAGE_SIZES = [25, 50, 100];
+
+const noUsage: StudentUsageStats = {
+  totalMessages: 0,
+  messagesThisWeek: 0,
+  lastMessageDate: null,
+  averageMessagesPerDay: 0,
+  totalTokens: 0,
+  totalCost: 0,
+  costThisWeek: 0,
+  unpricedTokens: 0
+};
+
+const compareNames = (a: Student, b: Student) =>
+  a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName);
+
+const formatBulkSummary = (action: string, result: BulkActionResult) => {
+  let message = `${action} completed!\n`;
+  message += `✅ Succeeded: ${result.success} students\n`;
+
+  if (result.failed > 0) {
+    message += `❌ Failed: ${result.failed} students\n`;
+    if (result.errors.length > 0) {
+      message += `\nErrors:\n${result.errors.slice(0, 5).join('\n')}`;
+      if (result.errors.length > 5) {
+        message += `\n... and ${result.errors.length - 5} more errors`;
+      }
+    }
+  }
+
+  return message;
+};
 
 const Students: React.FC = () => {
-  const { students, addStudent, updateStudent, deleteStudent, importStudents } = useStudents();
-  const { getStudentUsageStats } = useMessages();
+  const {
+    students: allStudents,
+    addStudent,
+    updateStudent,
+    deleteStudent,
+    importStudents,
+    setStudentsStatus,
+    deleteStudents,
+    addTagToStudents,
+    findStudentIds
+  } = useStudents();
+  const { getUsageStatsByStudent, getUnreadCount } = useMessages();
+  const { getStudentQuota } = useBudgets();
+  const { classes, selectedClass, isInSelectedClass, getClassesForStudent, setClassStudents, addStudentsToClass } = useClasses();
+  const { fields } = useStudentFields();
+  const students = allStudents.filter(student => isInSelectedClass(student.id));
+
+  // Search, filters, sort and page live in the query string so a view can be bookmarked or shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get('q') ?? '';
+  const statusFilter = searchParams.get('status') === 'active' || searchParams.get('status') === 'inactive'
+    ? searchParams.get('status') as Student['status']
+    : '';
+  const tagFilter = searchParams.get('tag') ?? '';
+  const sortKey = SORT_KEYS.find(key => key === searchParams.get('sort')) ?? 'name';
+  const sortDirection: SortDirection = searchParams.get('dir') === 'asc' || searchParams.get('dir') === 'desc'
+    ? searchParams.get('dir') as SortDirection
+    : DEFAULT_DIRECTIONS[sortKey];
+  const pageSize = PAGE_SIZES.find(size => String(size) === searchParams.get('size')) ?? PAGE_SIZES[0];
+  const fieldFilter: FieldFilter = {
+    fieldId: searchParams.get('field') ?? '',
+    value: searchParams.get('value') ?? '',
+    from: searchParams.get('from') ?? '',
+    to: searchParams.get('to') ?? ''
+  };
+
+  // Anything but a page change sends the table back to its first page
+  const updateParams = (changes: Record<string, string>, options: { replace?: boolean } = {}) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (!('page' in changes)) next.delete('page');
+      return next;
+    }, options);
+  };
+
+  const setFieldFilter = (filter: FieldFilter) => {
+    updateParams({ field: filter.fieldId, value: filter.value, from: filter.from, to: filter.to }, { replace: true });
+  };
+
+  const handleSort = (key: SortKey) => {
+    const direction = key === sortKey
+      ? (sortDirection === 'asc' ? 'desc' : 'asc')
+      : DEFAULT_DIRECTIONS[key];
+    updateParams({ sort: key === 'name' ? '' : key, dir: direction === DEFAULT_DIRECTIONS[key] ? '' : direction });
+  };
+
+  // Computed once per change in message data rather than once per row and column
+  const usageByStudent = useMemo(() => getUsageStatsByStudent(), [getUsageStatsByStudent]);
+  const getUsage = (studentId: string) => usageByStudent.get(studentId) ?? noUsage;
+
+  // The search runs on the server, again whenever the roster changes; until it answers,
+  // the loaded roster is matched the same way
+  const [serverMatches, setServerMatches] = useState<{ query: string; ids: Set<string> } | null>(null);
+
+  useEffect(() => {
+    if (!search.trim()) {
+      setServerMatches(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(() => {
+      findStudentIds(search)
+        .then(ids => {
+          if (!cancelled) setServerMatches({ query: search, ids });
+        })
+        .catch(error => console.error('Error searching students:', error));
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [search, allStudents]);
+
+  const matchesSearch = (student: Student) =>
+    serverMatches?.query === search ? serverMatches.ids.has(student.id) : matchesStudentSearch(student, search);
+
+  const allTags = Array.from(new Set(students.flatMap(student => student.tags))).sort((a, b) => a.localeCompare(b));
+
+  const visibleStudents = students.filter(student =>
+    (!statusFilter || student.status === statusFilter)
+    && (!tagFilter || student.tags.includes(tagFilter))
+    && matchesSearch(student)
+    && matchesFieldFilter(student, fieldFilter, fields)
+  );
+
+  const sortedStudents = [...visibleStudents].sort((a, b) => {
+    const usageA = getUsage(a.id);
+    const usageB = getUsage(b.id);
+
+    // Students who have never messaged stay at the bottom either way
+    if (sortKey === 'last' && (!usageA.lastMessageDate || !usageB.lastMessageDate)) {
+      return usageA.lastMessageDate ? -1 : usageB.lastMessageDate ? 1 : compareNames(a, b);
+    }
+
+    let result: number;
+    switch (sortKey) {
+      case 'phone':
+        result = a.phone.localeCompare(b.phone);
+        break;
+      case 'status':
+        result = a.status.localeCompare(b.status);
+        break;
+      case 'enrolled':
+        result = a.enrollmentDate.localeCompare(b.enrollmentDate);
+        break;
+      case 'messages':
+        result = usageA.totalMessages - usageB.totalMessages;
+        break;
+      case 'week':
+        result = usageA.messagesThisWeek - usageB.messagesThisWeek;
+        break;
+      case 'last':
+        result = usageA.lastMessageDate!.localeCompare(usageB.lastMessageDate!);
+        break;
+      case 'cost':
+        result = usageA.totalCost - usageB.totalCost;
+        break;
+      default:
+        result = compareNames(a, b);
+    }
+
+    return (sortDirection === 'asc' ? result : -result) || compareNames(a, b);
+  });
+
+  // Only one page of rows is rendered, however long the roster
+  const pageCount = Math.max(1, Math.ceil(sortedStudents.length / pageSize));
+  const page = Math.min(Math.max(1, Number(searchParams.get('page')) || 1), pageCount);
+  const pageStudents = sortedStudents.slice((page - 1) * pageSize, page * pageSize);
+
+  // Selection survives paging and sorting, but a different set of matches starts it afresh
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const matchKey = [search, statusFilter, tagFilter, fieldFilter.fieldId, fieldFilter.value, fieldFilter.from, fieldFilter.to, selectedClass?.id].join('|');
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [matchKey]);
+
+  const selectedStudents = sortedStudents.filter(student => selectedIds.has(student.id));
+  const isPageSelected = pageStudents.length > 0 && pageStudents.every(student => selectedIds.has(student.id));
+  const areAllMatchingSelected = sortedStudents.length > 0 && selectedStudents.length === sortedStudents.length;
+
+  const toggleSelected = (studentId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(studentId)) {
+        next.delete(studentId);
+      } else {
+        next.add(studentId);
+      }
+      return next;
+    });
+  };
+
+  const togglePageSelected = () => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      pageStudents.forEach(student => (isPageSelected ? next.delete(student.id) : next.add(student.id)));
+      return next;
+    });
+  };
+
+  const filteredField = fields.find(field => field.id === fieldFilter.fieldId);
+  const filterType = fieldFilter.fieldId === GRADE_LEVEL_FILTER_ID ? 'text' : filteredField?.type;
   const [isAddingStudent, setIsAddingStudent] = useState(false);
 
   // Responsive design state
@@ -22,29 +276,26 @@ const Students: React.FC = () => {
   const isSmallMobile = windowWidth < 640;
   const [editingStudentId, setEditingStudentId] = useState<string | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [quotaStudent, setQuotaStudent] = useState<Student | null>(null);
   const [importFile, setImportFile] = useState<File | null>(null);
   const [importPreview, setImportPreview] = useState<ImportResult | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const [newStudentData, setNewStudentData] = useState<CreateStudentData>({
-    firstName: '',
-    lastName: '',
-    phone: ''
-  });
+  const [newStudentData, setNewStudentData] = useState<CreateStudentData>(emptyStudentData);
 
-  const [editStudentData, setEditStudentData] = useState<CreateStudentData>({
-    firstName: '',
-    lastName: '',
-    phone: ''
-  });
+  const [editStudentData, setEditStudentData] = useState<CreateStudentData>(emptyStudentData);
 
   const handleAddStudent = async (e: React.FormEvent) => {
     e.preventDefault();
     if (newStudentData.firstName && newStudentData.lastName && newStudentData.phone) {
       try {
-        await addStudent(newStudentData);
-        setNewStudentData({ firstName: '', lastName: '', phone: '' });
+        const newStudent = await addStudent(newStudentData);
+        // Students added while a class is selected join it, so they stay in view
+        if (newStudent && selectedClass) {
+          await setClassStudents(selectedClass.id, [...selectedClass.studentIds, newStudent.id]);
+        }
+        setNewStudentData(emptyStudentData);
         setIsAddingStudent(false);
       } catch (error) {
         // Error is already handled in the context, just keep the modal open
@@ -71,7 +322,13 @@ const Students: React.FC = () => {
       setEditStudentData({
         firstName: student.firstName,
         lastName: student.lastName,
-        phone: student.phone
+        phone: student.phone,
+        email: student.email ?? '',
+        gradeLevel: student.gradeLevel ?? '',
+        dateOfBirth: student.dateOfBirth ?? '',
+        guardians: student.guardians,
+        notes: student.notes,
+        customFields: student.customFields
       });
       setEditingStudentId(studentId);
     }
@@ -82,17 +339,60 @@ const Students: React.FC = () => {
     if (editingStudentId && editStudentData.firstName && editStudentData.lastName && editStudentData.phone) {
       updateStudent(editingStudentId, editStudentData);
       setEditingStudentId(null);
-      setEditStudentData({ firstName: '', lastName: '', phone: '' });
+      setEditStudentData(emptyStudentData);
     }
   };
 
   const handleCancelEdit = () => {
     setEditingStudentId(null);
-    setEditStudentData({ firstName: '', lastName: '', phone: '' });
+    setEditStudentData(emptyStudentData);
+  };
+
+  // Every bulk action ends in one summary of what worked and what didn't
+  const runBulkAction = async (action: string, run: (ids: string[]) => Promise<BulkActionResult>) => {
+    setIsBulkRunning(true);
+    try {
+      const result = await run(selectedStudents.map(student => student.id));
+      alert(formatBulkSummary(action, result));
+      return result;
+    } catch (error) {
+      alert(`${action} failed: ` + (error as Error).message);
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  const handleBulkStatus = (status: Student['status']) => {
+    runBulkAction(status === 'active' ? 'Activate' : 'Deactivate', ids => setStudentsStatus(ids, status));
+  };
+
+  const handleBulkDelete = async () => {
+    if (!window.confirm(`Are you sure you want to delete ${selectedStudents.length} students?`)) return;
+
+    const result = await runBulkAction('Delete', deleteStudents);
+    if (result) setSelectedIds(new Set());
+  };
+
+  const handleBulkAssignClass = (classId: string) => {
+    const studentClass = classes.find(c => c.id === classId);
+    if (!studentClass) return;
+
+    runBulkAction(`Add to ${studentClass.name}`, ids => addStudentsToClass(classId, ids));
+  };
+
+  const handleBulkAddTag = () => {
+    const tag = window.prompt(`Tag to add to ${selectedStudents.length} students`)?.trim();
+    if (!tag) return;
+
+    runBulkAction(`Add tag "${tag}"`, ids => addTagToStudents(ids, tag));
+  };
+
+  const handleExportSelected = () => {
+    exportStudentsToCSV(selectedStudents, fields, selectedClass ? `${selectedClass.name} selected` : 'selected');
   };
 
   const handleExportStudents = () => {
-    exportStudentsToCSV(students);
+    exportStudentsToCSV(sortedStudents, fields, selectedClass?.name);
   };
 
   const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -107,7 +407,7 @@ const Students: React.FC = () => {
     setImportFile(file);
 
     try {
-      const result = await parseCSVFile(file);
+      const result = await parseCSVFile(file, fields);
       setImportPreview(result);
     } catch (error) {
       alert('Error parsing CSV file: ' + (error as Error).message);
@@ -154,6 +454,60 @@ const Students: React.FC = () => {
     }
   };
 
+  const filterInputStyle: React.CSSProperties = {
+    padding: '0.375rem 0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    backgroundColor: 'white'
+  };
+
+  const bulkButtonStyle = (backgroundColor: string, color: string): React.CSSProperties => ({
+    padding: '0.25rem 0.75rem',
+    backgroundColor: isBulkRunning ? '#e2e8f0' : backgroundColor,
+    color: isBulkRunning ? '#a0aec0' : color,
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: isBulkRunning ? 'not-allowed' : 'pointer'
+  });
+
+  const pageButtonStyle = (disabled: boolean): React.CSSProperties => ({
+    padding: '0.375rem 0.75rem',
+    backgroundColor: '#e2e8f0',
+    color: disabled ? '#a0aec0' : '#4a5568',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: disabled ? 'not-allowed' : 'pointer'
+  });
+
+  const renderSortButton = (label: string, key: SortKey) => (
+    <button
+      onClick={() => handleSort(key)}
+      style={{
+        padding: 0,
+        background: 'none',
+        border: 'none',
+        font: 'inherit',
+        color: key === sortKey ? '#2b6cb0' : 'inherit',
+        cursor: 'pointer',
+        whiteSpace: 'nowrap'
+      }}
+    >
+      {label}{key === sortKey && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+    </button>
+  );
+
+  const renderSortHeader = (label: string, key: SortKey) => (
+    <th
+      aria-sort={key === sortKey ? (sortDirection === 'asc' ? 'ascending' : 'descending') : undefined}
+      style={{ padding: '1rem', textAlign: 'left', borderBottom: '1px solid #e2e8f0' }}
+    >
+      {renderSortButton(label, key)}
+    </th>
+  );
+
   const handleCancelImport = () => {
     setShowImportModal(false);
     setImportFile(null);
@@ -214,15 +568,15 @@ const Students: React.FC = () => {
             </button>
             <button
               onClick={handleExportStudents}
-              disabled={students.length === 0}
+              disabled={visibleStudents.length === 0}
               style={{
                 padding: isMobile ? '0.75rem' : '0.75rem 1.5rem',
                 width: isSmallMobile ? '100%' : 'auto',
-                backgroundColor: students.length === 0 ? '#a0aec0' : '#ed8936',
+                backgroundColor: visibleStudents.length === 0 ? '#a0aec0' : '#ed8936',
                 color: 'white',
                 border: 'none',
                 borderRadius: '8px',
-                cursor: students.length === 0 ? 'not-allowed' : 'pointer',
+                cursor: visibleStudents.length === 0 ? 'not-allowed' : 'pointer',
                 fontWeight: '500',
                 fontSize: '0.875rem'
               }}
@@ -316,7 +670,7 @@ const Students: React.FC = () => {
                     />
                   </div>
                 </div>
-                <div style={{ marginBottom: '1.5rem' }}>
+                <div style={{ marginBottom: '1rem' }}>
                   <div>
                     <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
                       Phone Number
@@ -336,6 +690,11 @@ const Students: React.FC = () => {
                     />
                   </div>
                 </div>
+                <StudentProfileFields
+                  studentData={newStudentData}
+                  onChange={setNewStudentData}
+                  isSmallMobile={isSmallMobile}
+                />
                 <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center' }}>
                   <button
                     type="submit"
@@ -356,7 +715,7 @@ const Students: React.FC = () => {
                     type="button"
                     onClick={() => {
                       setIsAddingStudent(false);
-                      setNewStudentData({ firstName: '', lastName: '', phone: '' });
+                      setNewStudentData(emptyStudentData);
                     }}
                     style={{
                       padding: isMobile ? '0.75rem' : '0.75rem 1.5rem',
@@ -444,7 +803,7 @@ const Students: React.FC = () => {
                     />
                   </div>
                 </div>
-                <div style={{ marginBottom: '1.5rem' }}>
+                <div style={{ marginBottom: '1rem' }}>
                   <div>
                     <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
                       Phone Number
@@ -464,6 +823,11 @@ const Students: React.FC = () => {
                     />
                   </div>
                 </div>
+                <StudentProfileFields
+                  studentData={editStudentData}
+                  onChange={setEditStudentData}
+                  isSmallMobile={isSmallMobile}
+                />
                 <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center' }}>
                   <button
                     type="submit"
@@ -541,6 +905,10 @@ const Students: React.FC = () => {
                   <h4 style={{ margin: '0 0 0.5rem 0', color: '#2d3748' }}>CSV Format Requirements:</h4>
                   <ul style={{ margin: '0', paddingLeft: '1.5rem', color: '#4a5568' }}>
                     <li>Required columns: <strong>First Name</strong>, <strong>Last Name</strong>, <strong>Phone</strong></li>
+                    <li>
+                      Optional columns: Email, Grade Level, Date of Birth (YYYY-MM-DD), Notes, Guardian 1 Name, Guardian 1 Relationship,
+                      Guardian 1 Phone, Guardian 1 Email (and Guardian 2 …){fields.length > 0 && `, ${fields.map(field => field.name).join(', ')}`}
+                    </li>
                     <li>First row should contain column headers</li>
                     <li>Phone numbers can include spaces, dashes, and parentheses</li>
                   </ul>
@@ -698,32 +1066,292 @@ const Students: React.FC = () => {
           overflow: 'hidden'
         }}>
           <div style={{
+            display: 'flex',
+            flexDirection: isMobile ? 'column' : 'row',
+            justifyContent: 'space-between',
+            alignItems: isMobile ? 'stretch' : 'center',
+            gap: '0.75rem',
             padding: '1rem 1.5rem',
             borderBottom: '1px solid #e2e8f0',
             backgroundColor: '#f8f9fa'
           }}>
             <h3 style={{ margin: 0, color: '#333' }}>
-              All Students ({students.length})
+              {selectedClass ? selectedClass.name : 'All Students'} ({visibleStudents.length === students.length
+                ? students.length
+                : `${visibleStudents.length} of ${students.length}`})
             </h3>
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => updateParams({ q: e.target.value }, { replace: true })}
+                placeholder="Search name or phone..."
+                style={{ ...filterInputStyle, minWidth: isSmallMobile ? 0 : '200px' }}
+              />
+              <select
+                value={statusFilter}
+                onChange={(e) => updateParams({ status: e.target.value })}
+                style={filterInputStyle}
+              >
+                <option value="">All statuses</option>
+                <option value="active">Active</option>
+                <option value="inactive">Inactive</option>
+              </select>
+              {allTags.length > 0 && (
+                <select
+                  value={tagFilter}
+                  onChange={(e) => updateParams({ tag: e.target.value })}
+                  style={filterInputStyle}
+                >
+                  <option value="">All tags</option>
+                  {allTags.map(tag => (
+                    <option key={tag} value={tag}>{tag}</option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={fieldFilter.fieldId}
+                onChange={(e) => setFieldFilter({ ...emptyFieldFilter, fieldId: e.target.value })}
+                style={filterInputStyle}
+              >
+                <option value="">Filter by field...</option>
+                <option value={GRADE_LEVEL_FILTER_ID}>Grade Level</option>
+                {fields.map(field => (
+                  <option key={field.id} value={field.id}>{field.name}</option>
+                ))}
+              </select>
+              {filterType === 'text' && (
+                <input
+                  type="text"
+                  value={fieldFilter.value}
+                  onChange={(e) => setFieldFilter({ ...fieldFilter, value: e.target.value })}
+                  placeholder="Contains..."
+                  style={filterInputStyle}
+                />
+              )}
+              {filterType === 'select' && filteredField && (
+                <select
+                  value={fieldFilter.value}
+                  onChange={(e) => setFieldFilter({ ...fieldFilter, value: e.target.value })}
+                  style={filterInputStyle}
+                >
+                  <option value="">Any</option>
+                  {filteredField.options.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              )}
+              {(filterType === 'number' || filterType === 'date') && (
+                <>
+                  <input
+                    type={filterType}
+                    value={fieldFilter.from}
+                    onChange={(e) => setFieldFilter({ ...fieldFilter, from: e.target.value })}
+                    placeholder="From"
+                    style={{ ...filterInputStyle, width: filterType === 'number' ? '90px' : 'auto' }}
+                  />
+                  <input
+                    type={filterType}
+                    value={fieldFilter.to}
+                    onChange={(e) => setFieldFilter({ ...fieldFilter, to: e.target.value })}
+                    placeholder="To"
+                    style={{ ...filterInputStyle, width: filterType === 'number' ? '90px' : 'auto' }}
+                  />
+                </>
+              )}
+              {fieldFilter.fieldId && (
+                <button
+                  onClick={() => setFieldFilter(emptyFieldFilter)}
+                  style={{
+                    padding: '0.25rem 0.5rem',
+                    fontSize: '0.75rem',
+                    backgroundColor: '#e2e8f0',
+                    color: '#4a5568',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Clear
+                </button>
+              )}
+            </div>
           </div>
 
+          {selectedStudents.length > 0 && (
+            <div style={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              alignItems: 'center',
+              gap: '0.5rem',
+              padding: '0.75rem 1.5rem',
+              borderBottom: '1px solid #e2e8f0',
+              backgroundColor: '#ebf4ff',
+              fontSize: '0.875rem'
+            }}>
+              <strong style={{ color: '#2b6cb0', marginRight: '0.5rem' }}>{selectedStudents.length} selected</strong>
+              <button onClick={() => handleBulkStatus('active')} disabled={isBulkRunning} style={bulkButtonStyle('#c6f6d5', '#2f855a')}>
+                Activate
+              </button>
+              <button onClick={() => handleBulkStatus('inactive')} disabled={isBulkRunning} style={bulkButtonStyle('#fed7d7', '#c53030')}>
+                Deactivate
+              </button>
+              {classes.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => handleBulkAssignClass(e.target.value)}
+                  disabled={isBulkRunning}
+                  style={filterInputStyle}
+                >
+                  <option value="">Add to class...</option>
+                  {classes.map(studentClass => (
+                    <option key={studentClass.id} value={studentClass.id}>{studentClass.name}</option>
+                  ))}
+                </select>
+              )}
+              <button onClick={handleBulkAddTag} disabled={isBulkRunning} style={bulkButtonStyle('#e9d8fd', '#553c9a')}>
+                Add tag
+              </button>
+              <button onClick={handleExportSelected} disabled={isBulkRunning} style={bulkButtonStyle('#feebc8', '#c05621')}>
+                Export selected
+              </button>
+              <button onClick={handleBulkDelete} disabled={isBulkRunning} style={bulkButtonStyle('#fed7d7', '#c53030')}>
+                Delete
+              </button>
+              <button onClick={() => setSelectedIds(new Set())} disabled={isBulkRunning} style={bulkButtonStyle('#e2e8f0', '#4a5568')}>
+                Clear selection
+              </button>
+              {isBulkRunning && <span style={{ color: '#718096' }}>Working...</span>}
+              {isPageSelected && sortedStudents.length > pageStudents.length && (
+                <span style={{ flexBasis: '100%', color: '#4a5568' }}>
+                  {areAllMatchingSelected
+                    ? `All ${sortedStudents.length} matching students are selected.`
+                    : `All ${pageStudents.length} students on this page are selected.`}{' '}
+                  {!areAllMatchingSelected && (
+                    <button
+                      onClick={() => setSelectedIds(new Set(sortedStudents.map(student => student.id)))}
+                      style={{ padding: 0, background: 'none', border: 'none', color: '#2b6cb0', textDecoration: 'underline', cursor: 'pointer', font: 'inherit' }}
+                    >
+                      Select all {sortedStudents.length} matching students
+                    </button>
+                  )}
+                </span>
+              )}
+            </div>
+          )}
+
           <div style={{ overflowX: 'auto' }}>
             <table style={{ width: '100%', borderCollapse: 'collapse' }}>
               <thead>
                 <tr style={{ backgroundColor: '#f8f9fa' }}>
-                  <th style={{ padding: '1rem', textAlign: 'left', borderBottom: '1px solid #e2e8f0' }}>Name</th>
-                  <th style={{ padding: '1rem', textAlign: 'left', borderBottom: '1px solid #e2e8f0' }}>Phone</th>
-                  <th style={{ padding: '1rem', textAlign: 'left', borderBottom: '1px solid #e2e8f0' }}>Status</th>
-                  <th style={{ padding: '1rem', textAlign: 'left', borderBottom: '1px solid #e2e8f0' }}>Date of Start</th>
-                  <th style={{ padding: '1rem', textAlign: 'left', borderBottom: '1px solid #e2e8f0' }}>Chatbot Usage</th>
+                  <th style={{ padding: '1rem 0 1rem 1rem', width: '1rem', borderBottom: '1px solid #e2e8f0' }}>
+                    <input
+                      type="checkbox"
+                      checked={isPageSelected}
+                      onChange={togglePageSelected}
+                      disabled={pageStudents.length === 0}
+                      aria-label="Select all students on this page"
+                    />
+                  </th>
+                  {renderSortHeader('Name', 'name')}
+                  {renderSortHeader('Phone', 'phone')}
+                  {renderSortHeader('Status', 'status')}
+                  {renderSortHeader('Date of Start', 'enrolled')}
+                  <th style={{ padding: '1rem', textAlign: 'left', borderBottom: '1px solid #e2e8f0' }}>
+                    Chatbot Usage
+                    <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.25rem', fontWeight: 'normal', fontSize: '0.75rem' }}>
+                      {renderSortButton('Total', 'messages')}
+                      {renderSortButton('This week', 'week')}
+                      {renderSortButton('Last', 'last')}
+                    </div>
+                  </th>
+                  {renderSortHeader('Cost', 'cost')}
                   <th style={{ padding: '1rem', textAlign: 'left', borderBottom: '1px solid #e2e8f0' }}>Actions</th>
                 </tr>
               </thead>
               <tbody>
-                {students.map((student) => (
-                  <tr key={student.id} style={{ borderBottom: '1px solid #e2e8f0' }}>
+                {pageStudents.length === 0 && (
+                  <tr>
+                    <td colSpan={8} style={{ padding: '1.5rem', color: '#718096', fontStyle: 'italic', textAlign: 'center' }}>
+                      {students.length === 0 ? 'No students yet' : 'No students match these filters'}
+                    </td>
+                  </tr>
+                )}
+                {pageStudents.map((student) => (
+                  <tr key={student.id} style={{
+                    borderBottom: '1px solid #e2e8f0',
+                    backgroundColor: selectedIds.has(student.id) ? '#f7fbff' : undefined
+                  }}>
+                    <td style={{ padding: '1rem 0 1rem 1rem' }}>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(student.id)}
+                        onChange={() => toggleSelected(student.id)}
+                        aria-label={`Select ${student.firstName} ${student.lastName}`}
+                      />
+                    </td>
                     <td style={{ padding: '1rem' }}>
-                      <strong>{student.firstName} {student.lastName}</strong>
+                      <Link
+                        to={`/students/${student.id}/conversation`}
+                        style={{ color: '#2d3748', textDecoration: 'none' }}
+                      >
+                        <strong>{student.firstName} {student.lastName}</strong>
+                      </Link>
+                      {student.gradeLevel && (
+                        <div style={{ fontSize: '0.75rem', color: '#718096' }}>{student.gradeLevel}</div>
+                      )}
+                      {getUnreadCount(student.id) > 0 && (
+                        <span style={{
+                          marginLeft: '0.5rem',
+                          padding: '0.125rem 0.5rem',
+                          borderRadius: '12px',
+                          backgroundColor: '#e53e3e',
+                          color: 'white',
+                          fontSize: '0.625rem',
+                          fontWeight: '600'
+                        }}>
+                          {getUnreadCount(student.id)} unread
+                        </span>
+                      )}
+                      {getStudentQuota(student.id)?.quotaExceeded && (
+                        <span style={{
+                          marginLeft: '0.5rem',
+                          padding: '0.125rem 0.5rem',
+                          borderRadius: '12px',
+                          backgroundColor: '#feebc8',
+                          color: '#c05621',
+                          fontSize: '0.625rem',
+                          fontWeight: '600'
+                        }}>
+                          Quota reached
+                        </span>
+                      )}
+                      {(getClassesForStudent(student.id).length > 0 || student.tags.length > 0) && (
+                        <div style={{ marginTop: '0.25rem', display: 'flex', gap: '0.25rem', flexWrap: 'wrap' }}>
+                          {getClassesForStudent(student.id).map(studentClass => (
+                            <span key={studentClass.id} style={{
+                              padding: '0.125rem 0.5rem',
+                              borderRadius: '12px',
+                              backgroundColor: '#ebf4ff',
+                              color: '#434190',
+                              fontSize: '0.625rem'
+                            }}>
+                              {studentClass.name}
+                            </span>
+                          ))}
+                          {student.tags.map(tag => (
+                            <span key={tag} style={{
+                              padding: '0.125rem 0.5rem',
+                              borderRadius: '12px',
+                              backgroundColor: '#edf2f7',
+                              color: '#4a5568',
+                              fontSize: '0.625rem'
+                            }}>
+                              #{tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </td>
                     <td style={{ padding: '1rem', color: '#666' }}>{student.phone}</td>
                     <td style={{ padding: '1rem' }}>
@@ -741,7 +1369,7 @@ const Students: React.FC = () => {
                     <td style={{ padding: '1rem', color: '#666' }}>{student.enrollmentDate}</td>
                     <td style={{ padding: '1rem' }}>
                       {(() => {
-                        const stats = getStudentUsageStats(student.id);
+                        const stats = getUsage(student.id);
 
                         return (
                           <div style={{ fontSize: '0.875rem' }}>
@@ -789,15 +1417,57 @@ const Students: React.FC = () => {
                                 color: '#a0aec0',
                                 marginTop: '0.25rem'
                               }}>
-                                Last: {new Date(stats.lastMessageDate).toLocaleDateString()}
+                                Last: {new Date(stats.lastMessageDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}
                               </div>
                             )}
                           </div>
                         );
                       })()}
                     </td>
+                    <td style={{ padding: '1rem' }}>
+                      {(() => {
+                        const stats = getUsage(student.id);
+
+                        return (
+                          <div style={{ fontSize: '0.875rem' }}>
+                            <div style={{ color: '#2d3748', fontWeight: '500' }}>
+                              ${stats.totalCost.toFixed(4)}
+                            </div>
+                            <div style={{
+                              fontSize: '0.75rem',
+                              color: '#718096',
+                              marginTop: '0.25rem'
+                            }}>
+                              ${stats.costThisWeek.toFixed(4)} this week
+                            </div>
+                            <div style={{
+                              fontSize: '0.625rem',
+                              color: '#a0aec0',
+                              marginTop: '0.25rem'
+                            }}>
+                              {stats.totalTokens.toLocaleString()} tokens
+                              {stats.unpricedTokens > 0 && ` (${stats.unpricedTokens.toLocaleString()} unpriced)`}
+                            </div>
+                          </div>
+                        );
+                      })()}
+                    </td>
                     <td style={{ padding: '1rem' }}>
                       <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                        <Link
+                          to={`/students/${student.id}/conversation`}
+                          style={{
+                            padding: '0.25rem 0.5rem',
+                            fontSize: '0.75rem',
+                            backgroundColor: '#e9d8fd',
+                            color: '#553c9a',
+                            border: 'none',
+                            borderRadius: '4px',
+                            textDecoration: 'none'
+                          }}
+                        >
+                          Conversation
+                        </Link>
                         <button
                           onClick={() => handleEditStudent(student.id)}
                           style={{
@@ -812,6 +1482,20 @@ const Students: React.FC = () => {
                         >
                           Edit
                         </button>
+                        <button
+                          onClick={() => setQuotaStudent(student)}
+                          style={{
+                            padding: '0.25rem 0.5rem',
+                            fontSize: '0.75rem',
+                            backgroundColor: '#feebc8',
+                            color: '#c05621',
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: 'pointer'
+                          }}
+                        >
+                          Quota
+                        </button>
                         <button
                           onClick={() => handleStatusToggle(student.id, student.status)}
                           style={{
@@ -847,8 +1531,56 @@ const Students: React.FC = () => {
               </tbody>
             </table>
           </div>
+
+          {sortedStudents.length > 0 && (
+            <div style={{
+              display: 'flex',
+              flexDirection: isSmallMobile ? 'column' : 'row',
+              justifyContent: 'space-between',
+              alignItems: isSmallMobile ? 'stretch' : 'center',
+              gap: '0.75rem',
+              padding: '0.75rem 1.5rem',
+              borderTop: '1px solid #e2e8f0',
+              fontSize: '0.875rem',
+              color: '#4a5568'
+            }}>
+              <span>
+                Showing {(page - 1) * pageSize + 1}–{Math.min(page * pageSize, sortedStudents.length)} of {sortedStudents.length}
+              </span>
+              <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <select
+                  value={pageSize}
+                  onChange={(e) => updateParams({ size: e.target.value === String(PAGE_SIZES[0]) ? '' : e.target.value })}
+                  style={filterInputStyle}
+                >
+                  {PAGE_SIZES.map(size => (
+                    <option key={size} value={size}>{size} per page</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => updateParams({ page: page - 1 > 1 ? String(page - 1) : '' })}
+                  disabled={page <= 1}
+                  style={pageButtonStyle(page <= 1)}
+                >
+                  ‹ Prev
+                </button>
+                <span>Page {page} of {pageCount}</span>
+                <button
+                  onClick={() => updateParams({ page: String(page + 1) })}
+                  disabled={page >= pageCount}
+                  style={pageButtonStyle(page >= pageCount)}
+                >
+                  Next ›
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
+        {quotaStudent && (
+          <StudentQuotaModal student={quotaStudent} onClose={() => setQuotaStudent(null)} />
+        )}
+
       </div>
     </Layout>
   );
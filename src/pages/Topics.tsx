@@ -0,0 +1,342 @@
+import React, { useState, useEffect } from 'react';
+import Layout from '../components/Layout';
+import { useTopics, Topic } from '../contexts/TopicsContext';
+
+interface TopicFormState {
+  name: string;
+  keywords: string;
+}
+
+const emptyForm: TopicFormState = { name: '', keywords: '' };
+
+const parseKeywords = (value: string) =>
+  value.split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+
+const Topics: React.FC = () => {
+  const {
+    topics,
+    topicInsights,
+    loading,
+    error,
+    addTopic,
+    updateTopic,
+    deleteTopic,
+    addStarterTopics,
+    getDescendantIds
+  } = useTopics();
+  const [newSubject, setNewSubject] = useState<TopicFormState>(emptyForm);
+  // Either a topic being edited or the parent a new subtopic is being added under
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [addingUnderId, setAddingUnderId] = useState<string | null>(null);
+  const [form, setForm] = useState<TopicFormState>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Responsive design state
+  const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1200);
+
+  useEffect(() => {
+    const handleResize = () => setWindowWidth(window.innerWidth);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const isMobile = windowWidth < 768;
+
+  // Messages tagged in the last 30 days, including everything tagged under subtopics
+  const thirtyDaysAgo = new Date();
+  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+  const sinceDate = thirtyDaysAgo.toISOString().split('T')[0];
+  const getRecentCount = (topicId: string) => {
+    const ids = new Set(getDescendantIds(topicId));
+    return topicInsights
+      .filter(insight => ids.has(insight.topicId) && insight.messageDate >= sinceDate)
+      .reduce((sum, insight) => sum + insight.messageCount, 0);
+  };
+
+  const runSave = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      setEditingId(null);
+      setAddingUnderId(null);
+      setForm(emptyForm);
+    } catch (error) {
+      alert('Failed to save topic: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddSubject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSubject.name.trim()) return;
+
+    await runSave(() => addTopic({ name: newSubject.name.trim(), keywords: parseKeywords(newSubject.keywords) }));
+    setNewSubject(emptyForm);
+  };
+
+  const handleSubmitNode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    const topicData = { name: form.name.trim(), keywords: parseKeywords(form.keywords) };
+    if (editingId) {
+      runSave(() => updateTopic(editingId, topicData));
+    } else if (addingUnderId) {
+      runSave(() => addTopic({ ...topicData, parentId: addingUnderId }));
+    }
+  };
+
+  const handleDelete = async (topic: Topic) => {
+    const subtopicCount = getDescendantIds(topic.id).length - 1;
+    const warning = subtopicCount > 0
+      ? `Delete "${topic.name}" and its ${subtopicCount} subtopic(s)? Messages will lose these tags.`
+      : `Delete "${topic.name}"? Messages will lose this tag.`;
+    if (!window.confirm(warning)) return;
+
+    try {
+      await deleteTopic(topic.id);
+    } catch (error) {
+      alert('Failed to delete topic: ' + (error as Error).message);
+    }
+  };
+
+  const handleAddStarterTopics = async () => {
+    setIsSaving(true);
+    try {
+      await addStarterTopics();
+    } catch (error) {
+      alert('Failed to add starter topics: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEditing = (topic: Topic) => {
+    setAddingUnderId(null);
+    setEditingId(topic.id);
+    setForm({ name: topic.name, keywords: topic.keywords.join(', ') });
+  };
+
+  const startAdding = (parentId: string) => {
+    setEditingId(null);
+    setAddingUnderId(parentId);
+    setForm(emptyForm);
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '0.875rem'
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: '#e2e8f0',
+    color: '#4a5568',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.75rem',
+    cursor: 'pointer'
+  };
+
+  const renderNodeForm = (depth: number) => (
+    <form onSubmit={handleSubmitNode} style={{
+      display: 'flex',
+      flexDirection: isMobile ? 'column' : 'row',
+      gap: '0.5rem',
+      padding: '0.5rem 0',
+      paddingLeft: `${depth * 1.5}rem`
+    }}>
+      <input
+        type="text"
+        value={form.name}
+        onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+        placeholder="Topic name"
+        autoFocus
+        style={{ ...inputStyle, flex: 1 }}
+      />
+      <input
+        type="text"
+        value={form.keywords}
+        onChange={(e) => setForm(prev => ({ ...prev, keywords: e.target.value }))}
+        placeholder="Keywords, comma separated"
+        style={{ ...inputStyle, flex: 2 }}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button type="submit" disabled={isSaving || !form.name.trim()} style={{ ...smallButtonStyle, backgroundColor: '#667eea', color: 'white' }}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setEditingId(null);
+            setAddingUnderId(null);
+          }}
+          style={smallButtonStyle}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderTopic = (topic: Topic, depth: number): React.ReactNode => {
+    const children = topics.filter(child => child.parentId === topic.id);
+    const recentCount = getRecentCount(topic.id);
+
+    return (
+      <div key={topic.id}>
+        {editingId === topic.id ? renderNodeForm(depth) : (
+          <div style={{
+            display: 'flex',
+            flexDirection: isMobile ? 'column' : 'row',
+            justifyContent: 'space-between',
+            alignItems: isMobile ? 'stretch' : 'center',
+            gap: '0.5rem',
+            padding: '0.625rem 0',
+            paddingLeft: `${depth * 1.5}rem`,
+            borderBottom: '1px solid #edf2f7'
+          }}>
+            <div style={{ minWidth: 0 }}>
+              <span style={{ color: '#2d3748', fontWeight: depth === 0 ? '600' : '400' }}>
+                {depth > 0 && <span style={{ color: '#cbd5e0' }}>└ </span>}
+                {topic.name}
+              </span>
+              <span style={{ marginLeft: '0.5rem', color: '#718096', fontSize: '0.75rem' }}>
+                {recentCount} message{recentCount === 1 ? '' : 's'} in 30 days
+              </span>
+              {topic.keywords.length > 0 && (
+                <div style={{ color: '#a0aec0', fontSize: '0.75rem', marginTop: '0.125rem' }}>
+                  {topic.keywords.join(', ')}
+                </div>
+              )}
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+              <button onClick={() => startAdding(topic.id)} style={smallButtonStyle}>+ Subtopic</button>
+              <button onClick={() => startEditing(topic)} style={smallButtonStyle}>Edit</button>
+              <button onClick={() => handleDelete(topic)} style={{ ...smallButtonStyle, backgroundColor: '#fed7d7', color: '#c53030' }}>
+                Delete
+              </button>
+            </div>
+          </div>
+        )}
+        {children.map(child => renderTopic(child, depth + 1))}
+        {addingUnderId === topic.id && renderNodeForm(depth + 1)}
+      </div>
+    );
+  };
+
+  const rootTopics = topics.filter(topic => !topic.parentId);
+
+  return (
+    <Layout>
+      <div style={{ marginBottom: '2rem' }}>
+        <h1 style={{
+          color: '#333',
+          marginBottom: '0.5rem',
+          fontSize: isMobile ? '1.5rem' : '2rem'
+        }}>
+          Topics
+        </h1>
+        <p style={{
+          color: '#666',
+          margin: 0,
+          fontSize: isMobile ? '1rem' : '1.1rem'
+        }}>
+          The subjects new messages are tagged with. Keywords help the automatic tagging when the AI classifier is unavailable.
+        </p>
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '1rem',
+          marginBottom: '1rem',
+          backgroundColor: '#fed7d7',
+          color: '#c53030',
+          borderRadius: '4px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleAddSubject} style={{
+        display: 'flex',
+        flexDirection: isMobile ? 'column' : 'row',
+        gap: '0.75rem',
+        marginBottom: '1.5rem',
+        padding: isMobile ? '1rem' : '1.5rem',
+        backgroundColor: 'white',
+        borderRadius: '10px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+      }}>
+        <input
+          type="text"
+          value={newSubject.name}
+          onChange={(e) => setNewSubject(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="New subject, e.g. Math"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <input
+          type="text"
+          value={newSubject.keywords}
+          onChange={(e) => setNewSubject(prev => ({ ...prev, keywords: e.target.value }))}
+          placeholder="Keywords, comma separated"
+          style={{ ...inputStyle, flex: 2 }}
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !newSubject.name.trim()}
+          style={{
+            padding: '0.5rem 1.25rem',
+            backgroundColor: isSaving || !newSubject.name.trim() ? '#a0aec0' : '#667eea',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: isSaving || !newSubject.name.trim() ? 'not-allowed' : 'pointer',
+            fontWeight: '500'
+          }}
+        >
+          + Add subject
+        </button>
+      </form>
+
+      <div style={{
+        backgroundColor: 'white',
+        padding: isMobile ? '1rem' : '1.5rem',
+        borderRadius: '10px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+      }}>
+        {loading && topics.length === 0 ? (
+          <p style={{ margin: 0, color: '#718096', fontStyle: 'italic' }}>Loading topics...</p>
+        ) : rootTopics.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '1rem' }}>
+            <p style={{ color: '#718096', marginTop: 0 }}>
+              No topics yet. Messages are tagged once you add at least one subject.
+            </p>
+            <button
+              onClick={handleAddStarterTopics}
+              disabled={isSaving}
+              style={{
+                padding: '0.75rem 1.5rem',
+                backgroundColor: isSaving ? '#a0aec0' : '#48bb78',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                cursor: isSaving ? 'not-allowed' : 'pointer',
+                fontWeight: '500'
+              }}
+            >
+              {isSaving ? 'Adding...' : '✨ Start with common school subjects'}
+            </button>
+          </div>
+        ) : (
+          rootTopics.map(topic => renderTopic(topic, 0))
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Topics;
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { supabase } from '../lib/supabase';
+
+const ATTACHMENTS_BUCKET = 'message-attachments';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+// Re-sign a little before expiry so a URL never dies while an image is loading
+const SIGNED_URL_REFRESH_MARGIN_MS = 60 * 1000;
+const THUMBNAIL_WIDTH = 320;
+
+export interface SignedUrlOptions {
+  thumbnail?: boolean;
+  // File name to use for the Content-Disposition header
+  download?: string;
+}
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+class AttachmentService {
+  private cache = new Map<string, CachedUrl>();
+
+  isImage(mimeType: string): boolean {
+    return mimeType.startsWith('image/');
+  }
+
+  // Resolve a short-lived signed URL for a private attachment, or null when the object is gone
+  async getSignedUrl(path: string, options: SignedUrlOptions = {}): Promise<string | null> {
+    const cacheKey = `${path}|${options.thumbnail ? 'thumb' : 'full'}|${options.download ?? ''}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt - SIGNED_URL_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.url;
+    }
+
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrl(path, SIGNED_URL_TTL_SECONDS, {
+        download: options.download,
+        transform: options.thumbnail ? { width: THUMBNAIL_WIDTH, resize: 'contain' } : undefined
+      });
+
+    if (error || !data?.signedUrl) {
+      console.warn(`Could not resolve attachment ${path}:`, error);
+      this.cache.delete(cacheKey);
+      return null;
+    }
+
+    this.cache.set(cacheKey, {
+      url: data.signedUrl,
+      expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000
+    });
+
+    return data.signedUrl;
+  }
+
+  // Drop cached URLs for a path, e.g. after the browser failed to load one
+  invalidate(path: string): void {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(`${path}|`)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  formatSize(bytes: number): string {
+    if (!bytes) return '';
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+}
+
+export const attachmentService = new AttachmentService();
+export default attachmentService;
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { LLMProviderName } from '../lib/supabase';
+import { openAIProxy } from './openaiProxy';
+import { LLMError } from './resilience';
+
+export type { LLMProviderName };
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  // Azure: the deployment chat requests go to; it decides which model answers
+  azureDeployment: string | null;
+  // OpenAI-compatible servers: the API root, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl: string | null;
+  // Optional bearer key for an OpenAI-compatible server
+  apiKey: string | null;
+  // Model name sent to an OpenAI-compatible server in place of the app's OpenAI model
+  model: string | null;
+}
+
+// A chat completions request in OpenAI's wire format
+export interface ChatRequestBody {
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+}
+
+// Anything that accepts OpenAI-format chat completions requests. Every provider answers in
+// OpenAI's response format, JSON or a server-sent event stream, so parsing is shared.
+export interface LLMProvider {
+  name: LLMProviderName;
+  label: string;
+  isConfigured(): boolean;
+  // Whether responses always carry token usage; local servers often leave it out
+  reportsUsage: boolean;
+  sendChat(body: ChatRequestBody, signal?: AbortSignal): Promise<Response>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderName, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  compatible: 'OpenAI-compatible server'
+};
+
+export const DEFAULT_LLM_PROVIDER_CONFIG: LLMProviderConfig = {
+  provider: 'openai',
+  azureDeployment: null,
+  baseUrl: null,
+  apiKey: null,
+  model: null
+};
+
+// OpenAI itself, through the openai-proxy Edge Function that holds the key
+export class OpenAIProvider implements LLMProvider {
+  name: LLMProviderName = 'openai';
+  label = LLM_PROVIDER_LABELS.openai;
+  reportsUsage = true;
+
+  isConfigured(): boolean {
+    return openAIProxy.isConfigured();
+  }
+
+  sendChat(body: ChatRequestBody, signal?: AbortSignal): Promise<Response> {
+    return openAIProxy.fetch('chat', { body, signal });
+  }
+}
+
+// An Azure OpenAI deployment, also through the proxy, which holds the Azure endpoint and key
+export class AzureOpenAIProvider implements LLMProvider {
+  name: LLMProviderName = 'azure';
+  label = LLM_PROVIDER_LABELS.azure;
+  reportsUsage = true;
+
+  constructor(private deployment: string) {}
+
+  isConfigured(): boolean {
+    return openAIProxy.isConfigured() && this.deployment.trim() !== '';
+  }
+
+  sendChat(body: ChatRequestBody, signal?: AbortSignal): Promise<Response> {
+    return openAIProxy.fetch('chat', { body: { ...body, provider: 'azure', deployment: this.deployment }, signal });
+  }
+}
+
+// Any server with an OpenAI-style /chat/completions endpoint, called straight from the browser
+// so it can run on the teacher's own machine or network
+export class OpenAICompatibleProvider implements LLMProvider {
+  name: LLMProviderName = 'compatible';
+  label = LLM_PROVIDER_LABELS.compatible;
+  reportsUsage = false;
+
+  constructor(private baseUrl: string, private apiKey: string | null = null, private model: string | null = null) {}
+
+  isConfigured(): boolean {
+    return /^https?:\/\//.test(this.baseUrl);
+  }
+
+  async sendChat(body: ChatRequestBody, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        ...body,
+        model: this.model || body.model,
+        ...(body.stream ? { stream_options: { include_usage: true } } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      const retryAfter = response.headers.get('Retry-After');
+      throw LLMError.fromStatus(
+        response.status,
+        payload?.error?.message || payload?.error || `${this.baseUrl} answered with status ${response.status}`,
+        retryAfter ? Number(retryAfter) : null
+      );
+    }
+
+    return response;
+  }
+}
+
+export const createLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'azure':
+      return new AzureOpenAIProvider(config.azureDeployment ?? '');
+    case 'compatible':
+      return new OpenAICompatibleProvider(config.baseUrl ?? '', config.apiKey, config.model);
+    default:
+      return new OpenAIProvider();
+  }
+};
+
+export const openAIProvider = new OpenAIProvider();
\ No newline at end of file
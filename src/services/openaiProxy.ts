@@ -0,0 +1,75 @@
+import { authService } from '../lib/auth';
+
+// The OpenAI key lives with the openai-proxy Edge Function; the browser only ever holds the
+// teacher's Supabase session. VITE_OPENAI_PROXY_URL points at a self-hosted proxy instead.
+const PROXY_URL: string | undefined =
+  import.meta.env.VITE_OPENAI_PROXY_URL ||
+  (import.meta.env.VITE_SUPABASE_URL ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/openai-proxy` : undefined);
+
+export type OpenAIProxyRoute = 'chat' | 'moderations' | 'usage' | 'org-usage' | 'org-costs';
+
+export class OpenAIProxyError extends Error {
+  status: number;
+  // Seconds until the per-user rate limit lets the next request through
+  retryAfter: number | null;
+
+  constructor(message: string, status: number, retryAfter: number | null = null) {
+    super(message);
+    this.name = 'OpenAIProxyError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+class OpenAIProxy {
+  isConfigured(): boolean {
+    return !!PROXY_URL;
+  }
+
+  // Send a request through the proxy as the signed-in teacher and return the raw response
+  async fetch(
+    route: OpenAIProxyRoute,
+    init: { query?: Record<string, string>; body?: unknown; signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    if (!PROXY_URL) {
+      throw new OpenAIProxyError('The OpenAI proxy URL is not configured.', 0);
+    }
+
+    const accessToken = await authService.getValidAccessToken();
+    if (!accessToken) {
+      throw new OpenAIProxyError('You need to be signed in to use the assistant.', 401);
+    }
+
+    const query = init.query ? `?${new URLSearchParams(init.query).toString()}` : '';
+    const response = await fetch(`${PROXY_URL}/${route}${query}`, {
+      method: init.body === undefined ? 'GET' : 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'Content-Type': 'application/json'
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal: init.signal
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      const retryAfter = response.headers.get('Retry-After');
+      throw new OpenAIProxyError(
+        payload?.error || `OpenAI proxy request failed with status ${response.status}`,
+        response.status,
+        retryAfter ? Number(retryAfter) : null
+      );
+    }
+
+    return response;
+  }
+
+  async request<T>(route: OpenAIProxyRoute, body: unknown, signal?: AbortSignal): Promise<T> {
+    const response = await this.fetch(route, { body, signal });
+    return response.json() as Promise<T>;
+  }
+}
+
+export const openAIProxy = new OpenAIProxy();
+export default openAIProxy;
\ No newline at end of file
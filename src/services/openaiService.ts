@@ -1,16 +1,44 @@
-import OpenAI from 'openai';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  organization: import.meta.env.VITE_OPENAI_ORG_ID,
-  dangerouslyAllowBrowser: true // Note: In production, this should be handled server-side
-});
+import { openAIProxy } from './openaiProxy';
+import { supabase } from '../lib/supabase';
+import { pricingRegistry } from './pricingRegistry';
+import { usageCache, DailyUsageItem, DailyUsageRecord, UsageSourceName } from './usageCache';
+import { UsageSource, legacyUsageSource, organizationUsageSource } from './usageSources';
+import { LLMProvider, ChatRequestBody, openAIProvider } from './llmProviders';
+import { LLMError, TokenBucket, toLLMError, withRetry } from './resilience';
+import {
+  SafetyClassifier,
+  SafetyCategory,
+  SafetyFlag,
+  SafetySeverity,
+  keywordSafetyClassifier,
+  highestSeverity
+} from './safetyClassifier';
+import {
+  TopicClassifier,
+  TopicMatch,
+  TopicOption,
+  TopicTagSource,
+  MAX_TOPICS_PER_MESSAGE,
+  keywordTopicClassifier,
+  keepMostSpecific
+} from './topicClassifier';
 
 export interface TokenUsage {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
+  // Part of promptTokens OpenAI served from its prompt cache, billed at the cached-input rate
+  cachedTokens?: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
 }
 
 export interface ChatCompletionResponse {
@@ -18,331 +46,684 @@ export interface ChatCompletionResponse {
   usage: TokenUsage;
 }
 
+// Models the proxy accepts for chat completions
+export const CHAT_MODELS = ['gpt-3.5-turbo', 'gpt-4o-mini', 'gpt-4o', 'gpt-4-turbo', 'gpt-4'];
+
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 1000;
+
+type TokenBreakdown = { total: number; input: number; output: number };
+
 export interface UsageStatistics {
+  // Which of OpenAI's usage APIs the figures came from
+  source: UsageSourceName;
+  // The token totals and breakdowns count only usage OpenAI reported token counts for
+  totalRequests: number;
   totalUsage: number;
   totalInputTokens: number;
   totalOutputTokens: number;
-  usageByModel: Record<string, { total: number; input: number; output: number }>;
-  usageByDate: Record<string, { total: number; input: number; output: number }>;
+  usageByModel: Record<string, TokenBreakdown>;
+  // Keyed by OpenAI project id; empty when the source has no project breakdown
+  usageByProject: Record<string, TokenBreakdown>;
+  // Priced at the rates in Settings
+  inputCost: number;
+  outputCost: number;
+  estimatedCost: number;
+  // Tokens from models no rate in Settings covers; every cost above leaves them out
+  unpricedTokens: number;
+  unpricedModels: string[];
+  // Legacy entries that only reported request counts; their tokens and cost are guesses
+  estimatedUsage: {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+  };
+  // What OpenAI billed over the range; null when the source reports no billed amounts
+  reportedCost: number | null;
+  reportedCostByProject: Record<string, number>;
+  usageByDate: Record<string, TokenBreakdown>;
   dailyUsage: Array<{
     date: string;
     usage: number;
     inputTokens: number;
     outputTokens: number;
   }>;
+  // Days that still failed after retrying; every figure above leaves them out
+  unavailableDates: string[];
 }
 
-class OpenAIService {
-  private apiKey: string | undefined;
-  private orgId: string | undefined;
+// Days fetched so far out of those the cache could not answer
+export interface UsageProgress {
+  completed: number;
+  total: number;
+}
+
+const roundCost = (value: number) => Math.round(value * 10000) / 10000;
+
+// The subset of OpenAI's response bodies the proxy passes back that we read
+interface UsagePayload {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+interface ChatCompletionPayload {
+  choices: Array<{ message?: { content?: string | null } }>;
+  usage?: UsagePayload;
+}
+
+interface ChatCompletionChunk {
+  choices: Array<{ delta?: { content?: string | null } }>;
+  usage?: UsagePayload | null;
+}
+
+// Matches the proxy's default per-teacher limit, with a little room for bursts
+const CLIENT_REQUESTS_PER_MINUTE = 30;
+const CLIENT_BURST = 5;
+
+// Sends a billed request through the client limiter and the retry policy
+type RequestRunner = <T>(operation: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal) => Promise<T>;
+
+// Stands in for usage from providers that do not report it, such as most local servers
+const UNREPORTED_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cachedTokens: 0 };
+
+const toTokenUsage = (usage: UsagePayload): TokenUsage => ({
+  promptTokens: usage.prompt_tokens,
+  completionTokens: usage.completion_tokens,
+  totalTokens: usage.total_tokens,
+  cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0
+});
+
+interface ModerationPayload {
+  results: Array<{ categories: Record<string, boolean>; category_scores: Record<string, number> }>;
+}
+
+export interface ModerationResult {
+  flags: SafetyFlag[];
+  severity: SafetySeverity | null;
+  classifier: string;
+}
+
+// OpenAI moderation categories folded into the ones teachers act on
+const MODERATION_CATEGORY_MAP: Record<string, SafetyCategory> = {
+  'self-harm': 'self_harm',
+  'self-harm/intent': 'self_harm',
+  'self-harm/instructions': 'self_harm',
+  'harassment': 'bullying',
+  'harassment/threatening': 'bullying',
+  'sexual/minors': 'abuse',
+  'sexual': 'sexual',
+  'violence': 'violence',
+  'violence/graphic': 'violence',
+  'hate': 'hate',
+  'hate/threatening': 'hate'
+};
+
+// Scores below this are ignored unless OpenAI itself flagged the category
+const MODERATION_SCORE_THRESHOLD = 0.3;
+
+const toSeverity = (category: SafetyCategory, score: number): SafetySeverity => {
+  // Any credible signal of self-harm or abuse of a minor goes straight to the top
+  if (category === 'self_harm' || category === 'abuse') return score >= 0.5 ? 'high' : 'medium';
+  if (score >= 0.8) return 'high';
+  if (score >= 0.5) return 'medium';
+  return 'low';
+};
+
+class OpenAIModerationClassifier implements SafetyClassifier {
+  name = 'openai-moderation';
+
+  constructor(private run: RequestRunner) {}
+
+  async classify(text: string): Promise<SafetyFlag[]> {
+    const response = await this.run(signal => openAIProxy.request<ModerationPayload>('moderations', {
+      model: 'omni-moderation-latest',
+      input: text
+    }, signal));
+
+    const result = response.results[0];
+    if (!result) return [];
+
+    const categories = result.categories;
+    const scores = result.category_scores;
+    const byCategory = new Map<SafetyCategory, SafetyFlag>();
+
+    Object.entries(MODERATION_CATEGORY_MAP).forEach(([openAICategory, category]) => {
+      const score = scores[openAICategory] ?? 0;
+      if (!categories[openAICategory] && score < MODERATION_SCORE_THRESHOLD) return;
+
+      const existing = byCategory.get(category);
+      if (!existing || score > existing.score) {
+        byCategory.set(category, {
+          category,
+          severity: toSeverity(category, score),
+          score: Math.round(score * 1000) / 1000,
+          source: this.name
+        });
+      }
+    });
+
+    return Array.from(byCategory.values());
+  }
+}
 
-  constructor() {
-    this.apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-    this.orgId = import.meta.env.VITE_OPENAI_ORG_ID;
+const TOPIC_MODEL = 'gpt-3.5-turbo';
+
+class OpenAITopicClassifier implements TopicClassifier {
+  name: TopicTagSource = 'llm';
+
+  // Student messages go to whichever provider the teacher chose, never silently to OpenAI
+  constructor(private getProvider: () => LLMProvider, private run: RequestRunner) {}
+
+  async classify(text: string, topics: TopicOption[]): Promise<TopicMatch[]> {
+    if (topics.length === 0) return [];
+
+    const taxonomy = topics.map(topic => `${topic.id}: ${topic.path.join(' > ')}`).join('\n');
+    const body: ChatRequestBody = {
+      model: TOPIC_MODEL,
+      temperature: 0,
+      max_tokens: 200,
+      messages: [
+        {
+          role: 'system',
+          content: `Tag a student's message with the school subjects it is about, using only this taxonomy (id: path):
+${taxonomy}
+Reply with JSON only: {"topics": [{"id": string, "confidence": number between 0 and 1}]}.
+Use the most specific topics that apply, at most ${MAX_TOPICS_PER_MESSAGE}. Reply {"topics": []} when none apply.`
+        },
+        { role: 'user', content: text }
+      ]
+    };
+    const completion = await this.run(async signal =>
+      (await this.getProvider().sendChat(body, signal)).json() as Promise<ChatCompletionPayload>
+    );
+
+    const content = completion.choices[0]?.message?.content || '';
+    const parsed = JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    const knownIds = new Set(topics.map(topic => topic.id));
+
+    const matches: TopicMatch[] = (Array.isArray(parsed.topics) ? parsed.topics : [])
+      .filter((item: any) => item && knownIds.has(item.id))
+      .map((item: any) => ({
+        topicId: item.id,
+        confidence: typeof item.confidence === 'number' ? Math.min(1, Math.max(0, item.confidence)) : 1,
+        source: this.name
+      }));
+
+    return keepMostSpecific(matches, topics).slice(0, MAX_TOPICS_PER_MESSAGE);
   }
+}
 
-  // Check if OpenAI is properly configured
+class OpenAIService {
+  private safetyClassifier: SafetyClassifier | null = null;
+  private usageSource: UsageSource | null = null;
+  private organizationUsageUnavailable = false;
+  private limiter = new TokenBucket(CLIENT_BURST, CLIENT_REQUESTS_PER_MINUTE / 60);
+  private runRequest: RequestRunner = (operation, signal) =>
+    withRetry(async attemptSignal => {
+      await this.limiter.take(attemptSignal);
+      return operation(attemptSignal);
+    }, { signal });
+  private moderationClassifier = new OpenAIModerationClassifier(this.runRequest);
+  private topicClassifier: TopicClassifier | null = null;
+  private llmTopicClassifier = new OpenAITopicClassifier(() => this.provider, this.runRequest);
+  private provider: LLMProvider = openAIProvider;
+
+  // Check if the teacher's chat provider is usable; OpenAI and Azure keys stay with the proxy
   isConfigured(): boolean {
-    return !!(this.apiKey && this.apiKey !== 'your_openai_api_key_here');
+    return this.provider.isConfigured();
+  }
+
+  // Send chat requests to another provider, e.g. an Azure deployment or a local server.
+  // Passing null restores OpenAI.
+  setProvider(provider: LLMProvider | null): void {
+    this.provider = provider ?? openAIProvider;
+  }
+
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  private async completeChat(provider: LLMProvider, body: ChatRequestBody): Promise<ChatCompletionResponse> {
+    const completion = await this.runRequest(async signal =>
+      (await provider.sendChat(body, signal)).json() as Promise<ChatCompletionPayload>
+    );
+    const content = completion.choices[0]?.message?.content || '';
+    const usage = completion.usage;
+
+    if (!usage && provider.reportsUsage) {
+      throw new LLMError('unknown', `No usage data returned from ${provider.label}`);
+    }
+
+    return {
+      content,
+      usage: usage ? toTokenUsage(usage) : UNREPORTED_USAGE
+    };
   }
 
   // Create a chat completion and return content + token usage
   async createChatCompletion(
-    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
-    model: string = 'gpt-3.5-turbo'
+    messages: ChatMessage[],
+    model: string = 'gpt-3.5-turbo',
+    options: ChatCompletionOptions = {}
   ): Promise<ChatCompletionResponse> {
     if (!this.isConfigured()) {
-      throw new Error('OpenAI API is not properly configured. Please check your environment variables.');
+      throw new Error(`${this.provider.label} is not properly configured. Please check your environment variables and provider settings.`);
     }
 
     try {
-      const completion = await openai.chat.completions.create({
+      return await this.completeChat(this.provider, {
         model,
         messages,
-        temperature: 0.7,
-        max_tokens: 1000,
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
       });
+    } catch (error) {
+      // Typed, with a message the teacher can act on; the provider's own wording is in detail
+      const llmError = toLLMError(error);
+      console.error(`${this.provider.label} API Error (${llmError.kind}):`, llmError.detail);
+      throw llmError;
+    }
+  }
 
-      const content = completion.choices[0]?.message?.content || '';
-      const usage = completion.usage;
+  // Like createChatCompletion, but hands each piece of the reply to onDelta as it arrives.
+  // Resolves with the full reply and its usage once the stream ends.
+  async streamChatCompletion(
+    messages: ChatMessage[],
+    model: string = 'gpt-3.5-turbo',
+    options: ChatCompletionOptions = {},
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    if (!this.isConfigured()) {
+      throw new Error(`${this.provider.label} is not properly configured. Please check your environment variables and provider settings.`);
+    }
 
-      if (!usage) {
-        throw new Error('No usage data returned from OpenAI API');
-      }
+    const body: ChatRequestBody = {
+      model,
+      messages,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream: true
+    };
+    // Only getting the stream started is retried; a reply cut off halfway is reported as is
+    const response = await this.runRequest(attemptSignal => this.provider.sendChat(body, attemptSignal), signal);
 
-      return {
-        content,
-        usage: {
-          promptTokens: usage.prompt_tokens,
-          completionTokens: usage.completion_tokens,
-          totalTokens: usage.total_tokens,
+    if (!response.body) {
+      throw new Error('Streaming is not supported by this browser');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let usage: TokenUsage | null = null;
+
+    // Server-sent events: one "data: {json}" line per chunk, ending with "data: [DONE]"
+    while (true) {
+      const { done, value } = await reader.read().catch(error => {
+        throw toLLMError(error);
+      });
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+
+        let chunk: ChatCompletionChunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          // A truncated or garbled chunk ends the reply; stop reading so the connection is released
+          await reader.cancel().catch(() => undefined);
+          throw new LLMError('server', `${this.provider.label} sent part of the reply that could not be read`);
         }
-      };
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (chunk.usage) {
+          usage = toTokenUsage(chunk.usage);
+        }
+      }
+    }
+
+    if (!usage && this.provider.reportsUsage) {
+      throw new LLMError('unknown', `No usage data returned from ${this.provider.label}`);
+    }
+
+    return { content, usage: usage ?? UNREPORTED_USAGE };
+  }
+
+  // Override where usage statistics come from. Passing null restores the default choice:
+  // the organization APIs, or the legacy endpoint when the proxy has no admin key.
+  setUsageSource(source: UsageSource | null): void {
+    this.usageSource = source;
+  }
+
+  getUsageSource(): UsageSource {
+    if (this.usageSource) return this.usageSource;
+    return this.organizationUsageUnavailable ? legacyUsageSource : organizationUsageSource;
+  }
+
+  // Daily usage for a UTC date range. Finished days come from the local cache once fetched;
+  // only days missing from it (and today, which is still growing) go to the usage source.
+  private async getDailyUsage(
+    startDate: string,
+    endDate: string,
+    onProgress?: (progress: UsageProgress) => void
+  ): Promise<{ source: UsageSourceName; records: DailyUsageRecord[]; unavailableDates: string[] }> {
+    const today = new Date().toISOString().split('T')[0];
+    const lastDate = endDate < today ? endDate : today;
+
+    const dates: string[] = [];
+    const currentDate = new Date(`${startDate}T00:00:00Z`);
+    while (currentDate.toISOString().split('T')[0] <= lastDate) {
+      dates.push(currentDate.toISOString().split('T')[0]);
+      currentDate.setUTCDate(currentDate.getUTCDate() + 1);
+    }
+
+    // The cache is per teacher: organisation usage one admin fetched must not reach whoever signs in next
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You need to be signed in to see usage.');
+    }
+    const userId = session.user.id;
+
+    const source = this.getUsageSource();
+    const cached = await usageCache.getDays(userId, dates);
+    // Days cached from the other source are refetched so one range never mixes the two
+    const missingDates = dates.filter(date => {
+      const record = cached.get(date);
+      return !record || record.source !== source.name || !usageCache.isFinal(record);
+    });
+
+    let completed = 0;
+    onProgress?.({ completed, total: missingDates.length });
+
+    let fetched: DailyUsageRecord[];
+    try {
+      fetched = await source.fetchDays(missingDates, () => {
+        completed += 1;
+        onProgress?.({ completed, total: missingDates.length });
+      });
     } catch (error) {
-      console.error('OpenAI API Error:', error);
-      throw new Error(`Failed to get completion from OpenAI: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // The proxy answers 501 when it has no admin key for the organization APIs
+      if (!this.usageSource && source.name === 'organization' && toLLMError(error).status === 501) {
+        this.organizationUsageUnavailable = true;
+        return this.getDailyUsage(startDate, endDate, onProgress);
+      }
+      // The proxy answers 403 to teachers who are not account admins
+      if (toLLMError(error).status === 403) {
+        throw new Error('Only account admins can see the organisation\'s OpenAI usage.');
+      }
+      throw error;
     }
+
+    await Promise.all(fetched.map(record => usageCache.putDay(userId, record)));
+    fetched.forEach(record => cached.set(record.date, record));
+    const fetchedDates = new Set(fetched.map(record => record.date));
+
+    return {
+      source: source.name,
+      unavailableDates: missingDates.filter(date => !fetchedDates.has(date)),
+      records: dates
+        .map(date => cached.get(date))
+        .filter((record): record is DailyUsageRecord => !!record && record.source === source.name)
+    };
   }
 
-  // Get usage statistics for a specific time period using OpenAI's usage API
+  // Get usage statistics for a specific time period using OpenAI's usage APIs
   async getUsageStatistics(
     startDate: string,
-    endDate: string
+    endDate: string,
+    onProgress?: (progress: UsageProgress) => void
   ): Promise<UsageStatistics> {
-    if (!this.isConfigured()) {
+    if (!openAIProxy.isConfigured()) {
       throw new Error('OpenAI API is not properly configured.');
     }
 
     try {
-      // Get usage data for each day in the range
-      const usageByModel: Record<string, { total: number; input: number; output: number }> = {};
-      const usageByDate: Record<string, { total: number; input: number; output: number }> = {};
+      const { source, records, unavailableDates } = await this.getDailyUsage(startDate, endDate, onProgress);
+
+      const usageByModel: Record<string, TokenBreakdown> = {};
+      const usageByProject: Record<string, TokenBreakdown> = {};
+      const usageByDate: Record<string, TokenBreakdown> = {};
       const dailyUsage: Array<{ date: string; usage: number; inputTokens: number; outputTokens: number }> = [];
+      const reportedCostByProject: Record<string, number> = {};
+      const estimatedUsage = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+      const unpricedModels = new Set<string>();
+      let unpricedTokens = 0;
+      let totalRequests = 0;
       let totalUsage = 0;
       let totalInputTokens = 0;
       let totalOutputTokens = 0;
+      let inputCost = 0;
+      let outputCost = 0;
+      let reportedCost: number | null = records.length > 0 && records.every(record => record.costs) ? 0 : null;
 
-      const start = new Date(startDate);
-      const end = new Date(endDate);
-      const currentDate = new Date(start);
-
-      while (currentDate <= end) {
-        const dateStr = currentDate.toISOString().split('T')[0];
-
-        try {
-          const response = await fetch(`https://api.openai.com/v1/usage?date=${dateStr}`, {
-            method: 'GET',
-            headers: {
-              'Authorization': `Bearer ${this.apiKey}`,
-              'OpenAI-Organization': this.orgId || '',
-              'Content-Type': 'application/json'
-            }
-          });
-
-          if (response.ok) {
-            const dayData = await response.json();
-            let dayUsage = 0;
-            let dayInputTokens = 0;
-            let dayOutputTokens = 0;
-
-
-            // Process chat completions data
-            if (dayData.data && Array.isArray(dayData.data)) {
-              dayData.data.forEach((item: any) => {
-
-                // OpenAI usage API field names - check multiple possible field names
-                const promptTokens = item.n_context_tokens_total || item.prompt_tokens || item.n_prompt_tokens || 0; // Input tokens
-                const completionTokens = item.n_generated_tokens_total || item.completion_tokens || item.n_completion_tokens || 0; // Output tokens
-                const totalTokens = item.total_tokens || item.n_tokens || (promptTokens + completionTokens);
-                const model = item.snapshot_id || item.model || item.engine || 'gpt-3.5-turbo';
-
-                // If no token data available, use request count as fallback with estimates
-                const requests = item.n_requests || 0;
-                if (totalTokens === 0 && requests > 0) {
-                  // Fallback: estimate tokens from requests (rough estimates)
-                  const estimatedInputTokens = requests * 100; // ~100 input tokens per request
-                  const estimatedOutputTokens = requests * 50; // ~50 output tokens per request
-                  dayUsage += estimatedInputTokens + estimatedOutputTokens;
-                  dayInputTokens += estimatedInputTokens;
-                  dayOutputTokens += estimatedOutputTokens;
-                } else {
-                  dayUsage += totalTokens;
-                  dayInputTokens += promptTokens;
-                  dayOutputTokens += completionTokens;
-                }
-
-                // Aggregate by model (use the actual values that were added to dayUsage)
-                if (!usageByModel[model]) {
-                  usageByModel[model] = { total: 0, input: 0, output: 0 };
-                }
-                if (totalTokens === 0 && requests > 0) {
-                  // Use estimated values
-                  const estimatedInputTokens = requests * 100;
-                  const estimatedOutputTokens = requests * 50;
-                  usageByModel[model].total += estimatedInputTokens + estimatedOutputTokens;
-                  usageByModel[model].input += estimatedInputTokens;
-                  usageByModel[model].output += estimatedOutputTokens;
-                } else {
-                  usageByModel[model].total += totalTokens;
-                  usageByModel[model].input += promptTokens;
-                  usageByModel[model].output += completionTokens;
-                }
-              });
-            }
-
-            totalUsage += dayUsage;
-            totalInputTokens += dayInputTokens;
-            totalOutputTokens += dayOutputTokens;
-            usageByDate[dateStr] = { total: dayUsage, input: dayInputTokens, output: dayOutputTokens };
-            dailyUsage.push({ date: dateStr, usage: dayUsage, inputTokens: dayInputTokens, outputTokens: dayOutputTokens });
-          }
-        } catch (dayError) {
-          console.warn(`Failed to fetch usage for ${dateStr}:`, dayError);
-          // Continue with other dates
-          usageByDate[dateStr] = { total: 0, input: 0, output: 0 };
-          dailyUsage.push({ date: dateStr, usage: 0, inputTokens: 0, outputTokens: 0 });
+      const addTokens = (breakdown: Record<string, TokenBreakdown>, key: string, item: DailyUsageItem) => {
+        if (!breakdown[key]) {
+          breakdown[key] = { total: 0, input: 0, output: 0 };
         }
+        breakdown[key].total += item.promptTokens + item.completionTokens;
+        breakdown[key].input += item.promptTokens;
+        breakdown[key].output += item.completionTokens;
+      };
 
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
+      records.forEach(record => {
+        let dayInputTokens = 0;
+        let dayOutputTokens = 0;
+
+        record.items.forEach(item => {
+          // Price each model at the rate in force on that day
+          const breakdown = pricingRegistry.calculateCostBreakdown({
+            promptTokens: item.promptTokens,
+            completionTokens: item.completionTokens,
+            totalTokens: item.promptTokens + item.completionTokens,
+            cachedTokens: item.cachedTokens
+          }, item.model, record.date);
+          if (!breakdown) {
+            unpricedModels.add(item.model);
+            unpricedTokens += item.promptTokens + item.completionTokens;
+          }
+          const itemCost = breakdown ?? { input: 0, output: 0 };
+
+          if (item.estimated) {
+            estimatedUsage.requests += item.requests;
+            estimatedUsage.inputTokens += item.promptTokens;
+            estimatedUsage.outputTokens += item.completionTokens;
+            estimatedUsage.cost += itemCost.input + itemCost.output;
+            return;
+          }
 
-      // Sort daily usage by date
-      dailyUsage.sort((a, b) => a.date.localeCompare(b.date));
+          totalRequests += item.requests;
+          dayInputTokens += item.promptTokens;
+          dayOutputTokens += item.completionTokens;
+          inputCost += itemCost.input;
+          outputCost += itemCost.output;
+          addTokens(usageByModel, item.model, item);
+          if (item.projectId) addTokens(usageByProject, item.projectId, item);
+        });
+
+        record.costs?.forEach(cost => {
+          reportedCost = (reportedCost ?? 0) + cost.amount;
+          if (cost.projectId) {
+            reportedCostByProject[cost.projectId] = (reportedCostByProject[cost.projectId] ?? 0) + cost.amount;
+          }
+        });
+
+        const dayUsage = dayInputTokens + dayOutputTokens;
+        totalUsage += dayUsage;
+        totalInputTokens += dayInputTokens;
+        totalOutputTokens += dayOutputTokens;
+        usageByDate[record.date] = { total: dayUsage, input: dayInputTokens, output: dayOutputTokens };
+        dailyUsage.push({ date: record.date, usage: dayUsage, inputTokens: dayInputTokens, outputTokens: dayOutputTokens });
+      });
 
       return {
+        source,
+        totalRequests,
         totalUsage,
         totalInputTokens,
         totalOutputTokens,
         usageByModel,
+        usageByProject,
+        inputCost: roundCost(inputCost),
+        outputCost: roundCost(outputCost),
+        estimatedCost: roundCost(inputCost + outputCost),
+        unpricedTokens,
+        unpricedModels: Array.from(unpricedModels),
+        estimatedUsage: { ...estimatedUsage, cost: roundCost(estimatedUsage.cost) },
+        reportedCost: reportedCost === null ? null : roundCost(reportedCost),
+        reportedCostByProject,
         usageByDate,
-        dailyUsage
+        dailyUsage,
+        unavailableDates
       };
     } catch (error) {
       console.error('Error fetching usage statistics:', error);
-      throw new Error(`Failed to fetch usage statistics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toLLMError(error);
     }
   }
 
   // Get current month usage summary
-  async getCurrentMonthUsage(): Promise<{
+  async getCurrentMonthUsage(onProgress?: (progress: UsageProgress) => void): Promise<{
     totalRequests: number;
     totalTokens: number;
     inputTokens: number;
     outputTokens: number;
+    inputCost: number;
+    outputCost: number;
     estimatedCost: number;
+    unpricedTokens: number;
+    unpricedModels: string[];
+    estimatedUsage: UsageStatistics['estimatedUsage'];
+    reportedCost: number | null;
+    unavailableDates: string[];
   }> {
-    if (!this.isConfigured()) {
+    if (!openAIProxy.isConfigured()) {
       throw new Error('OpenAI API is not properly configured.');
     }
 
     try {
-      const now = new Date();
-      const startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-      const endDate = now;
-
-      let totalRequests = 0;
-      let totalTokens = 0;
-      let inputTokens = 0;
-      let outputTokens = 0;
-      let estimatedCost = 0;
-
-      const currentDate = new Date(startDate);
-      while (currentDate <= endDate) {
-        const dateStr = currentDate.toISOString().split('T')[0];
-
-        try {
-          const response = await fetch(`https://api.openai.com/v1/usage?date=${dateStr}`, {
-            method: 'GET',
-            headers: {
-              'Authorization': `Bearer ${this.apiKey}`,
-              'OpenAI-Organization': this.orgId || '',
-              'Content-Type': 'application/json'
-            }
-          });
-
-          if (response.ok) {
-            const dayData = await response.json();
-
-
-            // Process chat completions data
-            if (dayData.data && Array.isArray(dayData.data)) {
-              dayData.data.forEach((item: any) => {
-                const requests = item.n_requests || 0;
-
-                // OpenAI usage API field names - check multiple possible field names
-                const promptTokens = item.n_context_tokens_total || item.prompt_tokens || item.n_prompt_tokens || 0; // Input tokens
-                const completionTokens = item.n_generated_tokens_total || item.completion_tokens || item.n_completion_tokens || 0; // Output tokens
-                const actualTokens = item.total_tokens || item.n_tokens || (promptTokens + completionTokens);
-
-                totalRequests += requests;
-
-                // If no token data available, use request count as fallback with estimates
-                if (actualTokens === 0 && requests > 0) {
-                  // Fallback: estimate tokens from requests (rough estimates)
-                  const estimatedInputTokens = requests * 100; // ~100 input tokens per request
-                  const estimatedOutputTokens = requests * 50; // ~50 output tokens per request
-                  totalTokens += estimatedInputTokens + estimatedOutputTokens;
-                  inputTokens += estimatedInputTokens;
-                  outputTokens += estimatedOutputTokens;
-
-                  // Calculate cost based on estimated tokens
-                  const inputCost = estimatedInputTokens * 0.0015 / 1000;
-                  const outputCost = estimatedOutputTokens * 0.002 / 1000;
-                  estimatedCost += inputCost + outputCost;
-                } else {
-                  totalTokens += actualTokens;
-                  inputTokens += promptTokens;
-                  outputTokens += completionTokens;
-
-                  // Calculate cost based on actual tokens with proper input/output pricing
-                  const inputCost = promptTokens * 0.0015 / 1000; // $0.0015 per 1K input tokens
-                  const outputCost = completionTokens * 0.002 / 1000; // $0.002 per 1K output tokens
-                  estimatedCost += inputCost + outputCost;
-                }
-              });
-            }
-          }
-        } catch (dayError) {
-          console.warn(`Failed to fetch usage for ${dateStr}:`, dayError);
-          // Continue with other dates
-        }
-
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
+      const today = new Date().toISOString().split('T')[0];
+      const stats = await this.getUsageStatistics(`${today.slice(0, 7)}-01`, today, onProgress);
 
       return {
-        totalRequests,
-        totalTokens,
-        inputTokens,
-        outputTokens,
-        estimatedCost: Math.round(estimatedCost * 10000) / 10000
+        totalRequests: stats.totalRequests,
+        totalTokens: stats.totalUsage,
+        inputTokens: stats.totalInputTokens,
+        outputTokens: stats.totalOutputTokens,
+        inputCost: stats.inputCost,
+        outputCost: stats.outputCost,
+        estimatedCost: stats.estimatedCost,
+        unpricedTokens: stats.unpricedTokens,
+        unpricedModels: stats.unpricedModels,
+        estimatedUsage: stats.estimatedUsage,
+        reportedCost: stats.reportedCost,
+        unavailableDates: stats.unavailableDates
       };
     } catch (error) {
       console.error('Error fetching current month usage:', error);
-      throw new Error(`Failed to fetch current month usage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toLLMError(error);
     }
   }
 
-  // Calculate cost based on token usage and model
-  calculateCost(usage: TokenUsage, model: string = 'gpt-3.5-turbo'): number {
-    // OpenAI pricing (as of 2024, subject to change)
-    const pricing = {
-      'gpt-3.5-turbo': {
-        input: 0.0015 / 1000,  // $0.0015 per 1K input tokens
-        output: 0.002 / 1000   // $0.002 per 1K output tokens
-      },
-      'gpt-4': {
-        input: 0.03 / 1000,    // $0.03 per 1K input tokens
-        output: 0.06 / 1000    // $0.06 per 1K output tokens
-      },
-      'gpt-4-turbo': {
-        input: 0.01 / 1000,    // $0.01 per 1K input tokens
-        output: 0.03 / 1000    // $0.03 per 1K output tokens
+  // Swap the classifier used by moderateMessage, e.g. to run the keyword rules offline.
+  // Passing null restores the default choice.
+  setSafetyClassifier(classifier: SafetyClassifier | null): void {
+    this.safetyClassifier = classifier;
+  }
+
+  getSafetyClassifier(): SafetyClassifier {
+    if (this.safetyClassifier) return this.safetyClassifier;
+    // OpenAI's moderation endpoint is only used while OpenAI is the chosen provider, so
+    // schools keeping data with Azure or a local model get the keyword rules instead
+    return this.provider.name === 'openai' && this.isConfigured() ? this.moderationClassifier : keywordSafetyClassifier;
+  }
+
+  // Classify a student message for safety and wellbeing concerns. Falls back to the
+  // keyword rules when the configured classifier is unreachable, so nothing goes unchecked.
+  async moderateMessage(text: string): Promise<ModerationResult> {
+    const classifier = this.getSafetyClassifier();
+    let flags: SafetyFlag[];
+    let classifierName = classifier.name;
+
+    try {
+      flags = await classifier.classify(text);
+    } catch (error) {
+      if (classifier === keywordSafetyClassifier) {
+        throw error;
       }
+      console.warn(`Safety classifier ${classifier.name} failed, using keyword rules:`, error);
+      flags = await keywordSafetyClassifier.classify(text);
+      classifierName = keywordSafetyClassifier.name;
+    }
+
+    return {
+      flags,
+      severity: highestSeverity(flags),
+      classifier: classifierName
     };
+  }
+
+  // Swap the classifier used by classifyTopics. Passing null restores the default choice.
+  setTopicClassifier(classifier: TopicClassifier | null): void {
+    this.topicClassifier = classifier;
+  }
 
-    const modelPricing = pricing[model as keyof typeof pricing] || pricing['gpt-3.5-turbo'];
+  getTopicClassifier(): TopicClassifier {
+    if (this.topicClassifier) return this.topicClassifier;
+    return this.isConfigured() ? this.llmTopicClassifier : keywordTopicClassifier;
+  }
 
-    const inputCost = usage.promptTokens * modelPricing.input;
-    const outputCost = usage.completionTokens * modelPricing.output;
+  // Tag a student message with topics from the teacher's taxonomy, falling back to
+  // keyword matching when the LLM is unavailable or returns something unusable
+  async classifyTopics(text: string, topics: TopicOption[]): Promise<TopicMatch[]> {
+    const classifier = this.getTopicClassifier();
 
-    return Math.round((inputCost + outputCost) * 10000) / 10000; // Round to 4 decimal places
+    try {
+      return await classifier.classify(text, topics);
+    } catch (error) {
+      if (classifier === keywordTopicClassifier) {
+        throw error;
+      }
+      console.warn(`Topic classifier ${classifier.name} failed, using keywords:`, error);
+      return keywordTopicClassifier.classify(text, topics);
+    }
   }
 
-  // Test the OpenAI connection
-  async testConnection(): Promise<boolean> {
-    if (!this.isConfigured()) {
+  // Calculate cost based on token usage and model, at the rates in force on the given day (today by default).
+  // Undefined when no rate covers the model.
+  calculateCost(usage: TokenUsage, model: string | null | undefined, at?: string | Date): number | undefined {
+    return pricingRegistry.calculateCost(usage, model, at);
+  }
+
+  // Test a provider's connection; the teacher's current provider by default
+  async testConnection(provider: LLMProvider = this.provider): Promise<boolean> {
+    if (!provider.isConfigured()) {
       return false;
     }
 
     try {
-      const response = await this.createChatCompletion([
-        { role: 'user', content: 'Say "Hello" in one word.' }
-      ]);
+      const response = await this.completeChat(provider, {
+        model: 'gpt-3.5-turbo',
+        messages: [{ role: 'user', content: 'Say "Hello" in one word.' }],
+        temperature: DEFAULT_TEMPERATURE,
+        max_tokens: DEFAULT_MAX_TOKENS
+      });
 
-      return response.content.length > 0 && response.usage.totalTokens > 0;
+      return response.content.length > 0 && (!provider.reportsUsage || response.usage.totalTokens > 0);
     } catch (error) {
-      console.error('OpenAI connection test failed:', error);
+      console.error(`${provider.label} connection test failed:`, error);
       return false;
     }
   }
@@ -0,0 +1,139 @@
+import { supabase, Database, PlaygroundTurnRecord } from '../lib/supabase';
+import { openAIService, TokenUsage } from './openaiService';
+
+export interface PlaygroundSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  systemPrompt: string;
+}
+
+export interface PlaygroundTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  // Set on assistant turns once the reply has finished streaming
+  model?: string;
+  usage?: TokenUsage;
+  // Left unset when no rate covers the model
+  cost?: number;
+}
+
+export interface PlaygroundSession extends PlaygroundSettings {
+  id: string;
+  name: string;
+  turns: PlaygroundTurn[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+type PlaygroundSessionRow = Database['public']['Tables']['playground_sessions']['Row'];
+
+// Replies are priced at the rates in force when the session was last saved
+const toTurn = (turn: PlaygroundTurnRecord, savedAt: string): PlaygroundTurn => {
+  if (turn.prompt_tokens == null || turn.completion_tokens == null) {
+    return { role: turn.role, content: turn.content, model: turn.model };
+  }
+
+  const usage = {
+    promptTokens: turn.prompt_tokens,
+    completionTokens: turn.completion_tokens,
+    totalTokens: turn.prompt_tokens + turn.completion_tokens
+  };
+  return {
+    role: turn.role,
+    content: turn.content,
+    model: turn.model,
+    usage,
+    cost: openAIService.calculateCost(usage, turn.model, savedAt)
+  };
+};
+
+const toTurnRecord = (turn: PlaygroundTurn): PlaygroundTurnRecord => ({
+  role: turn.role,
+  content: turn.content,
+  ...(turn.model ? { model: turn.model } : {}),
+  ...(turn.usage ? { prompt_tokens: turn.usage.promptTokens, completion_tokens: turn.usage.completionTokens } : {})
+});
+
+const toPlaygroundSession = (session: PlaygroundSessionRow): PlaygroundSession => ({
+  id: session.id,
+  name: session.name,
+  model: session.model,
+  temperature: Number(session.temperature),
+  maxTokens: session.max_tokens,
+  systemPrompt: session.system_prompt,
+  turns: (session.turns ?? []).map(turn => toTurn(turn, session.updated_at)),
+  createdAt: session.created_at,
+  updatedAt: session.updated_at
+});
+
+class PlaygroundService {
+  async listSessions(userId: string): Promise<PlaygroundSession[]> {
+    const { data, error } = await supabase
+      .from('playground_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching playground sessions:', error);
+      throw error;
+    }
+
+    return data.map(toPlaygroundSession);
+  }
+
+  // Creates a new session, or overwrites the given one when an id is passed
+  async saveSession(
+    userId: string,
+    session: PlaygroundSettings & { id?: string; name: string; turns: PlaygroundTurn[] }
+  ): Promise<PlaygroundSession> {
+    const sessionData = {
+      user_id: userId,
+      name: session.name,
+      model: session.model,
+      temperature: session.temperature,
+      max_tokens: session.maxTokens,
+      system_prompt: session.systemPrompt,
+      turns: session.turns.map(toTurnRecord),
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = session.id
+      ? await supabase
+          .from('playground_sessions')
+          .update(sessionData)
+          .eq('id', session.id)
+          .eq('user_id', userId)
+          .select()
+          .single()
+      : await supabase
+          .from('playground_sessions')
+          .insert(sessionData)
+          .select()
+          .single();
+
+    if (error) {
+      console.error('Error saving playground session:', error);
+      throw error;
+    }
+
+    return toPlaygroundSession(data);
+  }
+
+  async deleteSession(userId: string, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('playground_sessions')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting playground session:', error);
+      throw error;
+    }
+  }
+}
+
+export const playgroundService = new PlaygroundService();
+export default playgroundService;
\ No newline at end of file
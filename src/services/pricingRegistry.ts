@@ -0,0 +1,101 @@
+import type { TokenUsage } from './openaiService';
+
+// A model family's rates from a given day on; a later entry for the same family supersedes it
+export interface ModelPrice {
+  id?: string;
+  // Matches the model itself and its dated snapshots, e.g. 'gpt-4o' prices 'gpt-4o-2024-08-06'
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  // Prompt tokens served from OpenAI's cache; null when the family has no cached rate
+  cachedInputPerMillion: number | null;
+  // YYYY-MM-DD, inclusive
+  effectiveFrom: string;
+  isDefault: boolean;
+}
+
+export interface CostBreakdown {
+  input: number;
+  output: number;
+}
+
+// USD per 1M tokens, as published by OpenAI. Teachers can add newer rates from Settings.
+// The default_model_prices table holds the same rates for the budget check in Postgres.
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gpt-3.5-turbo', inputPerMillion: 1.5, outputPerMillion: 2, cachedInputPerMillion: null, effectiveFrom: '2023-03-01', isDefault: true },
+  { model: 'gpt-3.5-turbo', inputPerMillion: 0.5, outputPerMillion: 1.5, cachedInputPerMillion: null, effectiveFrom: '2024-01-25', isDefault: true },
+  { model: 'gpt-4', inputPerMillion: 30, outputPerMillion: 60, cachedInputPerMillion: null, effectiveFrom: '2023-03-14', isDefault: true },
+  { model: 'gpt-4-turbo', inputPerMillion: 10, outputPerMillion: 30, cachedInputPerMillion: null, effectiveFrom: '2023-11-06', isDefault: true },
+  { model: 'gpt-4o', inputPerMillion: 5, outputPerMillion: 15, cachedInputPerMillion: null, effectiveFrom: '2024-05-13', isDefault: true },
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10, cachedInputPerMillion: 1.25, effectiveFrom: '2024-10-01', isDefault: true },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6, cachedInputPerMillion: 0.075, effectiveFrom: '2024-07-18', isDefault: true },
+  { model: 'omni-moderation', inputPerMillion: 0, outputPerMillion: 0, cachedInputPerMillion: null, effectiveFrom: '2024-09-26', isDefault: true }
+];
+
+const toDateKey = (at: string | Date | undefined) => {
+  if (!at) return new Date().toISOString().split('T')[0];
+  return typeof at === 'string' ? at.slice(0, 10) : at.toISOString().split('T')[0];
+};
+
+const matchesFamily = (model: string, family: string) => model === family || model.startsWith(`${family}-`);
+
+// Costs read "unpriced" rather than showing a guess when no rate covers the model
+export const formatCost = (cost: number | null | undefined, digits = 4) =>
+  cost == null ? 'unpriced' : `$${cost.toFixed(digits)}`;
+
+class PricingRegistry {
+  private customPrices: ModelPrice[] = [];
+
+  // The teacher's own rates; on the same family and day they win over the defaults
+  setCustomPrices(prices: ModelPrice[]): void {
+    this.customPrices = prices.map(price => ({ ...price, isDefault: false }));
+  }
+
+  getPrices(): ModelPrice[] {
+    return [...this.customPrices, ...DEFAULT_MODEL_PRICES].sort((a, b) =>
+      a.model.localeCompare(b.model) || b.effectiveFrom.localeCompare(a.effectiveFrom) || Number(a.isDefault) - Number(b.isDefault)
+    );
+  }
+
+  // The rate in force for a model on a given day: most specific family first, then the latest start date.
+  // Undefined when nobody has priced the model, e.g. a new OpenAI model or an Azure deployment name.
+  findPrice(model: string | null | undefined, at?: string | Date): ModelPrice | undefined {
+    if (!model) return undefined;
+    const date = toDateKey(at);
+    const candidates = this.getPrices().filter(price => price.effectiveFrom <= date);
+
+    const familyFor = (name: string) => candidates
+      .filter(price => matchesFamily(name, price.model))
+      .sort((a, b) => b.model.length - a.model.length)[0]?.model;
+
+    const family = familyFor(model);
+    // getPrices keeps each family newest first with custom rates ahead of defaults
+    return family ? candidates.find(price => price.model === family) : undefined;
+  }
+
+  // Unrounded input and output cost, for summing many small usage records; undefined when unpriced
+  calculateCostBreakdown(usage: TokenUsage, model: string | null | undefined, at?: string | Date): CostBreakdown | undefined {
+    const price = this.findPrice(model, at);
+    if (!price) return undefined;
+
+    const cachedTokens = price.cachedInputPerMillion === null ? 0 : Math.min(usage.cachedTokens ?? 0, usage.promptTokens);
+    const uncachedCost = (usage.promptTokens - cachedTokens) * price.inputPerMillion / 1000000;
+    const cachedCost = cachedTokens * (price.cachedInputPerMillion ?? 0) / 1000000;
+
+    return {
+      input: uncachedCost + cachedCost,
+      output: usage.completionTokens * price.outputPerMillion / 1000000
+    };
+  }
+
+  calculateCost(usage: TokenUsage, model: string | null | undefined, at?: string | Date): number | undefined {
+    const breakdown = this.calculateCostBreakdown(usage, model, at);
+    if (!breakdown) return undefined;
+
+    const { input, output } = breakdown;
+    return Math.round((input + output) * 10000) / 10000; // Round to 4 decimal places
+  }
+}
+
+export const pricingRegistry = new PricingRegistry();
+export default pricingRegistry;
\ No newline at end of file
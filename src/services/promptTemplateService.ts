@@ -0,0 +1,282 @@
+import { supabase, Database, PromptVariableRecord } from '../lib/supabase';
+import { Student } from '../contexts/StudentsContext';
+
+export interface PromptVariable {
+  name: string;
+  defaultValue: string;
+}
+
+export interface PromptTemplateVersion {
+  id: string;
+  templateId: string;
+  version: number;
+  content: string;
+  variables: PromptVariable[];
+  note: string | null;
+  createdAt: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  currentVersion: number;
+  content: string;
+  variables: PromptVariable[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplateData {
+  name: string;
+  description: string;
+  content: string;
+  variables: PromptVariable[];
+}
+
+// Variables filled from the student a prompt is rendered for
+export const STUDENT_VARIABLES: Record<string, { label: string; resolve: (student: Student) => string }> = {
+  first_name: { label: 'Student first name', resolve: student => student.firstName },
+  last_name: { label: 'Student last name', resolve: student => student.lastName },
+  full_name: { label: 'Student full name', resolve: student => `${student.firstName} ${student.lastName}` },
+  enrollment_date: { label: 'Enrollment date', resolve: student => new Date(student.enrollmentDate).toLocaleDateString() }
+};
+
+export const STARTER_TEMPLATE_CONTENT = `You are a friendly tutor helping {{first_name}}, a {{grade}} student, with {{subject}}.
+Explain ideas step by step at their level, ask a question back to check understanding,
+and never just hand over the answer to homework.`;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/gi;
+
+// Every {{variable}} in the content, in order of first use
+export const extractVariableNames = (content: string): string[] =>
+  Array.from(new Set(Array.from(content.matchAll(VARIABLE_PATTERN), match => match[1].toLowerCase())));
+
+// The teacher-filled variables a template needs: those not taken from the student record
+export const getCustomVariableNames = (content: string): string[] =>
+  extractVariableNames(content).filter(name => !STUDENT_VARIABLES[name]);
+
+export const getStudentValues = (student: Student): Record<string, string> =>
+  Object.fromEntries(Object.entries(STUDENT_VARIABLES).map(([name, variable]) => [name, variable.resolve(student)]));
+
+// Unknown variables are left as written so a missing value is easy to spot in the preview
+export const renderTemplate = (content: string, values: Record<string, string>): string =>
+  content.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name.toLowerCase()] ?? placeholder);
+
+type PromptTemplateRow = Database['public']['Tables']['prompt_templates']['Row'];
+type PromptTemplateVersionRow = Database['public']['Tables']['prompt_template_versions']['Row'];
+
+const toVariable = (variable: PromptVariableRecord): PromptVariable => ({
+  name: variable.name,
+  defaultValue: variable.default_value
+});
+
+const toVariableRecord = (variable: PromptVariable): PromptVariableRecord => ({
+  name: variable.name,
+  default_value: variable.defaultValue
+});
+
+const toVersion = (version: PromptTemplateVersionRow): PromptTemplateVersion => ({
+  id: version.id,
+  templateId: version.template_id,
+  version: version.version,
+  content: version.content,
+  variables: (version.variables ?? []).map(toVariable),
+  note: version.note,
+  createdAt: version.created_at
+});
+
+const toTemplate = (template: PromptTemplateRow, version: PromptTemplateVersion | undefined): PromptTemplate => ({
+  id: template.id,
+  name: template.name,
+  description: template.description,
+  currentVersion: template.current_version,
+  content: version?.content ?? '',
+  variables: version?.variables ?? [],
+  createdAt: template.created_at,
+  updatedAt: template.updated_at
+});
+
+class PromptTemplateService {
+  async listTemplates(userId: string): Promise<PromptTemplate[]> {
+    const [{ data: templates, error }, { data: versions, error: versionsError }] = await Promise.all([
+      supabase
+        .from('prompt_templates')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true }),
+      supabase
+        .from('prompt_template_versions')
+        .select('*')
+        .eq('user_id', userId)
+    ]);
+
+    if (error || versionsError) {
+      console.error('Error fetching prompt templates:', error || versionsError);
+      throw error || versionsError;
+    }
+
+    const currentVersions = new Map<string, PromptTemplateVersion>();
+    versions.map(toVersion).forEach(version => {
+      const template = templates.find(row => row.id === version.templateId);
+      if (template && template.current_version === version.version) {
+        currentVersions.set(version.templateId, version);
+      }
+    });
+
+    return templates.map(template => toTemplate(template, currentVersions.get(template.id)));
+  }
+
+  async createTemplate(userId: string, templateData: PromptTemplateData): Promise<PromptTemplate> {
+    const { data: template, error } = await supabase
+      .from('prompt_templates')
+      .insert({
+        user_id: userId,
+        name: templateData.name,
+        description: templateData.description,
+        current_version: 1
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating prompt template:', error);
+      throw error;
+    }
+
+    const version = await this.insertVersion(userId, template.id, 1, templateData, 'First version');
+    return toTemplate(template, version);
+  }
+
+  // Saves the content as a new version; name and description changes apply to the template itself
+  async saveTemplate(
+    userId: string,
+    template: PromptTemplate,
+    templateData: PromptTemplateData,
+    note: string | null
+  ): Promise<PromptTemplate> {
+    const contentChanged =
+      templateData.content !== template.content ||
+      JSON.stringify(templateData.variables) !== JSON.stringify(template.variables);
+    const latestVersion = contentChanged ? await this.getLatestVersionNumber(template.id) : template.currentVersion;
+    const version = contentChanged
+      ? await this.insertVersion(userId, template.id, latestVersion + 1, templateData, note)
+      : undefined;
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .update({
+        name: templateData.name,
+        description: templateData.description,
+        current_version: version?.version ?? template.currentVersion,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', template.id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving prompt template:', error);
+      throw error;
+    }
+
+    return toTemplate(data, version ?? {
+      id: '',
+      templateId: template.id,
+      version: template.currentVersion,
+      content: template.content,
+      variables: template.variables,
+      note: null,
+      createdAt: template.updatedAt
+    });
+  }
+
+  // Newest first
+  async listVersions(userId: string, templateId: string): Promise<PromptTemplateVersion[]> {
+    const { data, error } = await supabase
+      .from('prompt_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .eq('user_id', userId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching prompt template versions:', error);
+      throw error;
+    }
+
+    return data.map(toVersion);
+  }
+
+  // Rolling back copies the old version forward, so the history keeps everything in between
+  async rollbackTemplate(userId: string, template: PromptTemplate, target: PromptTemplateVersion): Promise<PromptTemplate> {
+    return this.saveTemplate(
+      userId,
+      template,
+      { name: template.name, description: template.description, content: target.content, variables: target.variables },
+      `Rolled back to version ${target.version}`
+    );
+  }
+
+  async deleteTemplate(userId: string, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('prompt_templates')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting prompt template:', error);
+      throw error;
+    }
+  }
+
+  private async getLatestVersionNumber(templateId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('prompt_template_versions')
+      .select('version')
+      .eq('template_id', templateId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching latest prompt template version:', error);
+      throw error;
+    }
+
+    return data?.version ?? 0;
+  }
+
+  private async insertVersion(
+    userId: string,
+    templateId: string,
+    version: number,
+    templateData: PromptTemplateData,
+    note: string | null
+  ): Promise<PromptTemplateVersion> {
+    const { data, error } = await supabase
+      .from('prompt_template_versions')
+      .insert({
+        template_id: templateId,
+        user_id: userId,
+        version,
+        content: templateData.content,
+        variables: templateData.variables.map(toVariableRecord),
+        note
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving prompt template version:', error);
+      throw error;
+    }
+
+    return toVersion(data);
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
+export default promptTemplateService;
\ No newline at end of file
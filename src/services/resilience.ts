@@ -0,0 +1,198 @@
+import { OpenAIProxyError } from './openaiProxy';
+
+export type LLMErrorKind =
+  | 'quota'
+  | 'auth'
+  | 'rate_limit'
+  | 'network'
+  | 'timeout'
+  | 'model'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+const RETRYABLE_KINDS: LLMErrorKind[] = ['rate_limit', 'network', 'timeout', 'server'];
+
+// What the teacher can do about each kind of failure; the message is what the UI shows
+const describe = (kind: LLMErrorKind, detail: string, retryAfter: number | null) => {
+  switch (kind) {
+    case 'quota':
+      return 'The AI account has run out of credit or hit its spending limit. Add credit or raise the limit in the provider\'s billing settings.';
+    case 'auth':
+      return 'The AI provider rejected the request\'s credentials. Sign in again, or ask your administrator to check the API key.';
+    case 'rate_limit':
+      return retryAfter
+        ? `Too many AI requests right now. Please try again in ${retryAfter} seconds.`
+        : 'Too many AI requests right now. Please wait a moment and try again.';
+    case 'network':
+      return 'Could not reach the AI provider. Check your internet connection, or that the local model server is running.';
+    case 'timeout':
+      return 'The AI provider took too long to answer. Please try again, perhaps with a shorter prompt.';
+    case 'model':
+      return `The selected model is not available (${detail}). Choose another model or check the provider settings.`;
+    case 'server':
+      return `The AI provider is having problems (${detail}). Please try again in a few minutes.`;
+    case 'cancelled':
+      return 'The request was cancelled.';
+    default:
+      return detail;
+  }
+};
+
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  // HTTP status from the provider or proxy; null for network failures and timeouts
+  status: number | null;
+  // Seconds the provider asked us to wait before trying again
+  retryAfter: number | null;
+  // The provider's own message, for logs
+  detail: string;
+
+  constructor(kind: LLMErrorKind, detail: string, status: number | null = null, retryAfter: number | null = null) {
+    super(describe(kind, detail, retryAfter));
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfter = retryAfter;
+    this.detail = detail;
+  }
+
+  get retryable(): boolean {
+    // 501 means the proxy is missing configuration, which waiting will not fix
+    return RETRYABLE_KINDS.includes(this.kind) && this.status !== 501;
+  }
+
+  static fromStatus(status: number, detail: string, retryAfter: number | null = null): LLMError {
+    if (status === 401 || status === 403) return new LLMError('auth', detail, status);
+    if (status === 402 || (status === 429 && /quota|billing|credit/i.test(detail))) return new LLMError('quota', detail, status);
+    if (status === 429) return new LLMError('rate_limit', detail, status, retryAfter);
+    if (status === 404 || (status === 400 && /model|deployment/i.test(detail))) return new LLMError('model', detail, status);
+    if (status === 408) return new LLMError('timeout', detail, status);
+    if (status >= 500) return new LLMError('server', detail, status, retryAfter);
+    return new LLMError('unknown', detail, status);
+  }
+}
+
+// Classify anything thrown while talking to a provider
+export const toLLMError = (error: unknown): LLMError => {
+  if (error instanceof LLMError) return error;
+  if (error instanceof OpenAIProxyError) {
+    // Status 0 is a missing proxy URL, which the raw message explains best
+    return error.status === 0
+      ? new LLMError('unknown', error.message)
+      : LLMError.fromStatus(error.status, error.message, error.retryAfter);
+  }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new LLMError('cancelled', error.message);
+  }
+  // fetch rejects with a TypeError when the server cannot be reached at all
+  if (error instanceof TypeError) {
+    return new LLMError('network', error.message);
+  }
+  return new LLMError('unknown', error instanceof Error ? error.message : 'Unknown error');
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LLMError('cancelled', 'Aborted while waiting to retry'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LLMError('cancelled', 'Aborted while waiting to retry'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Per attempt; for streams this covers the wait for the response to start
+  timeoutMs?: number;
+  // Longer Retry-After waits than this are not worth holding the teacher up for
+  maxRetryAfterSeconds?: number;
+  signal?: AbortSignal;
+}
+
+// Run a request, retrying rate limits, server errors, network failures and timeouts with
+// exponential backoff and full jitter. A Retry-After from the provider replaces the backoff.
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  {
+    retries = 3,
+    baseDelayMs = 500,
+    maxDelayMs = 8000,
+    timeoutMs = 60000,
+    maxRetryAfterSeconds = 60,
+    signal
+  }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await operation(controller.signal);
+    } catch (caught) {
+      clearTimeout(timer);
+      const error = timedOut
+        ? new LLMError('timeout', `No response within ${timeoutMs / 1000} seconds`)
+        : toLLMError(caught);
+
+      const retryAfterTooLong = error.retryAfter !== null && error.retryAfter > maxRetryAfterSeconds;
+      if (signal?.aborted || !error.retryable || retryAfterTooLong || attempt >= retries) {
+        throw error;
+      }
+
+      const delay = error.retryAfter !== null
+        ? error.retryAfter * 1000
+        : Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      console.warn(`Retrying after ${error.kind} error (attempt ${attempt + 1} of ${retries}) in ${Math.round(delay)}ms:`, error.detail);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
+
+// Client-side limiter so one browser tab cannot burst past the proxy's per-teacher limits:
+// holds up to `capacity` requests and refills at `refillPerSecond`
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) / 1000 * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  // Resolves once a request may be sent
+  async take(signal?: AbortSignal): Promise<void> {
+    while (true) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep((1 - this.tokens) / this.refillPerSecond * 1000, signal);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { SafetyCategory, SafetyFlag, SafetySeverity } from '../lib/supabase';
+
+export type { SafetyCategory, SafetyFlag, SafetySeverity };
+
+// Anything that can turn a student message into safety flags. Implementations return
+// an empty array for messages that need no attention.
+export interface SafetyClassifier {
+  name: string;
+  classify(text: string): Promise<SafetyFlag[]>;
+}
+
+export const SAFETY_CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  self_harm: 'Self-harm',
+  bullying: 'Bullying',
+  abuse: 'Abuse',
+  violence: 'Violence',
+  sexual: 'Sexual content',
+  hate: 'Hate'
+};
+
+const SEVERITY_RANK: Record<SafetySeverity, number> = { low: 1, medium: 2, high: 3 };
+
+export const compareSeverity = (a: SafetySeverity, b: SafetySeverity) =>
+  SEVERITY_RANK[a] - SEVERITY_RANK[b];
+
+export const highestSeverity = (flags: SafetyFlag[]): SafetySeverity | null =>
+  flags.reduce<SafetySeverity | null>(
+    (highest, flag) => (!highest || compareSeverity(flag.severity, highest) > 0 ? flag.severity : highest),
+    null
+  );
+
+interface KeywordRule {
+  category: SafetyCategory;
+  severity: SafetySeverity;
+  pattern: RegExp;
+}
+
+// Deliberately conservative phrases: a false positive costs a teacher a glance,
+// a miss can cost much more
+const KEYWORD_RULES: KeywordRule[] = [
+  { category: 'self_harm', severity: 'high', pattern: /\b(kill(ing)? myself|suicid(e|al)|end(ing)? my life|want to die|don'?t want to (live|be alive))\b/i },
+  { category: 'self_harm', severity: 'high', pattern: /\b(cut(ting)? myself|hurt(ing)? myself|self[- ]?harm)\b/i },
+  { category: 'self_harm', severity: 'medium', pattern: /\b(hate my life|no reason to live|better off without me|can'?t go on)\b/i },
+  { category: 'abuse', severity: 'high', pattern: /\b(hits? me|beats? me|touch(es|ed)? me|abus(e|ed|ing)|not safe at home|scared to go home)\b/i },
+  { category: 'bullying', severity: 'medium', pattern: /\b(bull(y|ied|ying)|everyone hates me|they (laugh|make fun) (at|of) me|picking on me)\b/i },
+  { category: 'bullying', severity: 'low', pattern: /\b(no one likes me|i have no friends|left out)\b/i },
+  { category: 'violence', severity: 'high', pattern: /\b(bring a (gun|knife)|shoot (up|them|him|her)|going to kill)\b/i },
+  { category: 'violence', severity: 'medium', pattern: /\b(fight(ing)? (me|him|her)|beat (him|her|them) up)\b/i },
+  { category: 'sexual', severity: 'high', pattern: /\b(send (me )?nudes|naked (pic|photo)s?|sext(ing)?)\b/i },
+  { category: 'hate', severity: 'medium', pattern: /\b(go back to your country|because (you'?re|i'?m) (black|gay|muslim|jewish))\b/i }
+];
+
+export class KeywordSafetyClassifier implements SafetyClassifier {
+  name = 'keywords';
+
+  constructor(private rules: KeywordRule[] = KEYWORD_RULES) {}
+
+  async classify(text: string): Promise<SafetyFlag[]> {
+    const byCategory = new Map<SafetyCategory, SafetyFlag>();
+
+    this.rules.forEach(rule => {
+      if (!rule.pattern.test(text)) return;
+
+      const existing = byCategory.get(rule.category);
+      if (!existing || compareSeverity(rule.severity, existing.severity) > 0) {
+        byCategory.set(rule.category, {
+          category: rule.category,
+          severity: rule.severity,
+          score: 1,
+          source: this.name
+        });
+      }
+    });
+
+    return Array.from(byCategory.values());
+  }
+}
+
+export const keywordSafetyClassifier = new KeywordSafetyClassifier();
\ No newline at end of file
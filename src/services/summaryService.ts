@@ -0,0 +1,162 @@
+import { supabase, Database } from '../lib/supabase';
+import { openAIService, TokenUsage } from './openaiService';
+import { Message } from '../contexts/MessagesContext';
+import { Student } from '../contexts/StudentsContext';
+
+export interface StudentSummary {
+  id: string;
+  studentId: string;
+  periodStart: string;
+  periodEnd: string;
+  topics: string[];
+  difficulties: string[];
+  followUps: string[];
+  engagementNote: string;
+  messageCount: number;
+  model: string;
+  usage: TokenUsage;
+  // Null when no rate covers the model
+  cost: number | null;
+  createdAt: string;
+}
+
+export interface GenerateSummaryOptions {
+  userId: string;
+  student: Student;
+  messages: Message[];
+  // Inclusive YYYY-MM-DD bounds of the summarised period
+  periodStart: string;
+  periodEnd: string;
+}
+
+type StudentSummaryRow = Database['public']['Tables']['student_summaries']['Row'];
+
+const SUMMARY_MODEL = 'gpt-3.5-turbo';
+// Keep the prompt bounded for very chatty students; the most recent exchanges matter most
+const MAX_MESSAGES_IN_PROMPT = 150;
+const MAX_CHARS_PER_MESSAGE = 400;
+
+const SYSTEM_PROMPT = `You help a teacher keep track of a student's learning from their conversations with a study assistant.
+Read the conversation and reply with JSON only, using exactly this shape:
+{"topics": string[], "difficulties": string[], "followUps": string[], "engagementNote": string}
+- topics: subjects and concepts the student worked on
+- difficulties: misunderstandings or problems that came up more than once
+- followUps: concrete next steps the teacher could take
+- engagementNote: one or two sentences on how engaged the student was
+Keep each list item short. Use empty arrays when there is nothing to report.`;
+
+const toStudentSummary = (summary: StudentSummaryRow): StudentSummary => ({
+  id: summary.id,
+  studentId: summary.student_id,
+  periodStart: summary.period_start,
+  periodEnd: summary.period_end,
+  topics: summary.topics ?? [],
+  difficulties: summary.difficulties ?? [],
+  followUps: summary.follow_ups ?? [],
+  engagementNote: summary.engagement_note,
+  messageCount: summary.message_count,
+  model: summary.model,
+  usage: {
+    promptTokens: summary.prompt_tokens,
+    completionTokens: summary.completion_tokens,
+    totalTokens: summary.total_tokens
+  },
+  cost: summary.cost === null ? null : Number(summary.cost),
+  createdAt: summary.created_at
+});
+
+const truncate = (text: string) =>
+  text.length > MAX_CHARS_PER_MESSAGE ? `${text.slice(0, MAX_CHARS_PER_MESSAGE)}…` : text;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+class SummaryService {
+  // Most recent stored summary for exactly this period, if one was generated before
+  async getLatestSummary(
+    userId: string,
+    studentId: string,
+    periodStart: string,
+    periodEnd: string
+  ): Promise<StudentSummary | null> {
+    const { data, error } = await supabase
+      .from('student_summaries')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('student_id', studentId)
+      .eq('period_start', periodStart)
+      .eq('period_end', periodEnd)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('Error fetching student summary:', error);
+      throw error;
+    }
+
+    return data[0] ? toStudentSummary(data[0]) : null;
+  }
+
+  // Ask the model for a structured summary of the period and store it with its usage
+  async generateSummary({ userId, student, messages, periodStart, periodEnd }: GenerateSummaryOptions): Promise<StudentSummary> {
+    if (messages.length === 0) {
+      throw new Error('There are no messages in this period to summarise');
+    }
+
+    const transcript = messages
+      .slice(-MAX_MESSAGES_IN_PROMPT)
+      .map(message => {
+        const date = new Date(message.createdAt).toLocaleDateString();
+        const reply = message.outputContent ? `\nAssistant: ${truncate(message.outputContent)}` : '';
+        return `[${date}] Student: ${truncate(message.inputContent || `(${message.messageType})`)}${reply}`;
+      })
+      .join('\n\n');
+
+    const response = await openAIService.createChatCompletion([
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Student: ${student.firstName}\nPeriod: ${periodStart} to ${periodEnd}\n\n${transcript}`
+      }
+    ], SUMMARY_MODEL);
+
+    let parsed: Record<string, unknown>;
+    try {
+      // Models occasionally wrap JSON in a markdown code fence
+      parsed = JSON.parse(response.content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch {
+      throw new Error('The summary could not be read. Please try regenerating it.');
+    }
+
+    const { data, error } = await supabase
+      .from('student_summaries')
+      .insert({
+        student_id: student.id,
+        user_id: userId,
+        period_start: periodStart,
+        period_end: periodEnd,
+        topics: toStringList(parsed.topics),
+        difficulties: toStringList(parsed.difficulties),
+        follow_ups: toStringList(parsed.followUps),
+        engagement_note: typeof parsed.engagementNote === 'string' ? parsed.engagementNote : '',
+        message_count: messages.length,
+        model: SUMMARY_MODEL,
+        prompt_tokens: response.usage.promptTokens,
+        completion_tokens: response.usage.completionTokens,
+        total_tokens: response.usage.totalTokens,
+        cost: openAIService.calculateCost(response.usage, SUMMARY_MODEL) ?? null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving student summary:', error);
+      throw error;
+    }
+
+    return toStudentSummary(data);
+  }
+}
+
+export const summaryService = new SummaryService();
+export default summaryService;
\ No newline at end of file
@@ -0,0 +1,79 @@
+export type TopicTagSource = 'llm' | 'keywords' | 'teacher';
+
+// A node of the teacher's taxonomy as the classifiers see it
+export interface TopicOption {
+  id: string;
+  parentId: string | null;
+  // Names from the root subject down to this topic, e.g. ['Math', 'Algebra', 'Linear equations']
+  path: string[];
+  keywords: string[];
+}
+
+export interface TopicMatch {
+  topicId: string;
+  confidence: number;
+  source: TopicTagSource;
+}
+
+// Anything that can map a student message onto topics from the taxonomy
+export interface TopicClassifier {
+  name: TopicTagSource;
+  classify(text: string, topics: TopicOption[]): Promise<TopicMatch[]>;
+}
+
+export const MAX_TOPICS_PER_MESSAGE = 3;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const countMatches = (text: string, term: string) => {
+  const trimmed = term.trim();
+  if (!trimmed) return 0;
+  const matches = text.match(new RegExp(`\\b${escapeRegExp(trimmed)}\\b`, 'gi'));
+  return matches ? matches.length : 0;
+};
+
+// Drop a topic when one of its descendants also matched; the more specific tag says more
+export const keepMostSpecific = (matches: TopicMatch[], topics: TopicOption[]): TopicMatch[] => {
+  const byId = new Map(topics.map(topic => [topic.id, topic]));
+  const matchedIds = new Set(matches.map(match => match.topicId));
+  const ancestorsOfMatches = new Set<string>();
+
+  matchedIds.forEach(id => {
+    let parentId = byId.get(id)?.parentId ?? null;
+    while (parentId) {
+      ancestorsOfMatches.add(parentId);
+      parentId = byId.get(parentId)?.parentId ?? null;
+    }
+  });
+
+  return matches.filter(match => !ancestorsOfMatches.has(match.topicId));
+};
+
+export class KeywordTopicClassifier implements TopicClassifier {
+  name: TopicTagSource = 'keywords';
+
+  async classify(text: string, topics: TopicOption[]): Promise<TopicMatch[]> {
+    const scored = topics
+      .map(topic => {
+        const terms = [topic.path[topic.path.length - 1], ...topic.keywords];
+        const hits = terms.reduce((sum, term) => sum + countMatches(text, term), 0);
+        return { topic, hits };
+      })
+      .filter(({ hits }) => hits > 0);
+
+    if (scored.length === 0) return [];
+
+    const maxHits = Math.max(...scored.map(({ hits }) => hits));
+    const matches = scored.map(({ topic, hits }) => ({
+      topicId: topic.id,
+      confidence: Math.round((hits / maxHits) * 100) / 100,
+      source: this.name
+    }));
+
+    return keepMostSpecific(matches, topics)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_TOPICS_PER_MESSAGE);
+  }
+}
+
+export const keywordTopicClassifier = new KeywordTopicClassifier();
\ No newline at end of file
@@ -0,0 +1,129 @@
+export type UsageSourceName = 'legacy' | 'organization';
+
+// One model's usage on one day, as reported by one of OpenAI's usage APIs
+export interface DailyUsageItem {
+  model: string;
+  // null when the source does not break usage down by project
+  projectId: string | null;
+  requests: number;
+  promptTokens: number;
+  // Part of promptTokens served from OpenAI's prompt cache
+  cachedTokens: number;
+  completionTokens: number;
+  // The day's entry had request counts but no token counts, so the tokens are guessed from requests
+  estimated: boolean;
+}
+
+// What OpenAI billed for one project and line item on one day
+export interface DailyCostItem {
+  projectId: string | null;
+  lineItem: string | null;
+  amount: number;
+  currency: string;
+}
+
+export interface DailyUsageRecord {
+  // YYYY-MM-DD, UTC like the usage API
+  date: string;
+  source: UsageSourceName;
+  items: DailyUsageItem[];
+  // null when the source reports no billed amounts
+  costs: DailyCostItem[] | null;
+  fetchedAt: string;
+}
+
+const DB_NAME = 'teacher-platform-usage';
+// Version 2 keys days by the signed-in user as well, so one teacher never reads another's cached usage
+const DB_VERSION = 2;
+const STORE_NAME = 'daily_usage';
+
+type CachedUsageRecord = DailyUsageRecord & { userId: string };
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Browser-local store of the organisation's daily OpenAI usage, per signed-in user and cleared on
+// sign-out. Costs are not stored, so changing a model price in Settings never leaves stale figures behind.
+class UsageCache {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  // Resolves to null where IndexedDB is unavailable (e.g. some private windows); the cache then stays empty
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          // Days cached by version 1 belong to no one in particular, so they are dropped
+          if (request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.deleteObjectStore(STORE_NAME);
+          }
+          request.result.createObjectStore(STORE_NAME, { keyPath: ['userId', 'date'] });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Usage cache unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // A day is final once it was fetched after it ended; until then OpenAI may still add to it
+  isFinal(record: DailyUsageRecord): boolean {
+    const nextDay = new Date(`${record.date}T00:00:00Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    return new Date(record.fetchedAt) >= nextDay;
+  }
+
+  async getDays(userId: string, dates: string[]): Promise<Map<string, DailyUsageRecord>> {
+    const records = new Map<string, DailyUsageRecord>();
+    const db = await this.open();
+    if (!db || dates.length === 0) return records;
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const found = await Promise.all(
+        dates.map(date => requestToPromise(store.get([userId, date]) as IDBRequest<CachedUsageRecord | undefined>))
+      );
+      found.forEach(cached => {
+        if (!cached) return;
+        const { userId: _owner, ...record } = cached;
+        records.set(record.date, record);
+      });
+    } catch (error) {
+      console.warn('Error reading usage cache:', error);
+    }
+    return records;
+  }
+
+  async putDay(userId: string, record: DailyUsageRecord): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const cached: CachedUsageRecord = { ...record, userId };
+      await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(cached));
+    } catch (error) {
+      console.warn(`Error caching usage for ${record.date}:`, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+  }
+}
+
+export const usageCache = new UsageCache();
+export default usageCache;
\ No newline at end of file
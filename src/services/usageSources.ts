@@ -0,0 +1,182 @@
+import { openAIProxy } from './openaiProxy';
+import { DailyCostItem, DailyUsageItem, DailyUsageRecord, UsageSourceName } from './usageCache';
+import { withRetry, toLLMError } from './resilience';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+// Anything that can report the organisation's OpenAI usage for a set of UTC days.
+// onDay is called as each day's data arrives, for progress reporting.
+export interface UsageSource {
+  name: UsageSourceName;
+  fetchDays(dates: string[], onDay: (date: string) => void): Promise<DailyUsageRecord[]>;
+}
+
+// Kept low so a month-long range does not trip OpenAI's rate limits
+const LEGACY_FETCH_CONCURRENCY = 4;
+
+// Rough per-request sizes for legacy entries that only report request counts
+export const ESTIMATED_PROMPT_TOKENS_PER_REQUEST = 100;
+export const ESTIMATED_COMPLETION_TOKENS_PER_REQUEST = 50;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const toUnixTime = (date: string) => Date.parse(`${date}T00:00:00Z`) / 1000;
+const toDateKey = (unixTime: number) => new Date(unixTime * 1000).toISOString().split('T')[0];
+
+// The undocumented per-day /v1/usage endpoint, one request per day. Its field names have
+// changed over time, so each known spelling is tried in turn.
+export class LegacyUsageSource implements UsageSource {
+  name: UsageSourceName = 'legacy';
+
+  private async fetchDay(date: string): Promise<DailyUsageRecord> {
+    const fetchedAt = new Date().toISOString();
+    const dayData = await withRetry(async signal =>
+      (await openAIProxy.fetch('usage', { query: { date }, signal })).json()
+    );
+    const items: DailyUsageItem[] = [];
+
+    if (dayData.data && Array.isArray(dayData.data)) {
+      dayData.data.forEach((item: any) => {
+        const promptTokens = item.n_context_tokens_total || item.prompt_tokens || item.n_prompt_tokens || 0; // Input tokens
+        const completionTokens = item.n_generated_tokens_total || item.completion_tokens || item.n_completion_tokens || 0; // Output tokens
+        const totalTokens = item.total_tokens || item.n_tokens || (promptTokens + completionTokens);
+        const model = item.snapshot_id || item.model || item.engine || 'unknown model';
+        const requests = item.n_requests || 0;
+
+        // No token data: guess from the request count and flag the entry as estimated
+        const estimated = totalTokens === 0 && requests > 0;
+        items.push({
+          model,
+          projectId: null,
+          requests,
+          promptTokens: estimated ? requests * ESTIMATED_PROMPT_TOKENS_PER_REQUEST : promptTokens,
+          cachedTokens: 0,
+          completionTokens: estimated ? requests * ESTIMATED_COMPLETION_TOKENS_PER_REQUEST : completionTokens,
+          estimated
+        });
+      });
+    }
+
+    return { date, source: this.name, items, costs: null, fetchedAt };
+  }
+
+  // Days that still fail after retrying are left out, so callers can report them and the next call tries again
+  async fetchDays(dates: string[], onDay: (date: string) => void): Promise<DailyUsageRecord[]> {
+    const records = await mapWithConcurrency(dates, LEGACY_FETCH_CONCURRENCY, async (date) => {
+      try {
+        return await this.fetchDay(date);
+      } catch (dayError) {
+        // Not an admin: every other day would be refused too
+        if (toLLMError(dayError).status === 403) throw dayError;
+        console.warn(`Failed to fetch usage for ${date}:`, dayError);
+        return null;
+      } finally {
+        onDay(date);
+      }
+    });
+
+    return records.filter((record): record is DailyUsageRecord => !!record);
+  }
+}
+
+interface OrganizationPage<T> {
+  data: Array<{ start_time: number; end_time: number; results: T[] }>;
+  has_more: boolean;
+  next_page: string | null;
+}
+
+interface CompletionsUsageResult {
+  input_tokens: number;
+  input_cached_tokens?: number;
+  output_tokens: number;
+  num_model_requests: number;
+  model: string | null;
+  project_id: string | null;
+}
+
+interface CostResult {
+  amount: { value: number; currency: string };
+  line_item: string | null;
+  project_id: string | null;
+}
+
+// OpenAI's organization Usage and Costs APIs: daily buckets for a whole range, paginated,
+// read with the admin key the proxy holds. Token counts are exact and costs are as billed.
+export class OrganizationUsageSource implements UsageSource {
+  name: UsageSourceName = 'organization';
+
+  // Every bucket between the two UTC days, following next_page until the range is exhausted
+  private async fetchBuckets<T>(
+    route: 'org-usage' | 'org-costs',
+    startDate: string,
+    endDate: string,
+    groupBy: string[],
+    limit: number,
+    onBucket?: (date: string) => void
+  ): Promise<Map<string, T[]>> {
+    const buckets = new Map<string, T[]>();
+    let page: string | null = null;
+
+    do {
+      const query: Record<string, string> = {
+        start_time: String(toUnixTime(startDate)),
+        end_time: String(toUnixTime(endDate) + DAY_SECONDS),
+        bucket_width: '1d',
+        group_by: groupBy.join(','),
+        limit: String(limit),
+        ...(page ? { page } : {})
+      };
+      const payload: OrganizationPage<T> = await withRetry(async signal =>
+        (await openAIProxy.fetch(route, { query, signal })).json() as Promise<OrganizationPage<T>>
+      );
+
+      payload.data.forEach(bucket => {
+        const date = toDateKey(bucket.start_time);
+        buckets.set(date, [...(buckets.get(date) ?? []), ...bucket.results]);
+        onBucket?.(date);
+      });
+      page = payload.has_more ? payload.next_page : null;
+    } while (page);
+
+    return buckets;
+  }
+
+  async fetchDays(dates: string[], onDay: (date: string) => void): Promise<DailyUsageRecord[]> {
+    if (dates.length === 0) return [];
+
+    const fetchedAt = new Date().toISOString();
+    const sortedDates = [...dates].sort();
+    const startDate = sortedDates[0];
+    const endDate = sortedDates[sortedDates.length - 1];
+    const wanted = new Set(dates);
+
+    // One range covers every missing day; days in between that were already cached are simply ignored
+    const [usageBuckets, costBuckets] = await Promise.all([
+      this.fetchBuckets<CompletionsUsageResult>('org-usage', startDate, endDate, ['model', 'project_id'], 31,
+        date => wanted.has(date) && onDay(date)),
+      this.fetchBuckets<CostResult>('org-costs', startDate, endDate, ['project_id', 'line_item'], 180)
+    ]);
+
+    return dates.map(date => {
+      const items: DailyUsageItem[] = (usageBuckets.get(date) ?? []).map(result => ({
+        model: result.model ?? 'unknown',
+        projectId: result.project_id,
+        requests: result.num_model_requests,
+        promptTokens: result.input_tokens,
+        cachedTokens: result.input_cached_tokens ?? 0,
+        completionTokens: result.output_tokens,
+        estimated: false
+      }));
+      const costs: DailyCostItem[] = (costBuckets.get(date) ?? []).map(result => ({
+        projectId: result.project_id,
+        lineItem: result.line_item,
+        amount: Number(result.amount.value),
+        currency: result.amount.currency
+      }));
+
+      return { date, source: this.name, items, costs, fetchedAt };
+    });
+  }
+}
+
+export const legacyUsageSource = new LegacyUsageSource();
+export const organizationUsageSource = new OrganizationUsageSource();
\ No newline at end of file
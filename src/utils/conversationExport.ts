@@ -0,0 +1,228 @@
+import { Student } from '../contexts/StudentsContext';
+import { Message, OutboundMessage } from '../contexts/MessagesContext';
+
+export type ConversationExportFormat = 'pdf' | 'html' | 'json' | 'csv';
+
+export interface ConversationExportData {
+  student: Student;
+  messages: Message[];
+  outboundMessages: OutboundMessage[];
+  startDate?: string;
+  endDate?: string;
+}
+
+interface TranscriptEntry {
+  timestamp: string;
+  author: 'student' | 'assistant' | 'teacher';
+  content: string;
+  messageId: string;
+  attachment: string | null;
+  editedAt: string | null;
+}
+
+// Flatten messages (student input + reply) and teacher-sent messages into one timeline
+const toTranscript = ({ messages, outboundMessages }: ConversationExportData): TranscriptEntry[] => {
+  const entries: TranscriptEntry[] = [];
+
+  messages.forEach(message => {
+    entries.push({
+      timestamp: message.createdAt,
+      author: 'student',
+      content: message.inputContent,
+      messageId: message.id,
+      attachment: message.attachment?.fileName ?? null,
+      editedAt: null
+    });
+    if (message.outputContent) {
+      entries.push({
+        timestamp: message.createdAt,
+        author: message.outputAuthor === 'teacher' ? 'teacher' : 'assistant',
+        content: message.outputContent,
+        messageId: message.id,
+        attachment: null,
+        editedAt: message.outputEditedAt
+      });
+    }
+  });
+
+  outboundMessages.forEach(outbound => {
+    entries.push({
+      timestamp: outbound.sentAt || outbound.createdAt,
+      author: outbound.authorType === 'teacher' ? 'teacher' : 'assistant',
+      content: outbound.content,
+      messageId: outbound.id,
+      attachment: null,
+      editedAt: null
+    });
+  });
+
+  // Stable sort keeps each student message ahead of its reply
+  return entries.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
+
+const AUTHOR_LABELS: Record<TranscriptEntry['author'], string> = {
+  student: 'Student',
+  assistant: 'Assistant',
+  teacher: 'Teacher'
+};
+
+const getFileName = (data: ConversationExportData, extension: string) => {
+  const name = `${data.student.firstName}_${data.student.lastName}`.replace(/[^a-z0-9_-]+/gi, '_');
+  const range = data.startDate || data.endDate
+    ? `_${data.startDate || 'start'}_to_${data.endDate || 'today'}`
+    : '';
+  return `conversation_${name}${range}.${extension}`;
+};
+
+const getRangeLabel = ({ startDate, endDate }: ConversationExportData) => {
+  if (!startDate && !endDate) return 'Full history';
+  const from = startDate ? new Date(`${startDate}T00:00:00`).toLocaleDateString() : 'the beginning';
+  const to = endDate ? new Date(`${endDate}T00:00:00`).toLocaleDateString() : 'today';
+  return `From ${from} to ${to}`;
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const escapeCsv = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const buildTranscriptHtml = (data: ConversationExportData): string => {
+  const { student } = data;
+  const transcript = toTranscript(data);
+  let currentDay = '';
+
+  const rows = transcript.map(entry => {
+    const date = new Date(entry.timestamp);
+    const day = date.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+    const dayHeader = day !== currentDay ? `<h2>${escapeHtml(day)}</h2>` : '';
+    currentDay = day;
+
+    return `${dayHeader}
+      <div class="entry ${entry.author}">
+        <div class="meta">${AUTHOR_LABELS[entry.author]} · ${escapeHtml(date.toLocaleTimeString())}${entry.editedAt ? ' · edited' : ''}</div>
+        ${entry.attachment ? `<div class="attachment">📎 ${escapeHtml(entry.attachment)}</div>` : ''}
+        <div class="content">${escapeHtml(entry.content)}</div>
+      </div>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Conversation with ${escapeHtml(student.firstName)} ${escapeHtml(student.lastName)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #2d3748; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+    header { border-bottom: 2px solid #e2e8f0; padding-bottom: 1rem; margin-bottom: 1rem; }
+    header h1 { margin: 0 0 0.5rem; }
+    header p { margin: 0.125rem 0; color: #4a5568; }
+    h2 { font-size: 0.875rem; color: #718096; text-transform: uppercase; margin: 1.5rem 0 0.5rem; }
+    .entry { padding: 0.5rem 0.75rem; margin-bottom: 0.5rem; border-left: 3px solid #cbd5e0; page-break-inside: avoid; }
+    .entry.assistant { border-left-color: #4299e1; }
+    .entry.teacher { border-left-color: #38a169; }
+    .meta { font-size: 0.75rem; color: #718096; margin-bottom: 0.25rem; }
+    .attachment { font-size: 0.75rem; color: #4a5568; font-style: italic; }
+    .content { white-space: pre-wrap; word-break: break-word; }
+    .empty { color: #718096; font-style: italic; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(student.firstName)} ${escapeHtml(student.lastName)}</h1>
+    <p>Phone: ${escapeHtml(student.phone)}</p>
+    <p>Enrolled: ${escapeHtml(new Date(student.enrollmentDate).toLocaleDateString())}</p>
+    <p>${escapeHtml(getRangeLabel(data))} · ${data.messages.length} messages</p>
+    <p>Exported ${escapeHtml(new Date().toLocaleString())}</p>
+  </header>
+  ${rows || '<p class="empty">No messages in this period.</p>'}
+</body>
+</html>`;
+};
+
+export const exportConversation = (format: ConversationExportFormat, data: ConversationExportData): void => {
+  switch (format) {
+    case 'pdf': {
+      // Browsers render the transcript and offer "Save as PDF" from the print dialog
+      const printWindow = window.open('', '_blank');
+      if (!printWindow) {
+        throw new Error('Allow pop-ups for this site to print the transcript');
+      }
+      printWindow.document.write(buildTranscriptHtml(data));
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.onload = () => printWindow.print();
+      return;
+    }
+    case 'html':
+      downloadFile(buildTranscriptHtml(data), getFileName(data, 'html'), 'text/html;charset=utf-8;');
+      return;
+    case 'json': {
+      const payload = {
+        student: {
+          id: data.student.id,
+          firstName: data.student.firstName,
+          lastName: data.student.lastName,
+          phone: data.student.phone,
+          enrollmentDate: data.student.enrollmentDate
+        },
+        range: { startDate: data.startDate ?? null, endDate: data.endDate ?? null },
+        exportedAt: new Date().toISOString(),
+        messages: data.messages.map(message => ({
+          id: message.id,
+          createdAt: message.createdAt,
+          messageType: message.messageType,
+          input: message.inputContent,
+          output: message.outputContent,
+          outputAuthor: message.outputAuthor,
+          outputEditedAt: message.outputEditedAt,
+          attachment: message.attachment
+            ? { fileName: message.attachment.fileName, mimeType: message.attachment.mimeType, size: message.attachment.size }
+            : null
+        })),
+        outboundMessages: data.outboundMessages.map(outbound => ({
+          id: outbound.id,
+          createdAt: outbound.createdAt,
+          sentAt: outbound.sentAt,
+          authorType: outbound.authorType,
+          status: outbound.status,
+          content: outbound.content
+        }))
+      };
+      downloadFile(JSON.stringify(payload, null, 2), getFileName(data, 'json'), 'application/json;charset=utf-8;');
+      return;
+    }
+    case 'csv': {
+      const headers = ['Timestamp', 'Author', 'Content', 'Attachment', 'Edited At', 'Message ID'];
+      const csvContent = [
+        headers.join(','),
+        ...toTranscript(data).map(entry => [
+          escapeCsv(entry.timestamp),
+          escapeCsv(AUTHOR_LABELS[entry.author]),
+          escapeCsv(entry.content),
+          escapeCsv(entry.attachment ?? ''),
+          escapeCsv(entry.editedAt ?? ''),
+          escapeCsv(entry.messageId)
+        ].join(','))
+      ].join('\n');
+      downloadFile(csvContent, getFileName(data, 'csv'), 'text/csv;charset=utf-8;');
+      return;
+    }
+  }
+};
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { Student, CreateStudentData } from '../contexts/StudentsContext';
+import { Student, CreateStudentData, GuardianContact } from '../contexts/StudentsContext';
+import { StudentField, parseFieldValue } from '../contexts/StudentFieldsContext';
 
 export interface ImportResult {
   success: boolean;
@@ -7,25 +8,61 @@ export interface ImportResult {
   invalidRows?: number[];
 }
 
-export const exportStudentsToCSV = (students: Student[]): void => {
+const GUARDIAN_COLUMNS: Array<{ key: keyof GuardianContact; label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'relationship', label: 'Relationship' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' }
+];
+
+// Rows are read back one line at a time, so line breaks inside a value become spaces
+const toCSVCell = (value: string | number | null | undefined) =>
+  `"${String(value ?? '').replace(/"/g, '""').replace(/\r?\n/g, ' ')}"`;
+
+// Custom fields are exported under their names; scopeName, e.g. the selected class, goes into the file name
+export const exportStudentsToCSV = (students: Student[], fields: StudentField[] = [], scopeName?: string): void => {
   if (students.length === 0) {
     alert('No students to export');
     return;
   }
 
+  // One set of guardian columns per guardian, as many as the student with the most
+  const guardianCount = students.reduce((max, student) => Math.max(max, student.guardians.length), 0);
+  const guardianIndexes = Array.from({ length: guardianCount }, (_, index) => index);
+
   // Define CSV headers
-  const headers = ['First Name', 'Last Name', 'Phone', 'Status', 'Enrollment Date'];
+  const headers = [
+    'First Name',
+    'Last Name',
+    'Phone',
+    'Email',
+    'Grade Level',
+    'Date of Birth',
+    'Status',
+    'Enrollment Date',
+    'Notes',
+    'Tags',
+    ...guardianIndexes.flatMap(index => GUARDIAN_COLUMNS.map(column => `Guardian ${index + 1} ${column.label}`)),
+    ...fields.map(field => field.name)
+  ];
 
   // Create CSV content
   const csvContent = [
-    headers.join(','),
+    headers.map(toCSVCell).join(','),
     ...students.map(student => [
-      `"${student.firstName}"`,
-      `"${student.lastName}"`,
-      `"${student.phone}"`,
-      `"${student.status}"`,
-      `"${student.enrollmentDate}"`
-    ].join(','))
+      student.firstName,
+      student.lastName,
+      student.phone,
+      student.email,
+      student.gradeLevel,
+      student.dateOfBirth,
+      student.status,
+      student.enrollmentDate,
+      student.notes,
+      student.tags.join('; '),
+      ...guardianIndexes.flatMap(index => GUARDIAN_COLUMNS.map(column => student.guardians[index]?.[column.key])),
+      ...fields.map(field => student.customFields[field.id])
+    ].map(toCSVCell).join(','))
   ].join('\n');
 
   // Create and download file
@@ -35,7 +72,8 @@ export const exportStudentsToCSV = (students: Student[]): void => {
   if (link.download !== undefined) {
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
-    link.setAttribute('download', `students_export_${new Date().toISOString().split('T')[0]}.csv`);
+    const scope = scopeName ? `${scopeName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')}_` : '';
+    link.setAttribute('download', `students_${scope}export_${new Date().toISOString().split('T')[0]}.csv`);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
@@ -43,14 +81,15 @@ export const exportStudentsToCSV = (students: Student[]): void => {
   }
 };
 
-export const parseCSVFile = (file: File): Promise<ImportResult> => {
+// Optional columns and columns named after the teacher's fields are read when present
+export const parseCSVFile = (file: File, fields: StudentField[] = []): Promise<ImportResult> => {
   return new Promise((resolve) => {
     const reader = new FileReader();
 
     reader.onload = (e) => {
       try {
         const text = e.target?.result as string;
-        const result = parseCSVText(text);
+        const result = parseCSVText(text, fields);
         resolve(result);
       } catch (error) {
         resolve({
@@ -71,7 +110,7 @@ export const parseCSVFile = (file: File): Promise<ImportResult> => {
   });
 };
 
-const parseCSVText = (text: string): ImportResult => {
+const parseCSVText = (text: string, fields: StudentField[]): ImportResult => {
   const lines = text.split('\n').filter(line => line.trim() !== '');
 
   if (lines.length < 2) {
@@ -113,7 +152,7 @@ const parseCSVText = (text: string): ImportResult => {
     if (rowData.length === 0) continue; // Skip empty rows
 
     try {
-      const student = parseStudentRow(rowData, headerMap);
+      const student = parseStudentRow(rowData, headerMap, fields);
       if (student) {
         data.push(student);
       } else {
@@ -167,11 +206,15 @@ const parseCSVRow = (row: string): string[] => {
 
 const parseStudentRow = (
   rowData: string[],
-  headerMap: { [key: string]: number }
+  headerMap: { [key: string]: number },
+  fields: StudentField[]
 ): CreateStudentData | null => {
-  const firstName = rowData[headerMap['first name']]?.replace(/^"|"$/g, '').trim();
-  const lastName = rowData[headerMap['last name']]?.replace(/^"|"$/g, '').trim();
-  const phone = rowData[headerMap['phone']]?.replace(/^"|"$/g, '').trim();
+  const readColumn = (header: string) =>
+    header in headerMap ? rowData[headerMap[header]]?.replace(/^"|"$/g, '').trim() ?? '' : '';
+
+  const firstName = readColumn('first name');
+  const lastName = readColumn('last name');
+  const phone = readColumn('phone');
 
   // Validate required fields
   if (!firstName || !lastName || !phone) {
@@ -188,19 +231,53 @@ const parseStudentRow = (
     throw new Error(`Invalid phone number format: ${phone}`);
   }
 
+  const dateOfBirth = readColumn('date of birth');
+  if (dateOfBirth && (!/^\d{4}-\d{2}-\d{2}$/.test(dateOfBirth) || isNaN(Date.parse(dateOfBirth)))) {
+    throw new Error(`Invalid date of birth (use YYYY-MM-DD): ${dateOfBirth}`);
+  }
+
+  const guardians: GuardianContact[] = [];
+  for (let index = 1; `guardian ${index} name` in headerMap || `guardian ${index} phone` in headerMap; index++) {
+    const guardian: GuardianContact = {
+      name: readColumn(`guardian ${index} name`),
+      relationship: readColumn(`guardian ${index} relationship`),
+      phone: readColumn(`guardian ${index} phone`),
+      email: readColumn(`guardian ${index} email`)
+    };
+    if (guardian.name || guardian.phone || guardian.email) guardians.push(guardian);
+  }
+
+  const customFields: CreateStudentData['customFields'] = {};
+  fields.forEach(field => {
+    const raw = readColumn(field.name.toLowerCase().trim());
+    const value = parseFieldValue(field, raw);
+    if (value === undefined) {
+      throw new Error(field.type === 'select'
+        ? `Invalid value for ${field.name}: ${raw} (expected one of ${field.options.join(', ')})`
+        : `Invalid value for ${field.name}: ${raw}`);
+    }
+    if (value !== null) customFields[field.id] = value;
+  });
+
   return {
     firstName,
     lastName,
-    phone
+    phone,
+    email: readColumn('email') || null,
+    gradeLevel: readColumn('grade level') || null,
+    dateOfBirth: dateOfBirth || null,
+    guardians,
+    notes: readColumn('notes'),
+    customFields
   };
 };
 
 export const generateSampleCSV = (): void => {
   const sampleData = [
-    ['First Name', 'Last Name', 'Phone'],
-    ['John', 'Doe', '(555) 123-4567'],
-    ['Jane', 'Smith', '+1 555 987-6543'],
-    ['Michael', 'Johnson', '555-111-2222']
+    ['First Name', 'Last Name', 'Phone', 'Email', 'Grade Level', 'Date of Birth', 'Guardian 1 Name', 'Guardian 1 Phone'],
+    ['John', 'Doe', '(555) 123-4567', 'john.doe@example.com', '7th grade', '2012-04-18', 'Mary Doe', '(555) 123-0000'],
+    ['Jane', 'Smith', '+1 555 987-6543', '', '8th grade', '', '', ''],
+    ['Michael', 'Johnson', '555-111-2222', '', '', '', '', '']
   ];
 
   const csvContent = sampleData.map(row =>
@@ -0,0 +1,64 @@
+import { Student } from '../contexts/StudentsContext';
+import { StudentField } from '../contexts/StudentFieldsContext';
+
+// Grade level is a built-in column but filters like the teacher's own fields
+export const GRADE_LEVEL_FILTER_ID = 'grade_level';
+
+export interface FieldFilter {
+  // A student_field_definitions id, or GRADE_LEVEL_FILTER_ID
+  fieldId: string;
+  // Text and choice fields
+  value: string;
+  // Inclusive bounds for number and date fields; blank leaves that side open
+  from: string;
+  to: string;
+}
+
+export const emptyFieldFilter: FieldFilter = { fieldId: '', value: '', from: '', to: '' };
+
+export const getFieldValue = (student: Student, fieldId: string): string | number | null => {
+  if (fieldId === GRADE_LEVEL_FILTER_ID) return student.gradeLevel;
+  return student.customFields[fieldId] ?? null;
+};
+
+export const matchesFieldFilter = (student: Student, filter: FieldFilter, fields: StudentField[]): boolean => {
+  if (!filter.fieldId) return true;
+
+  const field = fields.find(f => f.id === filter.fieldId);
+  const type = filter.fieldId === GRADE_LEVEL_FILTER_ID ? 'text' : field?.type;
+  if (!type) return true;
+
+  const value = getFieldValue(student, filter.fieldId);
+
+  switch (type) {
+    case 'number': {
+      if (!filter.from && !filter.to) return true;
+      if (typeof value !== 'number') return false;
+      return (!filter.from || value >= Number(filter.from)) && (!filter.to || value <= Number(filter.to));
+    }
+    case 'date':
+      if (!filter.from && !filter.to) return true;
+      if (typeof value !== 'string') return false;
+      // YYYY-MM-DD compares correctly as text
+      return (!filter.from || value >= filter.from) && (!filter.to || value <= filter.to);
+    case 'select':
+      return !filter.value || value === filter.value;
+    default:
+      return !filter.value.trim() || String(value ?? '').toLowerCase().includes(filter.value.trim().toLowerCase());
+  }
+};
+
+// Every word of the query must match the first name, last name or phone; digits also match
+// a phone however it was formatted, so "5551234" finds "(555) 123-4..."
+export const matchesStudentSearch = (student: Student, query: string): boolean => {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const phoneDigits = student.phone.replace(/\D/g, '');
+
+  return terms.every(term => {
+    const termDigits = term.replace(/[()+.-]/g, '');
+    return student.firstName.toLowerCase().includes(term)
+      || student.lastName.toLowerCase().includes(term)
+      || student.phone.toLowerCase().includes(term)
+      || (/^\d+$/.test(termDigits) && phoneDigits.includes(termDigits));
+  });
+};
\ No newline at end of file
@@ -0,0 +1,39 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Line-by-line diff from the longest common subsequence; prompts are short enough for the
+// quadratic table
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const oldLines = before.split('\n');
+  const newLines = after.split('\n');
+  const common: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      common[i][j] = oldLines[i] === newLines[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      lines.push({ type: 'same', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: oldLines[i++] });
+    } else {
+      lines.push({ type: 'added', text: newLines[j++] });
+    }
+  }
+  oldLines.slice(i).forEach(text => lines.push({ type: 'removed', text }));
+  newLines.slice(j).forEach(text => lines.push({ type: 'added', text }));
+
+  return lines;
+};
\ No newline at end of file
@@ -0,0 +1,357 @@
+// Supabase Edge Function that holds the OpenAI key on the server.
+// The browser calls /openai-proxy/<route> with the teacher's Supabase access token:
+//   POST /chat         chat completion (model, messages, temperature, max_tokens, stream), sent to
+//                      an Azure OpenAI deployment instead when the body has provider: 'azure' and deployment
+//   POST /moderations  moderation check (model, input)
+//   GET  /usage?date=  the organisation's OpenAI usage for one day (legacy usage API)
+//   GET  /org-usage    bucketed completions usage from the organization Usage API
+//   GET  /org-costs    bucketed spend from the organization Costs API
+//     (both take start_time, end_time, bucket_width, group_by as a comma list, limit and page)
+// The three usage routes cover the whole organisation, so only account admins may call them: users
+// listed in OPENAI_PROXY_ADMIN_USER_IDS or whose app_metadata.role is 'admin'. Everyone else gets 403.
+//
+// Secrets: OPENAI_API_KEY, optional OPENAI_ADMIN_KEY (needed by the organization routes),
+// OPENAI_ORG_ID, OPENAI_PROXY_ADMIN_USER_IDS (comma separated Supabase user ids),
+// OPENAI_PROXY_RATE_LIMIT_PER_MINUTE and OPENAI_PROXY_RATE_LIMIT_PER_DAY.
+// For Azure: AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY and optional AZURE_OPENAI_API_VERSION.
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are provided by Supabase.
+import { createClient, type User } from 'jsr:@supabase/supabase-js@2';
+
+const OPENAI_API_URL = 'https://api.openai.com/v1';
+const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
+const OPENAI_ADMIN_KEY = Deno.env.get('OPENAI_ADMIN_KEY');
+const OPENAI_ORG_ID = Deno.env.get('OPENAI_ORG_ID');
+
+const AZURE_OPENAI_ENDPOINT = Deno.env.get('AZURE_OPENAI_ENDPOINT')?.replace(/\/+$/, '');
+const AZURE_OPENAI_API_KEY = Deno.env.get('AZURE_OPENAI_API_KEY');
+const AZURE_OPENAI_API_VERSION = Deno.env.get('AZURE_OPENAI_API_VERSION') ?? '2024-10-21';
+
+const ADMIN_USER_IDS = (Deno.env.get('OPENAI_PROXY_ADMIN_USER_IDS') ?? '')
+  .split(',')
+  .map(id => id.trim())
+  .filter(Boolean);
+
+const RATE_LIMIT_PER_MINUTE = Number(Deno.env.get('OPENAI_PROXY_RATE_LIMIT_PER_MINUTE') ?? 30);
+const RATE_LIMIT_PER_DAY = Number(Deno.env.get('OPENAI_PROXY_RATE_LIMIT_PER_DAY') ?? 1000);
+
+const ALLOWED_CHAT_MODELS = ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo', 'gpt-4o', 'gpt-4o-mini'];
+const MAX_COMPLETION_TOKENS = 2000;
+
+type Route = 'chat' | 'moderations' | 'usage' | 'org-usage' | 'org-costs';
+
+const ORGANIZATION_ENDPOINTS: Partial<Record<Route, string>> = {
+  'org-usage': 'organization/usage/completions',
+  'org-costs': 'organization/costs'
+};
+
+// Query parameters passed on to the organization endpoints; anything else is dropped
+const ORGANIZATION_PARAMS = ['start_time', 'end_time', 'bucket_width', 'limit', 'page'];
+
+// Usage lookups cost nothing, so only requests OpenAI bills for count towards the limits
+const RATE_LIMITED_ROUTES: Route[] = ['chat', 'moderations'];
+
+// Organisation-wide usage and spend, which one teacher must not see of another's
+const ADMIN_ROUTES: Route[] = ['usage', 'org-usage', 'org-costs'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  // Lets the app wait as long as OpenAI (or the proxy's own limiter) asks before retrying
+  'Access-Control-Expose-Headers': 'Retry-After'
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers }
+  });
+
+// Upstream error bodies are not always JSON (a gateway's HTML 502, an empty body), so parsing may fail.
+// OpenAI's Retry-After is passed on so the app backs off for as long as OpenAI asked.
+const upstreamError = async (response: Response) => {
+  const payload = await response.json().catch(() => null);
+  const retryAfter = response.headers.get('Retry-After');
+  return json(
+    { error: payload?.error?.message ?? 'OpenAI request failed' },
+    response.status,
+    retryAfter ? { 'Retry-After': retryAfter } : {}
+  );
+};
+
+// A successful status with a body that will not parse is reported as a bad gateway
+const upstreamJson = async (response: Response) => {
+  const payload = await response.json().catch(() => null);
+  return payload === null ? json({ error: 'OpenAI returned an unreadable response' }, 502) : json(payload);
+};
+
+// Azure-only deployments may leave OPENAI_API_KEY unset, so it is checked per request
+const missingOpenAIKey = () => json({ error: 'OPENAI_API_KEY is not set for the openai-proxy function' }, 500);
+
+const openAIHeaders = (apiKey = OPENAI_API_KEY) => ({
+  'Authorization': `Bearer ${apiKey}`,
+  'Content-Type': 'application/json',
+  ...(OPENAI_ORG_ID ? { 'OpenAI-Organization': OPENAI_ORG_ID } : {})
+});
+
+const countRequestsSince = async (userId: string, since: Date) => {
+  const { count, error } = await supabase
+    .from('openai_proxy_requests')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('route', RATE_LIMITED_ROUTES)
+    .gte('created_at', since.toISOString());
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+};
+
+// Returns the number of seconds to wait, or null when the request may go ahead
+const checkRateLimit = async (userId: string): Promise<number | null> => {
+  const now = Date.now();
+  const [lastMinute, lastDay] = await Promise.all([
+    countRequestsSince(userId, new Date(now - 60 * 1000)),
+    countRequestsSince(userId, new Date(now - 24 * 60 * 60 * 1000))
+  ]);
+
+  if (lastDay >= RATE_LIMIT_PER_DAY) return 60 * 60;
+  if (lastMinute >= RATE_LIMIT_PER_MINUTE) return 60;
+  return null;
+};
+
+const logRequest = async (userId: string, route: Route, model: string | null) => {
+  const { data, error } = await supabase
+    .from('openai_proxy_requests')
+    .insert({ user_id: userId, route, model })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data.id as string;
+};
+
+const recordUsage = async (requestId: string, usage: { prompt_tokens: number; completion_tokens: number }) => {
+  await supabase
+    .from('openai_proxy_requests')
+    .update({
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens
+    })
+    .eq('id', requestId);
+};
+
+// Pass the event stream through untouched while watching for the final usage chunk
+const relayStream = (body: ReadableStream<Uint8Array>, requestId: string) => {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.startsWith('data:') || !line.includes('"usage":{')) continue;
+        try {
+          const { usage } = JSON.parse(line.slice('data:'.length));
+          if (usage) recordUsage(requestId, usage).catch(error => console.error('Error recording usage:', error));
+        } catch {
+          // Partial or non-JSON lines carry no usage
+        }
+      }
+    }
+  }));
+};
+
+// Where a chat request goes: OpenAI itself, or the teacher's Azure deployment, whose model is
+// fixed by the deployment rather than the request
+const chatTarget = (body: any) => {
+  if (body?.provider !== 'azure') {
+    return { url: `${OPENAI_API_URL}/chat/completions`, headers: openAIHeaders() };
+  }
+  return {
+    url: `${AZURE_OPENAI_ENDPOINT}/openai/deployments/${encodeURIComponent(body.deployment)}/chat/completions?api-version=${AZURE_OPENAI_API_VERSION}`,
+    headers: { 'api-key': AZURE_OPENAI_API_KEY!, 'Content-Type': 'application/json' }
+  };
+};
+
+const handleChat = async (userId: string, body: any) => {
+  const model = body?.model ?? 'gpt-3.5-turbo';
+  const isAzure = body?.provider === 'azure';
+  if (isAzure && (!AZURE_OPENAI_ENDPOINT || !AZURE_OPENAI_API_KEY)) {
+    return json({ error: 'Azure OpenAI is not set up for the openai-proxy function' }, 501);
+  }
+  if (isAzure && (typeof body.deployment !== 'string' || !/^[\w.-]+$/.test(body.deployment))) {
+    return json({ error: 'deployment must be an Azure OpenAI deployment name' }, 400);
+  }
+  if (!isAzure && !OPENAI_API_KEY) {
+    return missingOpenAIKey();
+  }
+  if (!isAzure && !ALLOWED_CHAT_MODELS.includes(model)) {
+    return json({ error: `Model ${model} is not available through the proxy` }, 400);
+  }
+  if (!Array.isArray(body?.messages) || body.messages.length === 0) {
+    return json({ error: 'messages must be a non-empty array' }, 400);
+  }
+
+  const requestId = await logRequest(userId, 'chat', isAzure ? `azure:${body.deployment}` : model);
+  const target = chatTarget(body);
+  const response = await fetch(target.url, {
+    method: 'POST',
+    headers: target.headers,
+    body: JSON.stringify({
+      ...(isAzure ? {} : { model }),
+      messages: body.messages,
+      temperature: body.temperature,
+      max_tokens: Math.min(Number(body.max_tokens) || 1000, MAX_COMPLETION_TOKENS),
+      ...(body.stream ? { stream: true, stream_options: { include_usage: true } } : {})
+    })
+  });
+
+  if (!response.ok) {
+    return await upstreamError(response);
+  }
+
+  if (body.stream && response.body) {
+    return new Response(relayStream(response.body, requestId), {
+      headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+    });
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (payload === null) {
+    return json({ error: 'OpenAI returned an unreadable response' }, 502);
+  }
+  if (payload.usage) {
+    await recordUsage(requestId, payload.usage);
+  }
+
+  return json(payload);
+};
+
+const handleModerations = async (userId: string, body: any) => {
+  if (!OPENAI_API_KEY) {
+    return missingOpenAIKey();
+  }
+  if (typeof body?.input !== 'string' || body.input.trim() === '') {
+    return json({ error: 'input must be a non-empty string' }, 400);
+  }
+
+  await logRequest(userId, 'moderations', body.model ?? 'omni-moderation-latest');
+  const response = await fetch(`${OPENAI_API_URL}/moderations`, {
+    method: 'POST',
+    headers: openAIHeaders(),
+    body: JSON.stringify({ model: body.model ?? 'omni-moderation-latest', input: body.input })
+  });
+
+  if (!response.ok) {
+    return await upstreamError(response);
+  }
+
+  return await upstreamJson(response);
+};
+
+const handleUsage = async (url: URL) => {
+  if (!OPENAI_API_KEY) {
+    return missingOpenAIKey();
+  }
+  const date = url.searchParams.get('date') ?? '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return json({ error: 'date must be in YYYY-MM-DD format' }, 400);
+  }
+
+  const response = await fetch(`${OPENAI_API_URL}/usage?date=${date}`, { headers: openAIHeaders() });
+  if (!response.ok) {
+    return await upstreamError(response);
+  }
+
+  return await upstreamJson(response);
+};
+
+const handleOrganization = async (route: Route, url: URL) => {
+  // 501 tells the app to fall back to the legacy /usage route
+  if (!OPENAI_ADMIN_KEY) {
+    return json({ error: 'OPENAI_ADMIN_KEY is not set for the openai-proxy function' }, 501);
+  }
+
+  const params = new URLSearchParams();
+  ORGANIZATION_PARAMS.forEach(name => {
+    const value = url.searchParams.get(name);
+    if (value) params.set(name, value);
+  });
+  (url.searchParams.get('group_by') ?? '')
+    .split(',')
+    .filter(Boolean)
+    .forEach(field => params.append('group_by', field));
+
+  const response = await fetch(`${OPENAI_API_URL}/${ORGANIZATION_ENDPOINTS[route]}?${params.toString()}`, {
+    headers: openAIHeaders(OPENAI_ADMIN_KEY)
+  });
+  if (!response.ok) {
+    return await upstreamError(response);
+  }
+
+  return await upstreamJson(response);
+};
+
+const isAdmin = (user: User) => ADMIN_USER_IDS.includes(user.id) || user.app_metadata?.role === 'admin';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return json({ error: 'Missing access token' }, 401);
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !user) {
+    return json({ error: 'Invalid or expired access token' }, 401);
+  }
+
+  const url = new URL(req.url);
+  const route = url.pathname.split('/').pop() as Route;
+
+  try {
+    if (ADMIN_ROUTES.includes(route) && !isAdmin(user)) {
+      return json({ error: 'Only account admins can see the organisation\'s OpenAI usage' }, 403);
+    }
+
+    if (RATE_LIMITED_ROUTES.includes(route)) {
+      const retryAfter = await checkRateLimit(user.id);
+      if (retryAfter !== null) {
+        return json(
+          { error: `Too many OpenAI requests. Please try again in ${retryAfter} seconds.` },
+          429,
+          { 'Retry-After': String(retryAfter) }
+        );
+      }
+    }
+
+    if (route === 'chat' && req.method === 'POST') return await handleChat(user.id, await req.json());
+    if (route === 'moderations' && req.method === 'POST') return await handleModerations(user.id, await req.json());
+    if (route === 'usage' && req.method === 'GET') return await handleUsage(url);
+    if (ORGANIZATION_ENDPOINTS[route] && req.method === 'GET') return await handleOrganization(route, url);
+
+    return json({ error: `Unknown route ${req.method} ${route}` }, 404);
+  } catch (error) {
+    console.error('openai-proxy error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unexpected proxy error' }, 500);
+  }
+});
\ No newline at end of file
@@ -0,0 +1,66 @@
+-- The schema the app started from: students, their messages and the per-day message_insights view.
+-- Written with "if not exists" so it is a no-op on projects that already have these tables.
+
+create table if not exists public.students (
+  id uuid primary key default gen_random_uuid(),
+  first_name text not null,
+  last_name text not null,
+  phone text not null,
+  enrollment_date date not null default current_date,
+  status text not null default 'active' check (status in ('active', 'inactive')),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists students_user_created_at_idx on public.students (user_id, created_at desc);
+
+create table if not exists public.messages (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  input_content text not null,
+  output_content text,
+  message_type text not null default 'text' check (message_type in ('text', 'image', 'file')),
+  is_read boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists messages_student_created_at_idx on public.messages (student_id, created_at desc);
+
+alter table public.students enable row level security;
+alter table public.messages enable row level security;
+
+drop policy if exists "Teachers manage their own students" on public.students;
+create policy "Teachers manage their own students"
+  on public.students for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+drop policy if exists "Teachers manage their own messages" on public.messages;
+create policy "Teachers manage their own messages"
+  on public.messages for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Messages per student per UTC day
+create or replace view public.message_insights with (security_invoker = true) as
+  select
+    user_id,
+    student_id,
+    (created_at at time zone 'utc')::date as message_date,
+    count(*)::int as message_count,
+    (count(*) filter (where not is_read))::int as unread_count
+  from public.messages
+  group by user_id, student_id, (created_at at time zone 'utc')::date;
+
+-- The dashboard subscribes to both tables
+do $$
+begin
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'students') then
+    alter publication supabase_realtime add table public.students;
+  end if;
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'messages') then
+    alter publication supabase_realtime add table public.messages;
+  end if;
+end;
+$$;
\ No newline at end of file
@@ -0,0 +1,314 @@
+-- Tables, columns and views added on top of the baseline schema. Everything a teacher owns carries
+-- user_id and is limited to that teacher by row level security; later migrations build on these.
+
+-- Student profiles
+alter table public.students
+  add column if not exists email text,
+  add column if not exists grade_level text,
+  add column if not exists date_of_birth date,
+  add column if not exists guardian_contacts jsonb not null default '[]'::jsonb,
+  add column if not exists notes text not null default '',
+  add column if not exists custom_fields jsonb not null default '{}'::jsonb;
+
+create table if not exists public.student_field_definitions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  field_type text not null check (field_type in ('text', 'number', 'date', 'select')),
+  options text[] not null default '{}',
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.student_tags (
+  student_id uuid not null references public.students (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  tag text not null,
+  created_at timestamptz not null default now(),
+  primary key (student_id, tag)
+);
+
+create table if not exists public.classes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  description text not null default '',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.class_memberships (
+  class_id uuid not null references public.classes (id) on delete cascade,
+  student_id uuid not null references public.students (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (class_id, student_id)
+);
+
+-- Replies, attachments, safety checks and token usage on messages
+alter table public.messages
+  add column if not exists output_author text not null default 'bot' check (output_author in ('bot', 'teacher')),
+  add column if not exists output_edited_at timestamptz,
+  add column if not exists attachment_path text,
+  add column if not exists attachment_metadata jsonb,
+  add column if not exists safety_flags jsonb,
+  add column if not exists safety_severity text check (safety_severity in ('low', 'medium', 'high')),
+  add column if not exists safety_checked_at timestamptz,
+  add column if not exists safety_acknowledged_at timestamptz,
+  add column if not exists topics_tagged_at timestamptz,
+  add column if not exists model text,
+  add column if not exists prompt_tokens integer,
+  add column if not exists completion_tokens integer;
+
+create table if not exists public.message_revisions (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references public.messages (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  previous_output text,
+  previous_author text not null check (previous_author in ('bot', 'teacher')),
+  revised_output text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists message_revisions_message_id_idx on public.message_revisions (message_id, created_at);
+
+-- Sent to the student by the messaging gateway, which sets status and sent_at
+create table if not exists public.outbound_messages (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  reply_to_message_id uuid references public.messages (id) on delete set null,
+  content text not null,
+  author_type text not null default 'teacher' check (author_type in ('bot', 'teacher')),
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  error_message text,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists outbound_messages_student_created_at_idx on public.outbound_messages (student_id, created_at);
+
+create table if not exists public.student_summaries (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  period_start date not null,
+  period_end date not null,
+  topics text[] not null default '{}',
+  difficulties text[] not null default '{}',
+  follow_ups text[] not null default '{}',
+  engagement_note text not null default '',
+  message_count integer not null,
+  model text not null,
+  prompt_tokens integer not null,
+  completion_tokens integer not null,
+  total_tokens integer not null,
+  cost numeric not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists student_summaries_student_created_at_idx on public.student_summaries (student_id, created_at desc);
+
+-- Topics and the messages tagged with them
+create table if not exists public.topics (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  parent_id uuid references public.topics (id) on delete set null,
+  name text not null,
+  keywords text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.message_topics (
+  message_id uuid not null references public.messages (id) on delete cascade,
+  topic_id uuid not null references public.topics (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  student_id uuid not null references public.students (id) on delete cascade,
+  confidence numeric not null default 1,
+  source text not null check (source in ('llm', 'keywords', 'teacher')),
+  created_at timestamptz not null default now(),
+  primary key (message_id, topic_id)
+);
+
+-- Playground and prompt templates
+create table if not exists public.playground_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  model text not null,
+  temperature numeric not null,
+  max_tokens integer not null,
+  system_prompt text not null,
+  turns jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.prompt_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  description text not null default '',
+  current_version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.prompt_template_versions (
+  id uuid primary key default gen_random_uuid(),
+  template_id uuid not null references public.prompt_templates (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  version integer not null,
+  content text not null,
+  variables jsonb not null default '[]'::jsonb,
+  note text,
+  created_at timestamptz not null default now(),
+  unique (template_id, version)
+);
+
+-- Pricing, providers, budgets and quotas
+create table if not exists public.model_prices (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  model text not null,
+  input_per_million numeric not null,
+  output_per_million numeric not null,
+  cached_input_per_million numeric,
+  effective_from date not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.llm_provider_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  provider text not null check (provider in ('openai', 'azure', 'compatible')),
+  azure_deployment text,
+  base_url text,
+  api_key text,
+  model text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Written by the openai-proxy function with the service role, so teachers may only read their own rows
+create table if not exists public.openai_proxy_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  route text not null check (route in ('chat', 'moderations', 'usage')),
+  model text,
+  prompt_tokens integer,
+  completion_tokens integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists openai_proxy_requests_user_created_at_idx on public.openai_proxy_requests (user_id, created_at desc);
+
+create table if not exists public.teacher_budgets (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  monthly_budget numeric not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.student_quotas (
+  student_id uuid primary key references public.students (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  daily_message_limit integer,
+  monthly_message_limit integer,
+  daily_token_limit integer,
+  monthly_token_limit integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Row level security: each teacher sees and changes only their own rows
+do $$
+declare
+  owned_table text;
+begin
+  foreach owned_table in array array[
+    'student_field_definitions', 'student_tags', 'classes', 'class_memberships', 'message_revisions',
+    'outbound_messages', 'student_summaries', 'topics', 'message_topics', 'playground_sessions',
+    'prompt_templates', 'prompt_template_versions', 'model_prices', 'llm_provider_settings',
+    'teacher_budgets', 'student_quotas'
+  ] loop
+    execute format('alter table public.%I enable row level security', owned_table);
+    execute format('drop policy if exists "Teachers manage their own rows" on public.%I', owned_table);
+    execute format(
+      'create policy "Teachers manage their own rows" on public.%I for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid())',
+      owned_table
+    );
+  end loop;
+end;
+$$;
+
+alter table public.openai_proxy_requests enable row level security;
+
+drop policy if exists "Teachers read their own proxy requests" on public.openai_proxy_requests;
+create policy "Teachers read their own proxy requests"
+  on public.openai_proxy_requests for select to authenticated using (user_id = auth.uid());
+
+-- Message attachments are uploaded by the messaging gateway; a teacher may read those on their own messages
+insert into storage.buckets (id, name, public)
+values ('message-attachments', 'message-attachments', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Teachers read attachments on their own messages" on storage.objects;
+create policy "Teachers read attachments on their own messages"
+  on storage.objects for select to authenticated
+  using (
+    bucket_id = 'message-attachments'
+    and exists (
+      select 1 from public.messages
+      where messages.attachment_path = storage.objects.name and messages.user_id = auth.uid()
+    )
+  );
+
+-- Insight views, all by UTC day. New columns go last so the baseline view can be replaced in place.
+create or replace view public.message_insights with (security_invoker = true) as
+  select
+    user_id,
+    student_id,
+    (created_at at time zone 'utc')::date as message_date,
+    count(*)::int as message_count,
+    (count(*) filter (where not is_read))::int as unread_count,
+    coalesce(sum(coalesce(prompt_tokens, 0) + coalesce(completion_tokens, 0)), 0)::bigint as total_tokens
+  from public.messages
+  group by user_id, student_id, (created_at at time zone 'utc')::date;
+
+-- Replies without a recorded model stay unpriced, like usage from any other unknown model
+create or replace view public.token_usage_insights with (security_invoker = true) as
+  select
+    user_id,
+    student_id,
+    (created_at at time zone 'utc')::date as message_date,
+    coalesce(model, 'unknown model') as model,
+    count(*)::int as message_count,
+    coalesce(sum(prompt_tokens), 0)::bigint as prompt_tokens,
+    coalesce(sum(completion_tokens), 0)::bigint as completion_tokens
+  from public.messages
+  where prompt_tokens is not null or completion_tokens is not null
+  group by user_id, student_id, (created_at at time zone 'utc')::date, coalesce(model, 'unknown model');
+
+-- Counted on the day the message arrived, not the day it was tagged
+create or replace view public.topic_insights with (security_invoker = true) as
+  select
+    message_topics.user_id,
+    message_topics.student_id,
+    message_topics.topic_id,
+    (messages.created_at at time zone 'utc')::date as message_date,
+    count(*)::int as message_count
+  from public.message_topics
+  join public.messages on messages.id = message_topics.message_id
+  group by message_topics.user_id, message_topics.student_id, message_topics.topic_id,
+    (messages.created_at at time zone 'utc')::date;
+
+do $$
+begin
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'outbound_messages') then
+    alter publication supabase_realtime add table public.outbound_messages;
+  end if;
+end;
+$$;
\ No newline at end of file
@@ -0,0 +1,34 @@
+-- Saves a teacher's edit to a reply together with its audit row, so neither can land without the other.
+-- Runs as the caller, so row level security still limits it to the teacher's own messages.
+create or replace function public.edit_bot_reply(p_message_id uuid, p_content text)
+returns setof public.messages
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  current_message public.messages;
+begin
+  select * into current_message
+  from public.messages
+  where id = p_message_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Message not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.message_revisions (message_id, user_id, previous_output, previous_author, revised_output)
+  values (current_message.id, current_message.user_id, current_message.output_content, current_message.output_author, p_content);
+
+  return query
+  update public.messages
+  set output_content = p_content,
+      output_author = 'teacher',
+      output_edited_at = now()
+  where id = p_message_id
+  returning *;
+end;
+$$;
+
+grant execute on function public.edit_bot_reply(uuid, text) to authenticated;
@@ -0,0 +1,14 @@
+-- Full-text search over what the student asked and what came back, kept up to date by Postgres itself.
+-- searchMessages queries it with websearch_to_tsquery('english', ...), so the config must match.
+alter table public.messages
+  add column if not exists search_vector tsvector
+  generated always as (
+    to_tsvector('english', coalesce(input_content, '') || ' ' || coalesce(output_content, ''))
+  ) stored;
+
+create index if not exists messages_search_vector_idx
+  on public.messages using gin (search_vector);
+
+-- Search pages walk (created_at, id) newest first
+create index if not exists messages_user_created_at_id_idx
+  on public.messages (user_id, created_at desc, id desc);
\ No newline at end of file
@@ -0,0 +1,131 @@
+-- Budget and quota state worked out by Postgres whenever it is read, so the bot is stopped (and let
+-- back in at the start of a new day or month) whether or not a teacher has the dashboard open.
+-- The bot reads teacher_budget_status.budget_exceeded and student_quota_status.quota_exceeded.
+
+-- The app's default rates, kept in step with DEFAULT_MODEL_PRICES in src/services/pricingRegistry.ts
+create table if not exists public.default_model_prices (
+  model text not null,
+  input_per_million numeric not null,
+  output_per_million numeric not null,
+  cached_input_per_million numeric,
+  effective_from date not null,
+  primary key (model, effective_from)
+);
+
+alter table public.default_model_prices enable row level security;
+
+drop policy if exists "Default prices are readable by everyone signed in" on public.default_model_prices;
+create policy "Default prices are readable by everyone signed in"
+  on public.default_model_prices for select to authenticated using (true);
+
+insert into public.default_model_prices (model, input_per_million, output_per_million, cached_input_per_million, effective_from) values
+  ('gpt-3.5-turbo', 1.5, 2, null, '2023-03-01'),
+  ('gpt-3.5-turbo', 0.5, 1.5, null, '2024-01-25'),
+  ('gpt-4', 30, 60, null, '2023-03-14'),
+  ('gpt-4-turbo', 10, 30, null, '2023-11-06'),
+  ('gpt-4o', 5, 15, null, '2024-05-13'),
+  ('gpt-4o', 2.5, 10, 1.25, '2024-10-01'),
+  ('gpt-4o-mini', 0.15, 0.6, 0.075, '2024-07-18'),
+  ('omni-moderation', 0, 0, null, '2024-09-26')
+on conflict (model, effective_from) do update set
+  input_per_million = excluded.input_per_million,
+  output_per_million = excluded.output_per_million,
+  cached_input_per_million = excluded.cached_input_per_million;
+
+-- The rate in force for a model on a day, chosen like PricingRegistry.findPrice: most specific
+-- family first, then the latest start date, with the teacher's own rate ahead of the default.
+-- No row means nobody has priced the model; that usage is left out rather than guessed at.
+create or replace function public.model_price_on(p_user_id uuid, p_model text, p_day date)
+returns table (input_per_million numeric, output_per_million numeric)
+language sql
+stable
+set search_path = public
+as $$
+  select prices.input_per_million, prices.output_per_million
+  from (
+    select model, input_per_million, output_per_million, effective_from, 0 as precedence
+    from public.model_prices
+    where user_id = p_user_id
+    union all
+    select model, input_per_million, output_per_million, effective_from, 1
+    from public.default_model_prices
+  ) prices
+  where prices.effective_from <= p_day
+    and (p_model = prices.model or p_model like prices.model || '-%')
+  order by length(prices.model) desc, prices.effective_from desc, prices.precedence
+  limit 1;
+$$;
+
+-- Everything a teacher is billed for: the bot's replies, and the summaries, playground runs, topic
+-- tagging and moderation checks the dashboard sends through the openai-proxy function
+create or replace view public.teacher_usage_events with (security_invoker = true) as
+  select user_id, student_id, created_at, model,
+    coalesce(prompt_tokens, 0) as prompt_tokens,
+    coalesce(completion_tokens, 0) as completion_tokens
+  from public.messages
+  where prompt_tokens is not null or completion_tokens is not null
+  union all
+  select user_id, null, created_at, model,
+    coalesce(prompt_tokens, 0),
+    coalesce(completion_tokens, 0)
+  from public.openai_proxy_requests
+  where prompt_tokens is not null or completion_tokens is not null;
+
+-- Periods start on UTC boundaries, like the insight views the dashboard reads
+create or replace view public.teacher_budget_status with (security_invoker = true) as
+  select
+    budgets.user_id,
+    budgets.monthly_budget,
+    coalesce(spend.cost, 0) as spent_this_month,
+    coalesce(spend.cost, 0) >= budgets.monthly_budget as budget_exceeded,
+    budgets.created_at,
+    budgets.updated_at
+  from public.teacher_budgets budgets
+  left join lateral (
+    select sum((events.prompt_tokens * price.input_per_million + events.completion_tokens * price.output_per_million) / 1000000) as cost
+    from public.teacher_usage_events events
+    cross join lateral public.model_price_on(events.user_id, events.model, (events.created_at at time zone 'utc')::date) price
+    where events.user_id = budgets.user_id
+      and events.created_at >= date_trunc('month', now() at time zone 'utc') at time zone 'utc'
+  ) spend on true;
+
+create or replace view public.student_quota_status with (security_invoker = true) as
+  select
+    quotas.student_id,
+    quotas.user_id,
+    quotas.daily_message_limit,
+    quotas.monthly_message_limit,
+    quotas.daily_token_limit,
+    quotas.monthly_token_limit,
+    usage.messages_today,
+    usage.messages_this_month,
+    usage.tokens_today,
+    usage.tokens_this_month,
+    (quotas.daily_message_limit is not null and usage.messages_today >= quotas.daily_message_limit)
+      or (quotas.monthly_message_limit is not null and usage.messages_this_month >= quotas.monthly_message_limit)
+      or (quotas.daily_token_limit is not null and usage.tokens_today >= quotas.daily_token_limit)
+      or (quotas.monthly_token_limit is not null and usage.tokens_this_month >= quotas.monthly_token_limit)
+      as quota_exceeded,
+    quotas.created_at,
+    quotas.updated_at
+  from public.student_quotas quotas
+  cross join lateral (
+    select
+      count(*) filter (where messages.created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc') as messages_today,
+      count(*) as messages_this_month,
+      coalesce(sum(coalesce(messages.prompt_tokens, 0) + coalesce(messages.completion_tokens, 0))
+        filter (where messages.created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc'), 0) as tokens_today,
+      coalesce(sum(coalesce(messages.prompt_tokens, 0) + coalesce(messages.completion_tokens, 0)), 0) as tokens_this_month
+    from public.messages
+    where messages.student_id = quotas.student_id
+      and messages.created_at >= date_trunc('month', now() at time zone 'utc') at time zone 'utc'
+  ) usage;
+
+-- The stored flags were only ever written by an open dashboard; the views replace them
+alter table public.teacher_budgets
+  drop column if exists budget_exceeded,
+  drop column if exists budget_exceeded_at;
+
+alter table public.student_quotas
+  drop column if exists quota_exceeded,
+  drop column if exists quota_exceeded_at;
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- Summaries made with a model no rate covers store no cost rather than one priced at another model's rates
+alter table public.student_summaries alter column cost drop not null;
\ No newline at end of file